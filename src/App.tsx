@@ -1,37 +1,129 @@
-import React, { useState, useMemo } from 'react';
+import { useState, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
 import Header from './components/Header';
 import Dashboard from './components/Dashboard';
 import Statistics from './components/Statistics';
 import Simulation from './components/Simulation';
+import Analytics from './components/Analytics';
+import Divergence from './components/Divergence';
+import Comparison from './components/Comparison';
+import Portfolio from './components/Portfolio';
+import Library from './components/Library';
+import Optimization from './components/Optimization';
+import ExportMenu from './components/ExportMenu';
 import EmptyState from './components/EmptyState';
-import { processData, type DataPoint, type ReportMeta } from './utils/parser';
+import ColumnMapper from './components/ColumnMapper';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import DateRangeFilter from './components/DateRangeFilter';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './components/ui/select';
+import { type ParsedResult } from './utils/parser';
+import { EMPTY_METRICS } from './utils/metrics';
+import { importFile } from './utils/importers';
+import { importTable, isTableImport, type TableImport } from './utils/csv';
+import { calculateStats } from './utils/statistics';
+import { calculateSymbolBreakdown, filterBySymbol } from './utils/symbols';
+import { filterByDateRange } from './utils/dateRange';
+import { addReport, selectReports, setActiveReport, type LoadedReport } from './store/reportsSlice';
+import { setActiveTab } from './store/uiSlice';
+import { clearSimulationResults } from './store/simulationSlice';
+import { setOptimization } from './store/optimizationSlice';
+import { isOptimizationResult } from './utils/optimization';
+import { saveToLibrary } from './utils/library';
+import type { RootState } from './store/store';
+
+// Shown until the first report is loaded
+const NO_REPORT: Pick<LoadedReport, 'name' | 'data' | 'deals' | 'initialDeposit' | 'metrics' | 'format' | 'kind' | 'account' | 'symbols' | 'diagnostics'> = {
+  name: '', data: [], deals: [], initialDeposit: 0, metrics: EMPTY_METRICS, format: 'mt5', kind: 'backtest', symbols: [], diagnostics: []
+};
 
 const QAudit = () => {
-  const [data, setData] = useState<DataPoint[]>([]);
-  const [initialDeposit, setInitialDeposit] = useState(0);
-  const [reportMeta, setReportMeta] = useState<ReportMeta>({ totalTrades: 0 });
-  const [activeTab, setActiveTab] = useState('dashboard');
+  const dispatch = useDispatch();
+  const reports = useSelector(selectReports);
+  const { order, activeId } = useSelector((state: RootState) => state.reports);
+  const { name, data, deals, initialDeposit, metrics, format, kind, account, symbols, diagnostics } = (activeId && reports[activeId]) || NO_REPORT;
+  const [selectedSymbol, setSelectedSymbol] = useState('all');
+  const activeTab = useSelector((state: RootState) => state.ui.activeTab);
+  const dateRange = useSelector((state: RootState) => state.ui.dateRange);
+  const riskSettings = useSelector((state: RootState) => state.settings.risk);
+  const showTab = (tab: string) => dispatch(setActiveTab(tab));
+  // Compare, Portfolio, Library and Optimization span every report rather than the active one
+  const workspaceTab = activeTab === 'compare' || activeTab === 'portfolio' || activeTab === 'library' || activeTab === 'optimization';
+  const optimizationName = useSelector((state: RootState) => state.optimization.name);
+  // CSV imports waiting for their column mapping to be confirmed, one at a time
+  const [pendingImports, setPendingImports] = useState<{ name: string; content: string; table: TableImport }[]>([]);
+  const pendingImport = pendingImports[0] ?? null;
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // New imports also go to the library, so they survive a reload. A failed save (quota, private browsing)
+  // leaves the report open but gone on reload, so say so
+  const loadResult = (name: string, content: string, result: ParsedResult) => {
+    const { payload } = dispatch(addReport(name, result));
+    saveToLibrary(payload.id, name, content, result).catch(err =>
+      setImportError(`${name} is open but could not be saved to the library${err instanceof Error && err.message ? `: ${err.message}` : ''}. It will not be restored on reload.`)
+    );
+    setSelectedSymbol('all');
+  };
+
+  // A simulation run on the previous symbol's trades no longer matches the view
+  const selectSymbol = (symbol: string) => {
+    setSelectedSymbol(symbol);
+    dispatch(clearSimulationResults());
+  };
+
+  const openReport = (id: string) => {
+    dispatch(setActiveReport(id));
+    setSelectedSymbol('all');
+  };
 
   const handleFileUpload = (file: File) => {
     const reader = new FileReader();
     reader.onload = (ev) => {
       if (ev.target?.result && typeof ev.target.result === 'string') {
-        const { data, initialDeposit, reportMeta } = processData(ev.target.result);
-        setData(data);
-        setInitialDeposit(initialDeposit);
-        setReportMeta(reportMeta);
+        const content = ev.target.result;
+        // A malformed file is reported rather than left to throw out of the reader callback
+        try {
+          const imported = importFile({ name: file.name, content });
+          // Optimisation exports hold passes rather than trades, so they get their own workspace
+          if (isOptimizationResult(imported)) {
+            dispatch(setOptimization({ name: file.name, result: imported }));
+            showTab('optimization');
+          } else if (isTableImport(imported)) {
+            setPendingImports(pending => [...pending, { name: file.name, content, table: imported }]);
+          } else {
+            loadResult(file.name, content, imported);
+          }
+          setImportError(null);
+        } catch (err) {
+          setImportError(`${file.name}: ${err instanceof Error ? err.message : 'the file could not be read.'}`);
+        }
       }
     };
     reader.readAsText(file);
   };
 
+  // The scraped summary covers the whole account, so a single symbol or a date range is recomputed from its trades.
+  // A range starts from the balance the account had when it opened.
+  const view = useMemo(() => {
+    if (selectedSymbol === 'all' && !dateRange) return { data, metrics, initialDeposit };
+    const symbolData = selectedSymbol === 'all' ? data : filterBySymbol(data, initialDeposit, selectedSymbol);
+    const ranged = dateRange ? filterByDateRange(symbolData, initialDeposit, dateRange) : { data: symbolData, initialDeposit };
+    const viewMetrics = calculateStats(ranged.data, ranged.initialDeposit, riskSettings);
+    if (!dateRange) viewMetrics.period = metrics.period;
+    return { ...ranged, metrics: viewMetrics };
+  }, [data, initialDeposit, metrics, selectedSymbol, dateRange, riskSettings]);
+
+  const symbolBreakdown = useMemo(() => {
+    if (symbols.length <= 1) return [];
+    return calculateSymbolBreakdown(dateRange ? filterByDateRange(data, initialDeposit, dateRange).data : data);
+  }, [data, initialDeposit, symbols, dateRange]);
+
   const avgPerWeek = useMemo(() => {
-    if (data.length === 0) return 0;
-    const firstDate = data[0].date;
-    const lastDate = data[data.length - 1].date;
+    if (view.data.length === 0) return 0;
+    const firstDate = view.data[0].date;
+    const lastDate = view.data[view.data.length - 1].date;
     const diffWeeks = Math.max(1, (lastDate.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24 * 7));
-    return (reportMeta.totalTrades / diffWeeks).toFixed(2);
-  }, [data, reportMeta.totalTrades]);
+    return (view.metrics.totalTrades / diffWeeks).toFixed(2);
+  }, [view]);
 
   return (
     <div className="min-h-screen bg-[#080a0f] text-slate-300 p-6 font-['Inter',sans-serif]">
@@ -39,29 +131,115 @@ const QAudit = () => {
 
       <Header
         activeTab={activeTab}
-        setActiveTab={setActiveTab}
+        setActiveTab={showTab}
         onFileUpload={handleFileUpload}
       />
 
       <main className="max-w-7xl mx-auto">
-        {data.length > 0 ? (
-          activeTab === 'dashboard' ? (
+        {importError && (
+          <div className="flex justify-between items-center gap-4 mb-6 bg-[#11141d] p-4 rounded-2xl border border-rose-500/30">
+            <p className="text-rose-400 text-sm">{importError}</p>
+            <button onClick={() => setImportError(null)} className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-white">Dismiss</button>
+          </div>
+        )}
+        {pendingImport && (
+          <ColumnMapper
+            key={pendingImport.name}
+            tableImport={pendingImport.table}
+            onConfirm={t => {
+              try {
+                loadResult(pendingImport.name, pendingImport.content, importTable(t));
+              } catch (err) {
+                setImportError(`${pendingImport.name}: ${err instanceof Error ? err.message : 'the file could not be read.'}`);
+              }
+              setPendingImports(pending => pending.slice(1));
+            }}
+            onCancel={() => setPendingImports(pending => pending.slice(1))}
+          />
+        )}
+        {!pendingImport && !workspaceTab && diagnostics.length > 0 && <DiagnosticsPanel diagnostics={diagnostics} />}
+        {!pendingImport && !workspaceTab && data.length > 0 && (
+          <div className="flex justify-end gap-4 mb-6">
+            <DateRangeFilter data={data} />
+            <ExportMenu name={name} deals={deals} data={view.data} initialDeposit={view.initialDeposit} metrics={view.metrics} />
+            {order.length > 1 && (
+              <div className="w-[280px]">
+                <Select value={activeId ?? ''} onValueChange={openReport}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Report" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {order.map(id => (
+                      <SelectItem key={id} value={id}>{reports[id].name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {symbols.length > 1 && (
+              <div className="w-[240px]">
+                <Select value={selectedSymbol} onValueChange={selectSymbol}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Symbol" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">ALL SYMBOLS</SelectItem>
+                    {symbols.map(s => (
+                      <SelectItem key={s} value={s}>{s}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+        {pendingImport ? null : activeTab === 'library' ? (
+          <Library
+            onOpenReport={id => {
+              openReport(id);
+              showTab('dashboard');
+            }}
+          />
+        ) : activeTab === 'optimization' ? (
+          <Optimization key={optimizationName} />
+        ) : data.length > 0 ? (
+          activeTab === 'compare' ? (
+            <Comparison
+              onOpenReport={id => {
+                openReport(id);
+                showTab('dashboard');
+              }}
+            />
+          ) : activeTab === 'portfolio' ? (
+            <Portfolio />
+          ) : activeTab === 'dashboard' ? (
             <Dashboard
-              data={data}
-              initialDeposit={initialDeposit}
-              reportMeta={reportMeta}
+              data={view.data}
+              initialDeposit={view.initialDeposit}
+              metrics={view.metrics}
+              format={format}
+              kind={kind}
+              account={account}
+              zoomable
+              showValidation
             />
+          ) : activeTab === 'analytics' ? (
+            <Analytics data={view.data} />
+          ) : activeTab === 'divergence' ? (
+            <Divergence data={view.data} />
           ) : activeTab === 'simulation' ? (
             <Simulation
-              data={data}
-              initialDeposit={initialDeposit}
-              reportMeta={reportMeta}
+              data={view.data}
+              initialDeposit={view.initialDeposit}
+              metrics={view.metrics}
             />
           ) : (
             <Statistics
-              reportMeta={reportMeta}
+              metrics={view.metrics}
               avgPerWeek={avgPerWeek}
-              initialDeposit={initialDeposit}
+              initialDeposit={view.initialDeposit}
+              symbolBreakdown={symbolBreakdown}
+              data={view.data}
             />
           )
         ) : (
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import {
+    BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine,
+    ComposedChart, Line, ScatterChart, Scatter, ZAxis
+} from 'recharts';
+import { type DataPoint } from '../utils/parser';
+import { tradeDirection, type Direction } from '../utils/directions';
+import {
+    calculateRMultiples, histogram, holdingTimes, statsByHour, statsByMonth, statsByWeekday, type BucketStats
+} from '../utils/analytics';
+import { formatDuration, formatMoney } from '../utils/format';
+
+interface AnalyticsProps {
+    data: DataPoint[];
+}
+
+const tooltipStyle = { background: '#11141d', border: '1px solid #334155' };
+
+const BucketChart: React.FC<{ title: string; rows: BucketStats[] }> = ({ title, rows }) => (
+    <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+        <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">{title}</h3>
+        <div className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={rows}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1c212c" />
+                    <XAxis dataKey="label" stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                    <YAxis yAxisId="money" stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                    <YAxis yAxisId="rate" orientation="right" domain={[0, 100]} stroke="#475569" fontSize={10} axisLine={false} tickLine={false} tickFormatter={v => `${v}%`} />
+                    <Tooltip
+                        cursor={{ fill: '#ffffff05' }}
+                        contentStyle={tooltipStyle}
+                        formatter={(v, name) => (name === 'Win rate' ? `${Number(v).toFixed(1)}%` : formatMoney(Number(v)))}
+                        labelFormatter={(label, payload) => `${label} · ${payload?.[0]?.payload.trades ?? 0} trades`}
+                    />
+                    <ReferenceLine yAxisId="money" y={0} stroke="#334155" />
+                    <Bar yAxisId="money" dataKey="expectancy" name="Expectancy" radius={[4, 4, 0, 0]}>
+                        {rows.map(r => <Cell key={r.label} fill={r.expectancy >= 0 ? '#10b981' : '#f43f5e'} />)}
+                    </Bar>
+                    <Line yAxisId="rate" dataKey="winRate" name="Win rate" stroke="#6366f1" strokeWidth={2} dot={false} connectNulls />
+                </ComposedChart>
+            </ResponsiveContainer>
+        </div>
+    </div>
+);
+
+const Analytics: React.FC<AnalyticsProps> = ({ data }) => {
+    const [direction, setDirection] = useState<Direction | 'all'>('all');
+
+    const trades = useMemo(
+        () => data.filter(d => d.volume > 0 && (direction === 'all' || tradeDirection(d) === direction)),
+        [data, direction]
+    );
+
+    const profitBins = useMemo(() => histogram(trades.map(d => d.profit)), [trades]);
+    const rMultiples = useMemo(() => calculateRMultiples(trades), [trades]);
+    const rBins = useMemo(() => histogram(rMultiples.values, 30, 1), [rMultiples]);
+    const byHour = useMemo(() => statsByHour(trades), [trades]);
+    const byWeekday = useMemo(() => statsByWeekday(trades), [trades]);
+    const byMonth = useMemo(() => statsByMonth(trades), [trades]);
+    const holding = useMemo(() => holdingTimes(trades), [trades]);
+
+    const binTooltip = (digits: number, unit: string) => (_: unknown, payload?: readonly { payload?: { from: number; to: number } }[]) => {
+        const bin = payload?.[0]?.payload;
+        return bin ? `${bin.from.toFixed(digits)}${unit} to ${bin.to.toFixed(digits)}${unit}` : '';
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <p className="text-slate-500 text-xs">{trades.length} trades, bucketed by the time they were opened</p>
+                <div className="flex bg-[#080a0f] p-1 rounded-lg border border-slate-800">
+                    {(['all', 'long', 'short'] as const).map(d => (
+                        <button key={d} onClick={() => setDirection(d)} className={`px-4 py-1 text-[10px] font-bold uppercase rounded ${direction === d ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>{d}</button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                    <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">P&amp;L Distribution</h3>
+                    <div className="h-[220px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={profitBins}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1c212c" />
+                                <XAxis dataKey="label" stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                                <YAxis stroke="#475569" fontSize={10} axisLine={false} tickLine={false} allowDecimals={false} />
+                                <Tooltip cursor={{ fill: '#ffffff05' }} contentStyle={tooltipStyle} labelFormatter={binTooltip(2, '')} />
+                                <Bar dataKey="count" name="Trades" radius={[4, 4, 0, 0]}>
+                                    {profitBins.map(b => <Cell key={b.from} fill={b.to <= 0 ? '#f43f5e' : b.from >= 0 ? '#10b981' : '#64748b'} />)}
+                                </Bar>
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+
+                <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                    <div className="flex justify-between items-center mb-4">
+                        <h3 className="text-indigo-500 font-bold text-[10px] uppercase tracking-[0.2em]">R-Multiple Distribution</h3>
+                        <span className="text-xs text-slate-500">
+                            Avg <b className={rMultiples.average >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{rMultiples.average.toFixed(2)}R</b>
+                        </span>
+                    </div>
+                    <div className="h-[220px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={rBins}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1c212c" />
+                                <XAxis dataKey="label" stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                                <YAxis stroke="#475569" fontSize={10} axisLine={false} tickLine={false} allowDecimals={false} />
+                                <Tooltip cursor={{ fill: '#ffffff05' }} contentStyle={tooltipStyle} labelFormatter={binTooltip(2, 'R')} />
+                                <Bar dataKey="count" name="Trades" radius={[4, 4, 0, 0]}>
+                                    {rBins.map(b => <Cell key={b.from} fill={b.to <= 0 ? '#f43f5e' : b.from >= 0 ? '#10b981' : '#64748b'} />)}
+                                </Bar>
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <p className="text-slate-600 text-[10px] mt-2">
+                        1R is the S/L distance for {rMultiples.fromStops} of {rMultiples.values.length} trades; the rest use the average loss per lot.
+                    </p>
+                </div>
+
+                <BucketChart title="By Hour of Day" rows={byHour} />
+                <BucketChart title="By Day of Week" rows={byWeekday} />
+                <BucketChart title="By Month" rows={byMonth} />
+
+                <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                    <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Holding Time vs Profit</h3>
+                    {holding.length === 0 ? (
+                        <p className="text-slate-500 text-sm">This report has no entry times to measure holding time from.</p>
+                    ) : (
+                        <div className="h-[220px] w-full">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <ScatterChart>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#1c212c" />
+                                    <XAxis type="number" dataKey="hours" name="Holding" stroke="#475569" fontSize={10} axisLine={false} tickLine={false} tickFormatter={v => formatDuration(v / 24)} />
+                                    <YAxis type="number" dataKey="profit" name="Profit" stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                                    <ZAxis range={[20, 20]} />
+                                    <Tooltip
+                                        cursor={{ strokeDasharray: '3 3' }}
+                                        contentStyle={tooltipStyle}
+                                        formatter={(v, name) => (name === 'Holding' ? formatDuration(Number(v) / 24) : formatMoney(Number(v)))}
+                                    />
+                                    <ReferenceLine y={0} stroke="#334155" />
+                                    <Scatter data={holding} fill="#6366f1" fillOpacity={0.6}>
+                                        {holding.map((p, i) => <Cell key={i} fill={p.profit >= 0 ? '#10b981' : '#f43f5e'} />)}
+                                    </Scatter>
+                                </ScatterChart>
+                            </ResponsiveContainer>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default Analytics;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { MAPPED_FIELDS, type ColumnMapping, type MappedField, type TableImport } from '../utils/csv';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface ColumnMapperProps {
+    tableImport: TableImport;
+    onConfirm: (tableImport: TableImport) => void;
+    onCancel: () => void;
+}
+
+const ColumnMapper: React.FC<ColumnMapperProps> = ({ tableImport, onConfirm, onCancel }) => {
+    const [mapping, setMapping] = useState<ColumnMapping>(tableImport.mapping);
+    const [initialDeposit, setInitialDeposit] = useState(tableImport.initialDeposit);
+    // A deposit typed in by the user is no longer an assumption
+    const depositAssumed = tableImport.depositAssumed && initialDeposit === tableImport.initialDeposit;
+
+    const missing = MAPPED_FIELDS.filter(f => f.required && mapping[f.field] === -1);
+    const preview = tableImport.rows.slice(0, 5);
+
+    const setField = (field: MappedField, value: string) => {
+        setMapping(prev => ({ ...prev, [field]: parseInt(value) }));
+    };
+
+    return (
+        <div className="bg-[#11141d] p-8 rounded-3xl border border-slate-800 shadow-sm space-y-8">
+            <div>
+                <h3 className="text-indigo-500 font-bold mb-1 text-[10px] uppercase tracking-[0.2em]">Column Mapping</h3>
+                <p className="text-slate-500 text-xs">{tableImport.rows.length} rows detected. Match each field to a column of the file.</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                {MAPPED_FIELDS.map(({ field, label, required }) => (
+                    <div key={field} className="flex flex-col gap-2">
+                        <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">{label}{required && <span className="text-rose-400"> *</span>}</label>
+                        <Select value={mapping[field].toString()} onValueChange={v => setField(field, v)}>
+                            <SelectTrigger className="text-sm font-semibold">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="-1">—</SelectItem>
+                                {tableImport.header.map((h, i) => (
+                                    <SelectItem key={i} value={i.toString()}>{h || `Column ${i + 1}`}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                ))}
+                <div className="flex flex-col gap-2">
+                    <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Initial Deposit</label>
+                    <input
+                        type="number"
+                        value={initialDeposit}
+                        onChange={e => setInitialDeposit(parseFloat(e.target.value) || 0)}
+                        className="bg-[#080a0f] border border-slate-700 text-white rounded-md px-3 h-10 font-mono focus:border-indigo-500 focus:outline-none transition-colors"
+                    />
+                    {depositAssumed && <p className="text-amber-400 text-[10px]">Assumed: the file has no balance column.</p>}
+                </div>
+            </div>
+
+            <div className="overflow-x-auto bg-[#080a0f] rounded-2xl border border-slate-800/50 p-4">
+                <table className="w-full text-xs font-mono">
+                    <thead>
+                        <tr className="text-slate-500 text-left">
+                            {tableImport.header.map((h, i) => <th key={i} className="px-2 py-1 whitespace-nowrap">{h}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {preview.map((row, r) => (
+                            <tr key={r} className="text-slate-300 border-t border-slate-800/40">
+                                {row.map((c, i) => <td key={i} className="px-2 py-1 whitespace-nowrap">{c}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex justify-end gap-4">
+                <button onClick={onCancel} className="px-5 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-500 hover:text-white transition-all">Cancel</button>
+                <button
+                    onClick={() => onConfirm({ ...tableImport, mapping, initialDeposit, depositAssumed })}
+                    disabled={missing.length > 0}
+                    className="px-5 py-2 rounded-xl text-xs font-bold uppercase tracking-widest bg-indigo-600 text-white shadow-lg disabled:opacity-40 transition-all"
+                >
+                    Import
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ColumnMapper;
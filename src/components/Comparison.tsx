@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { useDispatch, useSelector } from 'react-redux';
+import { removeReport, selectReports } from '../store/reportsSlice';
+import type { RootState } from '../store/store';
+import { METRIC_FIELDS } from '../utils/metrics';
+import { formatMetricValue } from '../utils/format';
+import { buildGrowthCurve } from '../utils/equity';
+
+interface ComparisonProps {
+    onOpenReport: (id: string) => void;
+}
+
+const COLORS = ['#6366f1', '#f59e0b', '#10b981', '#f43f5e', '#0ea5e9', '#a855f7', '#84cc16', '#ec4899'];
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString('default', { year: '2-digit', month: 'short', day: 'numeric' });
+
+const Comparison: React.FC<ComparisonProps> = ({ onOpenReport }) => {
+    const dispatch = useDispatch();
+    const byId = useSelector(selectReports);
+    const { order, activeId } = useSelector((state: RootState) => state.reports);
+    const [hidden, setHidden] = useState<string[]>([]);
+
+    const reports = useMemo(() => order.map((id, i) => ({ ...byId[id], color: COLORS[i % COLORS.length] })), [byId, order]);
+    const visible = useMemo(() => reports.filter(r => !hidden.includes(r.id)), [reports, hidden]);
+
+    const curves = useMemo(
+        () => Object.fromEntries(reports.map(r => [r.id, buildGrowthCurve(r.data, r.initialDeposit)])),
+        [reports]
+    );
+
+    // Best and worst report per metric, among the visible ones
+    const rows = useMemo(() => METRIC_FIELDS.map(field => {
+        const values = visible.map(r => r.metrics[field.key]);
+        const defined = values.filter((v): v is number => v !== undefined);
+        const distinct = new Set(defined).size > 1;
+        const best = field.better === 'lower' ? Math.min(...defined) : Math.max(...defined);
+        const worst = field.better === 'lower' ? Math.max(...defined) : Math.min(...defined);
+        return { ...field, values, best: field.better && distinct ? best : null, worst: field.better && distinct ? worst : null };
+    }), [visible]);
+
+    const toggle = (id: string) => setHidden(hidden.includes(id) ? hidden.filter(h => h !== id) : [...hidden, id]);
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Loaded Reports</h3>
+                <div className="space-y-2">
+                    {reports.map(r => (
+                        <div key={r.id} className="flex items-center gap-4 py-2 border-b border-slate-800/40 last:border-0">
+                            <button
+                                onClick={() => toggle(r.id)}
+                                className="w-4 h-4 rounded-sm border border-slate-700 shrink-0"
+                                style={{ background: hidden.includes(r.id) ? 'transparent' : r.color }}
+                                title={hidden.includes(r.id) ? 'Show' : 'Hide'}
+                            />
+                            <span className={`text-sm font-semibold truncate flex-1 ${r.id === activeId ? 'text-indigo-400' : 'text-slate-200'}`}>{r.name}</span>
+                            <span className="text-slate-500 text-xs uppercase tracking-wider">{r.format}</span>
+                            <span className="text-slate-500 text-xs">{r.metrics.period}</span>
+                            <button onClick={() => onOpenReport(r.id)} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-white">Open</button>
+                            <button onClick={() => dispatch(removeReport(r.id))} className="text-[10px] font-bold uppercase tracking-widest text-rose-500/70 hover:text-rose-400">Remove</button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Growth (% of Initial Deposit)</h3>
+                <div className="h-[400px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart>
+                            <CartesianGrid strokeDasharray="5 5" stroke="#1c212c" vertical={false} />
+                            <XAxis
+                                dataKey="time"
+                                type="number"
+                                scale="time"
+                                domain={['dataMin', 'dataMax']}
+                                tickFormatter={formatDate}
+                                stroke="#475569"
+                                fontSize={10}
+                                axisLine={false}
+                                tickLine={false}
+                                allowDuplicatedCategory={false}
+                            />
+                            <YAxis stroke="#475569" fontSize={10} axisLine={false} tickLine={false} tickFormatter={v => `${v}%`} />
+                            <Tooltip
+                                contentStyle={{ background: '#11141d', border: '1px solid #334155', borderRadius: '12px' }}
+                                labelStyle={{ color: '#94a3b8', marginBottom: '8px' }}
+                                labelFormatter={label => formatDate(Number(label))}
+                                formatter={value => `${Number(value).toFixed(2)}%`}
+                            />
+                            <Legend wrapperStyle={{ fontSize: 10 }} />
+                            <ReferenceLine y={0} stroke="#334155" />
+                            {visible.map(r => (
+                                <Line
+                                    key={r.id}
+                                    name={r.name}
+                                    data={curves[r.id]}
+                                    dataKey="growth"
+                                    type="stepAfter"
+                                    stroke={r.color}
+                                    strokeWidth={2}
+                                    dot={false}
+                                />
+                            ))}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+
+            <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 overflow-x-auto">
+                <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Metrics</h3>
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-slate-500 text-[10px] uppercase tracking-widest">
+                            <th className="text-left font-bold pb-2">Metric</th>
+                            {visible.map(r => (
+                                <th key={r.id} className="text-right font-bold pb-2 max-w-[160px] truncate" style={{ color: r.color }}>{r.name}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => (
+                            <tr key={row.key} className="border-t border-slate-800/50">
+                                <td className="py-2 text-slate-400 text-xs uppercase tracking-wider">{row.label}</td>
+                                {row.values.map((v, i) => (
+                                    <td
+                                        key={visible[i].id}
+                                        className={`py-2 text-right font-mono ${v === row.best ? 'text-emerald-400 font-bold' : v === row.worst ? 'text-rose-400' : 'text-slate-200'}`}
+                                    >
+                                        {formatMetricValue(v, row.kind)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="text-slate-600 text-[10px] uppercase tracking-widest mt-4">Best value per row in green, worst in red.</p>
+            </div>
+        </div>
+    );
+};
+
+export default Comparison;
@@ -1,18 +1,46 @@
 import React, { useState, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
 import {
     LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
-    BarChart, Bar, Cell, ReferenceLine, LabelList
+    BarChart, Bar, Cell, ReferenceLine, LabelList, AreaChart, Area, ReferenceArea, Brush
 } from 'recharts';
-import { type DataPoint, type ReportMeta } from '../utils/parser';
+import { type AccountSummary, type DataPoint, type ReportFormat, type ReportKind } from '../utils/parser';
+import { type Metrics } from '../utils/metrics';
+import { formatMoney } from '../utils/format';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { buildEquityCurve } from '../utils/equity';
+import { openingAmount, type OpeningBalance } from '../utils/balance';
+import { calculateDailyReturns, calculateReturnTables, chartReturns } from '../utils/returns';
+import { buildUnderwaterCurve } from '../utils/drawdowns';
+import { validationBounds } from '../utils/walkForward';
+import { parseFlexibleDate } from '../utils/tables';
+import { setDateRange } from '../store/uiSlice';
+import type { RootState } from '../store/store';
+import ReturnsHeatmap from './ReturnsHeatmap';
+import DrawdownTable from './DrawdownTable';
+import PnlCalendar from './PnlCalendar';
 
 interface DashboardProps {
     data: DataPoint[];
-    initialDeposit: number;
-    reportMeta: ReportMeta;
+    initialDeposit: OpeningBalance;
+    metrics: Metrics;
+    format?: ReportFormat;
+    kind?: ReportKind;
+    account?: AccountSummary;
+    // Only the active report's dashboard drives the global date range and shows the validation periods
+    zoomable?: boolean;
+    showValidation?: boolean;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ data, initialDeposit, reportMeta }) => {
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+    mt5: 'MT5 Strategy Tester',
+    mt4: 'MT4 Strategy Tester',
+    ctrader: 'cTrader History',
+    tradingview: 'TradingView Trades',
+    csv: 'CSV Trade History',
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ data, initialDeposit, metrics, format, kind, account, zoomable = false, showValidation = false }) => {
     const [perfView, setPerfView] = useState('monthly');
     const [viewMode, setViewMode] = useState('percentage');
     const primaryColor = '#6366f1';
@@ -29,76 +57,87 @@ const Dashboard: React.FC<DashboardProps> = ({ data, initialDeposit, reportMeta
         }
     }, [availableYears, selectedYear]);
 
-    const chartStats = useMemo(() => {
-        if (data.length === 0) return { monthly: [], yearly: [] };
-
-        const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-        const mSub: Record<string, { label: string; profit: number; startBal: number }> = {};
-        const ySub: Record<string, { label: string; profit: number; startBal: number }> = {};
-        let runningBal = initialDeposit || (data.length > 0 ? data[0].balance : 0);
-
-        months.forEach(m => {
-            mSub[m] = { label: m, profit: 0, startBal: -1 };
-        });
-
-        data.forEach(deal => {
-            const year = deal.date.getFullYear();
-            const month = deal.date.toLocaleString('default', { month: 'short' });
-
-            if (!ySub[year]) ySub[year] = { label: year.toString(), profit: 0, startBal: runningBal };
-
-            if (year === selectedYear) {
-                if (mSub[month] && mSub[month].startBal === -1) {
-                    mSub[month].startBal = runningBal;
-                }
-            }
-
-            const isTrade = deal.type
-                ? !['balance', 'deposit', 'withdrawal'].some(t => deal.type?.includes(t))
-                : deal.volume > 0;
-
-            if (isTrade) {
-                if (year === selectedYear) {
-                    mSub[month].profit += deal.profit;
-                }
-                ySub[year].profit += deal.profit;
-            }
-
-            runningBal += deal.profit;
-        });
-
-        months.forEach(m => {
-            if (mSub[m] && mSub[m].startBal === -1) mSub[m].startBal = 1;
-        });
-
-        const format = (obj: any) => Object.values(obj).map((v: any) => ({
-            ...v,
-            val: parseFloat((viewMode === 'percentage' ? (v.profit / (v.startBal || 1)) * 100 : v.profit).toFixed(2))
-        }));
-
-        return { monthly: format(mSub), yearly: format(ySub) };
-    }, [data, initialDeposit, viewMode, selectedYear]);
+    const equityCurve = useMemo(() => buildEquityCurve(data, initialDeposit), [data, initialDeposit]);
+    const underwater = useMemo(() => buildUnderwaterCurve(equityCurve), [equityCurve]);
+
+    // Brushing the balance chart narrows the global date range, so the zoom carries over to every tab
+    const dispatch = useDispatch();
+    const zoomTo = ({ startIndex, endIndex }: { startIndex: number; endIndex: number }) => {
+        if (startIndex === 0 && endIndex === equityCurve.length - 1) return;
+        const [start, end] = [equityCurve[startIndex], equityCurve[endIndex]].map(p => parseFlexibleDate(p?.time ?? ''));
+        if (start && end) dispatch(setDateRange({ start: start.getTime(), end: end.getTime() }));
+    };
+
+    // Out-of-sample periods set on the Statistics tab, located on the chart's category axis
+    const validation = useSelector((state: RootState) => state.settings.validation);
+    const outOfSample = useMemo(() => {
+        if (!showValidation) return [];
+        const timeAt = (ms: number) => data.find(d => d.date.getTime() >= ms)?.time;
+        return validationBounds(data, validation)
+            .map(b => ({ from: timeAt(b.outOfSampleStart), to: timeAt(b.outOfSampleEnd) ?? data[data.length - 1].time }))
+            .filter((b): b is { from: string; to: string } => b.from !== undefined);
+    }, [data, validation, showValidation]);
+
+    const returnTables = useMemo(() => calculateReturnTables(data, initialDeposit), [data, initialDeposit]);
+    const chartStats = useMemo(() => chartReturns(returnTables, selectedYear, viewMode), [returnTables, selectedYear, viewMode]);
+    const dailyReturns = useMemo(() => calculateDailyReturns(data, initialDeposit), [data, initialDeposit]);
 
     return (
         <div className="space-y-6">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <div className="bg-[#11141d] p-5 rounded-2xl border border-slate-800 shadow-sm"><p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Initial Balance</p><p className="text-xl font-bold text-white">${initialDeposit}</p></div>
-                <div className="bg-[#11141d] p-5 rounded-2xl border border-slate-800 shadow-sm col-span-2"><p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Test Period</p><p className="text-sm font-medium text-slate-300">{reportMeta.period}</p></div>
-                <div className="bg-[#11141d] p-5 rounded-2xl border border-slate-800 shadow-sm"><p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Total Net Profit</p><p className="text-xl font-bold text-emerald-400">{reportMeta.totalNetProfit}</p></div>
+                <div className="bg-[#11141d] p-5 rounded-2xl border border-slate-800 shadow-sm"><p className="text-slate-500 text-[10px] uppercase font-bold mb-1">{kind === 'statement' ? 'Opening Balance' : 'Initial Balance'}</p><p className="text-xl font-bold text-white">${openingAmount(initialDeposit)}</p></div>
+                <div className="bg-[#11141d] p-5 rounded-2xl border border-slate-800 shadow-sm col-span-2"><p className="text-slate-500 text-[10px] uppercase font-bold mb-1">{kind === 'statement' ? 'Period' : 'Test Period'}{format && <span className="ml-2 text-indigo-400">{kind === 'statement' ? 'MT5 Account Statement' : FORMAT_LABELS[format]}</span>}</p><p className="text-sm font-medium text-slate-300">{metrics.period}</p></div>
+                <div className="bg-[#11141d] p-5 rounded-2xl border border-slate-800 shadow-sm"><p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Total Net Profit</p><p className="text-xl font-bold text-emerald-400">{formatMoney(metrics.netProfit)}</p></div>
             </div>
 
-            <div className="bg-[#11141d] p-6 rounded-3xl border border-slate-800 h-[380px] shadow-sm">
-                <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={data}>
-                        <CartesianGrid strokeDasharray="5 5" stroke="#1c212c" vertical={false} />
-                        <XAxis dataKey="time" hide />
-                        <YAxis domain={['auto', 'auto']} stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
-                        <Tooltip contentStyle={{ background: '#11141d', border: '1px solid #334155', borderRadius: '12px' }} />
-                        <Line type="stepAfter" dataKey="balance" stroke={primaryColor} strokeWidth={3} dot={false} />
-                    </LineChart>
-                </ResponsiveContainer>
+            {account && (
+                <div className="bg-[#11141d] p-5 rounded-2xl border border-slate-800 shadow-sm flex flex-wrap gap-8 items-center">
+                    <div>
+                        <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Account</p>
+                        <p className="text-sm font-medium text-slate-300">{[account.account, account.name, account.company].filter(Boolean).join(' · ') || '—'}</p>
+                    </div>
+                    {([['Balance', account.balance], ['Equity', account.equity], ['Floating P/L', account.floatingPL]] as [string, number | undefined][]).map(([label, value]) => (
+                        <div key={label}>
+                            <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">{label}</p>
+                            <p className="text-sm font-bold text-white font-mono">{value === undefined ? '—' : formatMoney(value)}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="bg-[#11141d] p-6 rounded-3xl border border-slate-800 shadow-sm">
+                <div className="h-[330px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={equityCurve} syncId="balance">
+                            <CartesianGrid strokeDasharray="5 5" stroke="#1c212c" vertical={false} />
+                            <XAxis dataKey="time" hide />
+                            <YAxis domain={['auto', 'auto']} stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                            <Tooltip contentStyle={{ background: '#11141d', border: '1px solid #334155', borderRadius: '12px' }} />
+                            {outOfSample.map((b, i) => (
+                                <ReferenceArea key={i} x1={b.from} x2={b.to} fill="#10b981" fillOpacity={0.06} stroke="#10b981" strokeOpacity={0.3} strokeDasharray="3 3" label={i === 0 ? { value: 'OUT-OF-SAMPLE', position: 'insideTopLeft', fill: '#10b981', fontSize: 10 } : undefined} />
+                            ))}
+                            <Line name="Equity" type="linear" dataKey="equity" stroke="#f59e0b" strokeWidth={1} dot={false} strokeOpacity={0.7} />
+                            <Line name="Balance" type="stepAfter" dataKey="balance" stroke={primaryColor} strokeWidth={3} dot={false} />
+                            {zoomable && <Brush key={equityCurve.length} dataKey="time" height={22} stroke="#475569" fill="#080a0f" travellerWidth={8} tickFormatter={(t: string) => t.slice(0, 10)} onDragEnd={zoomTo} />}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+                <p className="text-slate-500 text-[10px] uppercase font-bold mt-4 mb-1">Underwater</p>
+                <div className="h-[130px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <AreaChart data={underwater} syncId="balance">
+                            <CartesianGrid strokeDasharray="5 5" stroke="#1c212c" vertical={false} />
+                            <XAxis dataKey="time" hide />
+                            <YAxis domain={['auto', 0]} stroke="#475569" fontSize={10} axisLine={false} tickLine={false} tickFormatter={v => `${v.toFixed(0)}%`} />
+                            <Tooltip contentStyle={{ background: '#11141d', border: '1px solid #334155', borderRadius: '12px' }} formatter={(v) => `${Number(v).toFixed(2)}%`} />
+                            <Area name="Drawdown" type="stepAfter" dataKey="drawdown" stroke="#f43f5e" fill="#f43f5e" fillOpacity={0.25} strokeWidth={1} />
+                        </AreaChart>
+                    </ResponsiveContainer>
+                </div>
             </div>
 
+            <DrawdownTable data={data} initialDeposit={initialDeposit} />
+
             <div className="bg-[#11141d] p-8 rounded-3xl border border-slate-800 shadow-sm">
                 <div className="flex flex-col mb-10 gap-4">
                     <div className="flex justify-between items-center">
@@ -150,6 +189,9 @@ const Dashboard: React.FC<DashboardProps> = ({ data, initialDeposit, reportMeta
                     </ResponsiveContainer>
                 </div>
             </div>
+
+            <ReturnsHeatmap tables={returnTables} viewMode={viewMode} />
+            <PnlCalendar daily={dailyReturns} />
         </div>
     );
 }
@@ -0,0 +1,51 @@
+import React from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { type DataPoint } from '../utils/parser';
+import { fromDateInput, toDateInput } from '../utils/dateRange';
+import { clearDateRange, setDateRange } from '../store/uiSlice';
+import type { RootState } from '../store/store';
+
+interface DateRangeFilterProps {
+    data: DataPoint[]; // the whole report, whose first and last deals bound the range
+}
+
+const DateRangeFilter: React.FC<DateRangeFilterProps> = ({ data }) => {
+    const dispatch = useDispatch();
+    const range = useSelector((state: RootState) => state.ui.dateRange);
+    if (data.length === 0) return null;
+
+    const first = data[0].date.getTime();
+    const last = data[data.length - 1].date.getTime();
+    const start = range?.start ?? first;
+    const end = range?.end ?? last;
+    const inputClass = 'bg-[#080a0f] border border-slate-700 text-white rounded-md px-3 h-9 w-40 font-mono text-xs focus:border-indigo-500 focus:outline-none transition-colors';
+
+    return (
+        <div className="flex items-center gap-2">
+            <input
+                type="date"
+                value={toDateInput(start)}
+                min={toDateInput(first)}
+                max={toDateInput(end)}
+                onChange={e => e.target.value && dispatch(setDateRange({ start: fromDateInput(e.target.value), end }))}
+                className={inputClass}
+            />
+            <span className="text-slate-500 text-xs">–</span>
+            <input
+                type="date"
+                value={toDateInput(end)}
+                min={toDateInput(start)}
+                max={toDateInput(last)}
+                onChange={e => e.target.value && dispatch(setDateRange({ start, end: fromDateInput(e.target.value, true) }))}
+                className={inputClass}
+            />
+            {range && (
+                <button onClick={() => dispatch(clearDateRange())} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-white px-2">
+                    Full Period
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default DateRangeFilter;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { type Diagnostic, type DiagnosticLevel } from '../utils/diagnostics';
+
+interface DiagnosticsPanelProps {
+    diagnostics: Diagnostic[];
+}
+
+const LEVEL_STYLES: Record<DiagnosticLevel, string> = {
+    error: 'text-rose-400',
+    warning: 'text-amber-400',
+    info: 'text-slate-500',
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics }) => {
+    const errors = diagnostics.filter(d => d.level === 'error').length;
+    const warnings = diagnostics.filter(d => d.level === 'warning').length;
+    const [expanded, setExpanded] = useState(false);
+
+    const status = errors > 0
+        ? { label: 'Summary disagrees with deals', className: 'text-rose-400 border-rose-500/40' }
+        : warnings > 0
+            ? { label: 'Parsed with warnings', className: 'text-amber-400 border-amber-500/40' }
+            : { label: 'Report verified', className: 'text-emerald-400 border-emerald-500/40' };
+
+    return (
+        <div className={`bg-[#11141d] px-6 py-4 rounded-2xl border mb-6 ${status.className}`}>
+            <div className="flex justify-between items-center">
+                <div className="flex items-center gap-4">
+                    <h3 className="text-indigo-500 font-bold text-[10px] uppercase tracking-[0.2em]">Report Validation</h3>
+                    <span className="text-xs font-bold uppercase tracking-widest">{status.label}</span>
+                    {(errors > 0 || warnings > 0) && (
+                        <span className="text-[10px] text-slate-500 uppercase tracking-wider">{errors} error(s), {warnings} warning(s)</span>
+                    )}
+                </div>
+                <button onClick={() => setExpanded(!expanded)} className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-white transition-all">
+                    {expanded ? 'Hide' : 'Details'}
+                </button>
+            </div>
+            {expanded && (
+                <ul className="mt-4 space-y-2">
+                    {diagnostics.map((d, i) => (
+                        <li key={i} className="flex gap-4 text-xs border-t border-slate-800/40 pt-2">
+                            <span className={`w-16 shrink-0 font-bold uppercase tracking-wider ${LEVEL_STYLES[d.level]}`}>{d.level}</span>
+                            <span className="text-slate-300 flex-1">{d.message}</span>
+                            {d.delta !== undefined && d.level !== 'info' && (
+                                <span className="font-mono text-slate-400">Δ {d.delta >= 0 ? '+' : ''}{d.delta.toFixed(2)}</span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default DiagnosticsPanel;
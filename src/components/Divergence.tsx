@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { useSelector } from 'react-redux';
+import { selectReports } from '../store/reportsSlice';
+import type { RootState } from '../store/store';
+import { type DataPoint } from '../utils/parser';
+import { analyzeDivergence, readLiveTrades, DEFAULT_DIVERGENCE_SETTINGS } from '../utils/divergence';
+import { formatMoney } from '../utils/format';
+import { formatTime } from '../utils/tables';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface DivergenceProps {
+    data: DataPoint[]; // the backtest
+}
+
+interface LiveSource {
+    name: string;
+    data: DataPoint[];
+}
+
+type Status = 'matched' | 'missing' | 'extra';
+
+interface TradeRow {
+    status: Status;
+    date: Date;
+    symbol?: string;
+    type?: string;
+    delay?: number;
+    entrySlippage?: number | null;
+    exitSlippage?: number | null;
+    backtestProfit?: number;
+    liveProfit?: number;
+    difference?: number;
+}
+
+const STATUS_CLASSES: Record<Status, string> = {
+    matched: 'text-emerald-400',
+    missing: 'text-amber-400',
+    extra: 'text-rose-400',
+};
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString('default', { year: '2-digit', month: 'short', day: 'numeric' });
+
+const formatPrice = (value: number | null | undefined) => (value === null || value === undefined ? '—' : value.toFixed(5));
+
+const Divergence: React.FC<DivergenceProps> = ({ data }) => {
+    const reports = useSelector(selectReports);
+    const { order, activeId } = useSelector((state: RootState) => state.reports);
+    const [live, setLive] = useState<LiveSource | null>(null);
+    const [liveId, setLiveId] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [windowMinutes, setWindowMinutes] = useState(DEFAULT_DIVERGENCE_SETTINGS.windowMinutes);
+
+    const others = order.filter(id => id !== activeId).map(id => reports[id]);
+
+    const report = useMemo(
+        () => (live ? analyzeDivergence(data, live.data, { ...DEFAULT_DIVERGENCE_SETTINGS, windowMinutes }) : null),
+        [data, live, windowMinutes]
+    );
+
+    const rows = useMemo((): TradeRow[] => {
+        if (!report) return [];
+        const entry = (d: DataPoint) => d.entryDate ?? d.date;
+        return [
+            ...report.matches.map(m => ({
+                status: 'matched' as const, date: entry(m.live), symbol: m.live.symbol, type: m.live.type, delay: m.entryDelay,
+                entrySlippage: m.entrySlippage, exitSlippage: m.exitSlippage,
+                backtestProfit: m.scaledBacktestProfit, liveProfit: m.live.profit, difference: m.profitDifference,
+            })),
+            ...report.missing.map(d => ({ status: 'missing' as const, date: entry(d), symbol: d.symbol, type: d.type, backtestProfit: d.profit * report.volumeRatio })),
+            ...report.extra.map(d => ({ status: 'extra' as const, date: entry(d), symbol: d.symbol, type: d.type, liveProfit: d.profit })),
+        ].sort((a, b) => a.date.getTime() - b.date.getTime());
+    }, [report]);
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = ev => {
+            if (typeof ev.target?.result !== 'string') return;
+            try {
+                setLive({ name: file.name, data: readLiveTrades({ name: file.name, content: ev.target.result }).data });
+                setLiveId('');
+                setError(null);
+            } catch (err) {
+                setError(err instanceof Error ? err.message : `Could not read ${file.name}.`);
+            }
+        };
+        reader.readAsText(file);
+    };
+
+    const average = (values: (number | null)[]) => {
+        const defined = values.filter((v): v is number => v !== null);
+        return defined.length > 0 ? defined.reduce((a, b) => a + b, 0) / defined.length : null;
+    };
+
+    const summary = report && [
+        { label: 'Matched', value: report.matches.length.toString() },
+        { label: 'Missing in Live', value: report.missing.length.toString() },
+        { label: 'Extra in Live', value: report.extra.length.toString() },
+        { label: 'Avg Entry Delay', value: report.matches.length > 0 ? `${average(report.matches.map(m => m.entryDelay))?.toFixed(1)} min` : '—' },
+        { label: 'Avg Entry Slippage', value: formatPrice(average(report.matches.map(m => m.entrySlippage))) },
+        { label: 'Avg Exit Slippage', value: formatPrice(average(report.matches.map(m => m.exitSlippage))) },
+        { label: 'Volume Ratio', value: `${report.volumeRatio.toFixed(2)}×` },
+        { label: 'P&L Divergence', value: formatMoney(report.curve[report.curve.length - 1]?.divergence ?? 0) },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Live Trades</h3>
+                <div className="flex flex-wrap items-end gap-4">
+                    <label className="bg-white/5 border border-white/10 hover:bg-white/10 text-white px-5 h-10 flex items-center rounded-xl text-xs font-bold uppercase tracking-widest cursor-pointer transition-all">
+                        Load Statement / CSV <input type="file" accept=".htm,.html,.csv,.tsv,.txt" className="hidden" onChange={handleFile} />
+                    </label>
+                    {others.length > 0 && (
+                        <div className="w-[260px]">
+                            <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Or a loaded report</p>
+                            <Select
+                                value={liveId}
+                                onValueChange={id => {
+                                    setLive({ name: reports[id].name, data: reports[id].data });
+                                    setLiveId(id);
+                                    setError(null);
+                                }}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select report" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {others.map(r => (
+                                        <SelectItem key={r.id} value={r.id}>{r.name}{r.kind === 'statement' ? ' (live)' : ''}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                    <div>
+                        <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Match Window (min)</p>
+                        <input
+                            type="number"
+                            min={1}
+                            value={windowMinutes}
+                            onChange={e => setWindowMinutes(Math.max(1, Number(e.target.value) || 1))}
+                            className="bg-[#080a0f] border border-slate-700 text-white rounded-md px-3 h-10 w-28 font-mono focus:border-indigo-500 focus:outline-none transition-colors"
+                        />
+                    </div>
+                    {live && <p className="text-sm text-slate-300 h-10 flex items-center">Comparing against <b className="ml-1 text-white">{live.name}</b></p>}
+                </div>
+                {error && <p className="text-rose-400 text-xs mt-3">{error}</p>}
+                <p className="text-slate-600 text-[10px] mt-3">
+                    Live trades are paired with backtest trades of the same direction and symbol opened within the window. Backtest results are scaled to the live volume.
+                </p>
+            </div>
+
+            {report && summary && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {summary.map(s => (
+                            <div key={s.label} className="bg-[#11141d] p-5 rounded-2xl border border-slate-800 shadow-sm">
+                                <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">{s.label}</p>
+                                <p className="text-xl font-bold text-white font-mono">{s.value}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                        <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Cumulative P&amp;L</h3>
+                        <div className="h-[340px] w-full">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={report.curve}>
+                                    <CartesianGrid strokeDasharray="5 5" stroke="#1c212c" vertical={false} />
+                                    <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatDate} stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                                    <YAxis stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                                    <Tooltip
+                                        contentStyle={{ background: '#11141d', border: '1px solid #334155', borderRadius: '12px' }}
+                                        labelFormatter={label => formatDate(Number(label))}
+                                        formatter={value => formatMoney(Number(value))}
+                                    />
+                                    <Legend wrapperStyle={{ fontSize: 10 }} />
+                                    <ReferenceLine y={0} stroke="#334155" />
+                                    <Line name="Backtest" type="stepAfter" dataKey="backtest" stroke="#6366f1" strokeWidth={2} dot={false} />
+                                    <Line name="Live" type="stepAfter" dataKey="live" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                                    <Line name="Divergence" type="stepAfter" dataKey="divergence" stroke="#f43f5e" strokeWidth={1} strokeDasharray="4 4" dot={false} />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+
+                    <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                        <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Distribution Test</h3>
+                        {report.test ? (
+                            <>
+                                <p className={`text-sm font-bold mb-4 ${report.test.consistent ? 'text-emerald-400' : 'text-rose-400'}`}>
+                                    {report.test.consistent
+                                        ? 'Live results are within what the backtest predicts.'
+                                        : 'Live results fall outside what the backtest predicts.'}
+                                </p>
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                    <div className="bg-[#080a0f] p-6 rounded-2xl border border-slate-800/50">
+                                        <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Live Total Percentile</p>
+                                        <p className="text-xl font-bold text-white font-mono">{report.test.percentile.toFixed(1)}%</p>
+                                    </div>
+                                    <div className="bg-[#080a0f] p-6 rounded-2xl border border-slate-800/50">
+                                        <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Mean per Lot (Live / Test)</p>
+                                        <p className="text-xl font-bold text-white font-mono">{formatMoney(report.test.liveMean)} / {formatMoney(report.test.backtestMean)}</p>
+                                    </div>
+                                    <div className="bg-[#080a0f] p-6 rounded-2xl border border-slate-800/50">
+                                        <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">KS Statistic</p>
+                                        <p className="text-xl font-bold text-white font-mono">{report.test.ksStatistic.toFixed(3)}</p>
+                                    </div>
+                                    <div className="bg-[#080a0f] p-6 rounded-2xl border border-slate-800/50">
+                                        <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">KS p-value</p>
+                                        <p className="text-xl font-bold text-white font-mono">{report.test.ksPValue.toFixed(3)}</p>
+                                    </div>
+                                </div>
+                                <p className="text-slate-600 text-[10px] mt-3">
+                                    The live total per lot is ranked among {report.test.liveTrades}-trade samples drawn from the backtest; outside the 2.5–97.5% band, or a KS p-value under 0.05, flags a mismatch.
+                                </p>
+                            </>
+                        ) : (
+                            <p className="text-slate-500 text-sm">Needs at least 2 live and 5 backtest trades.</p>
+                        )}
+                    </div>
+
+                    <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 overflow-x-auto">
+                        <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Trades</h3>
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-slate-500 text-[10px] uppercase tracking-widest">
+                                    <th className="text-left font-bold pb-2">Entry</th>
+                                    <th className="text-left font-bold pb-2">Symbol</th>
+                                    <th className="text-left font-bold pb-2">Type</th>
+                                    <th className="text-left font-bold pb-2">Status</th>
+                                    <th className="text-right font-bold pb-2">Delay</th>
+                                    <th className="text-right font-bold pb-2">Entry Slip.</th>
+                                    <th className="text-right font-bold pb-2">Exit Slip.</th>
+                                    <th className="text-right font-bold pb-2">Backtest</th>
+                                    <th className="text-right font-bold pb-2">Live</th>
+                                    <th className="text-right font-bold pb-2">Difference</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map((r, i) => (
+                                    <tr key={i} className="border-t border-slate-800/50 font-mono text-xs">
+                                        <td className="py-2 text-slate-300">{formatTime(r.date).slice(0, 16)}</td>
+                                        <td className="py-2 text-slate-300">{r.symbol ?? '—'}</td>
+                                        <td className="py-2 text-slate-300 uppercase">{r.type}</td>
+                                        <td className={`py-2 uppercase font-bold ${STATUS_CLASSES[r.status]}`}>{r.status}</td>
+                                        <td className="py-2 text-right text-slate-200">{r.delay === undefined ? '—' : `${r.delay.toFixed(0)} min`}</td>
+                                        <td className="py-2 text-right text-slate-200">{formatPrice(r.entrySlippage)}</td>
+                                        <td className="py-2 text-right text-slate-200">{formatPrice(r.exitSlippage)}</td>
+                                        <td className="py-2 text-right text-slate-200">{r.backtestProfit === undefined ? '—' : formatMoney(r.backtestProfit)}</td>
+                                        <td className="py-2 text-right text-slate-200">{r.liveProfit === undefined ? '—' : formatMoney(r.liveProfit)}</td>
+                                        <td className={`py-2 text-right ${(r.difference ?? 0) >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{r.difference === undefined ? '—' : formatMoney(r.difference)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default Divergence;
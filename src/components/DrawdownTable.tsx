@@ -0,0 +1,71 @@
+import React, { useMemo, useState } from 'react';
+import { type DataPoint } from '../utils/parser';
+import { analyzeDrawdowns } from '../utils/drawdowns';
+import { type OpeningBalance } from '../utils/balance';
+import { formatDuration, formatMoney, formatPercent } from '../utils/format';
+import { formatTime } from '../utils/tables';
+
+interface DrawdownTableProps {
+    data: DataPoint[];
+    initialDeposit: OpeningBalance;
+}
+
+const TOP_OPTIONS = [5, 10, 20];
+
+const formatDate = (date: Date) => formatTime(date).slice(0, 16);
+
+const DrawdownTable: React.FC<DrawdownTableProps> = ({ data, initialDeposit }) => {
+    const [top, setTop] = useState(5);
+    const analysis = useMemo(() => analyzeDrawdowns(data, initialDeposit, top), [data, initialDeposit, top]);
+
+    return (
+        <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 overflow-x-auto">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-indigo-500 font-bold text-[10px] uppercase tracking-[0.2em]">Drawdown Periods</h3>
+                <div className="flex bg-[#080a0f] p-1 rounded-lg border border-slate-800">
+                    {TOP_OPTIONS.map(n => (
+                        <button key={n} onClick={() => setTop(n)} className={`px-3 py-1 text-[10px] font-bold rounded ${top === n ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>Top {n}</button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex gap-6 mb-4 text-xs">
+                <span className="text-slate-500">Episodes <b className="text-slate-200">{analysis.count}</b></span>
+                <span className="text-slate-500">Longest below a prior high <b className="text-slate-200">{formatDuration(analysis.longestUnderwater)}</b></span>
+            </div>
+            {analysis.episodes.length === 0 ? (
+                <p className="text-slate-500 text-sm">The balance never fell below a prior high.</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-slate-500 text-[10px] uppercase tracking-widest">
+                            <th className="text-left font-bold pb-2">#</th>
+                            <th className="text-left font-bold pb-2">Peak</th>
+                            <th className="text-left font-bold pb-2">Trough</th>
+                            <th className="text-left font-bold pb-2">Recovery</th>
+                            <th className="text-right font-bold pb-2">Depth</th>
+                            <th className="text-right font-bold pb-2">Depth %</th>
+                            <th className="text-right font-bold pb-2">Duration</th>
+                            <th className="text-right font-bold pb-2">To Recover</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {analysis.episodes.map((e, i) => (
+                            <tr key={e.peakDate.getTime()} className="border-t border-slate-800/50 font-mono text-xs">
+                                <td className="py-2 text-slate-500">{i + 1}</td>
+                                <td className="py-2 text-slate-300">{formatDate(e.peakDate)}</td>
+                                <td className="py-2 text-slate-300">{formatDate(e.troughDate)}</td>
+                                <td className="py-2 text-slate-300">{e.recoveryDate ? formatDate(e.recoveryDate) : <span className="text-amber-400">Not recovered</span>}</td>
+                                <td className="py-2 text-right text-rose-400">{formatMoney(-e.depth)}</td>
+                                <td className="py-2 text-right text-rose-400">{formatPercent(-e.depthPct)}</td>
+                                <td className="py-2 text-right text-slate-200">{formatDuration(e.duration)}</td>
+                                <td className="py-2 text-right text-slate-200">{e.timeToRecover === null ? '—' : formatDuration(e.timeToRecover)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default DrawdownTable;
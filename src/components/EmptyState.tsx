@@ -2,7 +2,7 @@ import React from 'react';
 
 const EmptyState: React.FC = () => (
     <div className="h-[60vh] flex flex-col items-center justify-center text-slate-700 border-2 border-dashed border-slate-900 rounded-[40px] bg-[#11141d]/20">
-        <p className="text-sm font-bold uppercase tracking-widest">Awaiting MT5 HTML Report</p>
+        <p className="text-sm font-bold uppercase tracking-widest">Awaiting MT4 / MT5 Report or Trade History CSV</p>
     </div>
 );
 
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { useSelector } from 'react-redux';
+import { selectSimulationData } from '../store/simulationSlice';
+import { type DataPoint } from '../utils/parser';
+import { type Metrics } from '../utils/metrics';
+import { calculateReturnTables } from '../utils/returns';
+import { downloadFile, exportDeals, exportMetrics, exportReturns, exportSimulation, type ExportFormat } from '../utils/export';
+import { buildTearSheet } from '../utils/tearSheet';
+import { type OpeningBalance } from '../utils/balance';
+
+interface ExportMenuProps {
+    name: string; // the report's file name, used for the exported files
+    deals: DataPoint[];
+    data: DataPoint[];
+    initialDeposit: OpeningBalance;
+    metrics: Metrics;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ name, deals, data, initialDeposit, metrics }) => {
+    const [open, setOpen] = useState(false);
+    const simulated = useSelector(selectSimulationData);
+    const base = name.replace(/\.[^.]+$/, '');
+
+    const save = (kind: string, format: ExportFormat, content: string) => {
+        downloadFile(`${base}-${kind}.${format}`, content, format);
+        setOpen(false);
+    };
+
+    const exports: { label: string; run: (format: ExportFormat) => void; disabled?: boolean }[] = [
+        // The report's deals as imported, whatever symbol or date range is shown
+        { label: 'All Deals', run: f => save('deals', f, exportDeals(deals, f)) },
+        { label: 'Metrics', run: f => save('metrics', f, exportMetrics(metrics, f)) },
+        { label: 'Monthly / Yearly Returns', run: f => save('returns', f, exportReturns(calculateReturnTables(data, initialDeposit), f)) },
+        {
+            label: 'Simulation',
+            run: f => save('simulation', f, exportSimulation(simulated, f)),
+            disabled: simulated.length === 0,
+        },
+    ];
+
+    const tearSheet = () => buildTearSheet({ title: base, data, initialDeposit, metrics, returns: calculateReturnTables(data, initialDeposit) });
+
+    // Opens the sheet in a new window and hands it to the print dialog, where it can be saved as PDF
+    const printTearSheet = () => {
+        const win = window.open('', '_blank');
+        if (!win) return;
+        win.document.write(tearSheet());
+        win.document.close();
+        win.focus();
+        win.print();
+        setOpen(false);
+    };
+
+    const buttonClass = 'px-2 py-1 rounded text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-30 disabled:hover:bg-transparent';
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                className="bg-white/5 border border-white/10 hover:bg-white/10 text-white px-5 h-10 rounded-xl text-xs font-bold uppercase tracking-widest transition-all"
+            >
+                Export
+            </button>
+            {open && (
+                <div className="absolute right-0 mt-2 z-50 w-[320px] bg-[#11141d] border border-slate-800 rounded-2xl shadow-2xl p-4 space-y-2">
+                    {exports.map(e => (
+                        <div key={e.label} className="flex justify-between items-center">
+                            <span className={`text-xs ${e.disabled ? 'text-slate-600' : 'text-slate-300'}`}>{e.label}</span>
+                            <div className="flex gap-1">
+                                <button disabled={e.disabled} onClick={() => e.run('csv')} className={buttonClass}>CSV</button>
+                                <button disabled={e.disabled} onClick={() => e.run('json')} className={buttonClass}>JSON</button>
+                            </div>
+                        </div>
+                    ))}
+                    <div className="flex justify-between items-center border-t border-slate-800 pt-2">
+                        <span className="text-xs text-slate-300">Tear Sheet</span>
+                        <div className="flex gap-1">
+                            <button onClick={printTearSheet} className={buttonClass}>PDF</button>
+                            <button
+                                onClick={() => {
+                                    downloadFile(`${base}-tearsheet.html`, tearSheet(), 'html');
+                                    setOpen(false);
+                                }}
+                                className={buttonClass}
+                            >
+                                HTML
+                            </button>
+                        </div>
+                    </div>
+                    {simulated.length === 0 && (
+                        <p className="text-slate-600 text-[10px]">Open the Simulation tab to produce a simulated dataset.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
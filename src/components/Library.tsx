@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { addReport, removeReport, renameReport } from '../store/reportsSlice';
+import type { RootState } from '../store/store';
+import { deleteFromLibrary, listLibrary, loadFromLibrary, renameInLibrary, type LibraryEntry } from '../utils/library';
+import { formatMoney } from '../utils/format';
+
+interface LibraryProps {
+    onOpenReport: (id: string) => void;
+}
+
+const Library: React.FC<LibraryProps> = ({ onOpenReport }) => {
+    const dispatch = useDispatch();
+    const { reports, order } = useSelector((state: RootState) => state.reports);
+    const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const refresh = useCallback(() => {
+        listLibrary()
+            .then(setEntries)
+            .catch(() => setError('The report library is not available in this browser.'));
+    }, []);
+
+    // New imports are saved in the background, so list again when the workspace changes
+    useEffect(refresh, [refresh, order]);
+
+    // IndexedDB can fail per call (quota, a blocked upgrade, private browsing); say so rather than do nothing
+    const attempt = (action: () => Promise<void>, failure: string) => {
+        setActionError(null);
+        action().catch(err => setActionError(`${failure}${err instanceof Error && err.message ? `: ${err.message}` : '.'}`));
+    };
+
+    const open = async (id: string) => {
+        if (!reports[id]) {
+            const stored = await loadFromLibrary(id);
+            if (!stored) return refresh();
+            dispatch(addReport(stored.entry.name, stored.result, id));
+        }
+        onOpenReport(id);
+    };
+
+    const rename = async () => {
+        if (!editing) return;
+        const name = editing.name.trim();
+        if (name) {
+            await renameInLibrary(editing.id, name);
+            dispatch(renameReport({ id: editing.id, name }));
+        }
+        setEditing(null);
+        refresh();
+    };
+
+    const remove = async (id: string) => {
+        await deleteFromLibrary(id);
+        if (reports[id]) dispatch(removeReport(id));
+        refresh();
+    };
+
+    if (error) {
+        return <p className="text-rose-400 text-sm bg-[#11141d] p-6 rounded-2xl border border-slate-800">{error}</p>;
+    }
+
+    return (
+        <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+            <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Report Library</h3>
+            {actionError && <p className="text-rose-400 text-xs mb-4">{actionError}</p>}
+            {entries && entries.length === 0 && (
+                <p className="text-slate-500 text-sm">Imported reports are kept here, in this browser, and can be reopened after a reload.</p>
+            )}
+            {entries && entries.length > 0 && (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-slate-500 text-[10px] uppercase tracking-widest">
+                            <th className="text-left font-bold pb-2">Name</th>
+                            <th className="text-left font-bold pb-2">Format</th>
+                            <th className="text-left font-bold pb-2">Period</th>
+                            <th className="text-right font-bold pb-2">Trades</th>
+                            <th className="text-right font-bold pb-2">Net Profit</th>
+                            <th className="text-right font-bold pb-2">Imported</th>
+                            <th />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map(entry => (
+                            <tr key={entry.id} className="border-t border-slate-800/50">
+                                <td className="py-2 pr-4">
+                                    {editing?.id === entry.id ? (
+                                        <input
+                                            autoFocus
+                                            value={editing.name}
+                                            onChange={e => setEditing({ id: entry.id, name: e.target.value })}
+                                            onBlur={() => attempt(rename, 'Could not rename the report')}
+                                            onKeyDown={e => {
+                                                if (e.key === 'Enter') attempt(rename, 'Could not rename the report');
+                                                if (e.key === 'Escape') setEditing(null);
+                                            }}
+                                            className="bg-[#080a0f] border border-slate-700 text-white rounded-md px-2 h-8 w-full focus:border-indigo-500 focus:outline-none"
+                                        />
+                                    ) : (
+                                        <span className={reports[entry.id] ? 'text-indigo-400 font-semibold' : 'text-slate-200 font-semibold'}>{entry.name}</span>
+                                    )}
+                                </td>
+                                <td className="py-2 text-slate-500 text-xs uppercase tracking-wider">{entry.format}{entry.kind === 'statement' && ' · live'}</td>
+                                <td className="py-2 text-slate-400 text-xs">{entry.period}</td>
+                                <td className="py-2 text-right font-mono text-slate-300">{entry.totalTrades}</td>
+                                <td className={`py-2 text-right font-mono ${entry.netProfit >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatMoney(entry.netProfit)}</td>
+                                <td className="py-2 text-right text-slate-500 text-xs">{new Date(entry.importedAt).toLocaleString()}</td>
+                                <td className="py-2 pl-4 text-right whitespace-nowrap space-x-4">
+                                    <button onClick={() => attempt(() => open(entry.id), 'Could not open the report')} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-white">Open</button>
+                                    <button onClick={() => setEditing({ id: entry.id, name: entry.name })} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-white">Rename</button>
+                                    <button onClick={() => attempt(() => remove(entry.id), 'Could not delete the report')} className="text-[10px] font-bold uppercase tracking-widest text-rose-500/70 hover:text-rose-400">Delete</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default Library;
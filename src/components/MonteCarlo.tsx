@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import {
+    DEFAULT_MONTE_CARLO_OPTIONS, MAX_MONTE_CARLO_RUNS, type MonteCarloBand, type MonteCarloMessage, type MonteCarloOptions, type MonteCarloRequest,
+    type MonteCarloResult, type Percentiles, type ResampleMethod
+} from '../utils/monteCarlo';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface MonteCarloProps {
+    profits: number[];
+    initialDeposit: number;
+}
+
+const PercentileCard: React.FC<{ label: string; values: Percentiles; format: (v: number) => string }> = ({ label, values, format }) => (
+    <div className="bg-[#080a0f] p-5 rounded-2xl border border-slate-800/50">
+        <p className="text-slate-500 text-[10px] uppercase font-bold mb-3">{label}</p>
+        <div className="grid grid-cols-3 gap-2 text-center">
+            {(['p5', 'p50', 'p95'] as const).map(p => (
+                <div key={p}>
+                    <p className="text-[10px] text-slate-600 font-bold uppercase">{p.slice(1)}%</p>
+                    <p className={`text-sm font-bold ${p === 'p50' ? 'text-indigo-400' : 'text-slate-200'}`}>{format(values[p])}</p>
+                </div>
+            ))}
+        </div>
+    </div>
+);
+
+const MonteCarlo: React.FC<MonteCarloProps> = ({ profits, initialDeposit }) => {
+    const [options, setOptions] = useState<MonteCarloOptions>(DEFAULT_MONTE_CARLO_OPTIONS);
+    const [result, setResult] = useState<MonteCarloResult | null>(null);
+    const [progress, setProgress] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const workerRef = useRef<Worker | null>(null);
+
+    // Stop a running simulation when the tab is left
+    useEffect(() => () => workerRef.current?.terminate(), []);
+
+    const run = () => {
+        workerRef.current?.terminate();
+        const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+        workerRef.current = worker;
+        setProgress(0);
+        setError(null);
+
+        worker.onmessage = (e: MessageEvent<MonteCarloMessage>) => {
+            if (e.data.type === 'progress') {
+                setProgress(e.data.done);
+            } else {
+                setResult(e.data.result);
+                setProgress(null);
+                worker.terminate();
+                workerRef.current = null;
+            }
+        };
+        // A failure inside the worker (e.g. out of memory) would otherwise leave the run spinning forever
+        worker.onerror = (e: ErrorEvent) => {
+            e.preventDefault();
+            setError(e.message || 'The simulation failed.');
+            setProgress(null);
+            worker.terminate();
+            workerRef.current = null;
+        };
+        const request: MonteCarloRequest = { profits, initialDeposit, options };
+        worker.postMessage(request);
+    };
+
+    const money = (v: number) => `$${v.toFixed(2)}`;
+
+    return (
+        <div className="bg-[#11141d] p-8 rounded-3xl border border-slate-800 shadow-sm space-y-8">
+            <div className="flex flex-wrap gap-6 items-end">
+                <div className="flex flex-col gap-2">
+                    <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Resampling</label>
+                    <div className="w-[220px]">
+                        <Select value={options.method} onValueChange={v => setOptions({ ...options, method: v as ResampleMethod })}>
+                            <SelectTrigger className="text-sm font-semibold">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="bootstrap">Bootstrap</SelectItem>
+                                <SelectItem value="block">Block Bootstrap</SelectItem>
+                                <SelectItem value="shuffle">Shuffle</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+                <div className="flex flex-col gap-2">
+                    <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Runs</label>
+                    <input
+                        type="number"
+                        min="100"
+                        max={MAX_MONTE_CARLO_RUNS}
+                        step="100"
+                        value={options.runs}
+                        onChange={e => setOptions({ ...options, runs: Math.min(MAX_MONTE_CARLO_RUNS, Math.max(0, parseInt(e.target.value) || 0)) })}
+                        className="bg-[#080a0f] border border-slate-700 text-white rounded-md px-3 h-10 w-32 font-mono focus:border-indigo-500 focus:outline-none transition-colors"
+                    />
+                </div>
+                {options.method === 'block' && (
+                    <div className="flex flex-col gap-2">
+                        <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Block Size</label>
+                        <input
+                            type="number"
+                            min="1"
+                            value={options.blockSize}
+                            onChange={e => setOptions({ ...options, blockSize: parseInt(e.target.value) || 1 })}
+                            className="bg-[#080a0f] border border-slate-700 text-white rounded-md px-3 h-10 w-24 font-mono focus:border-indigo-500 focus:outline-none transition-colors"
+                        />
+                    </div>
+                )}
+                <button
+                    onClick={run}
+                    disabled={profits.length === 0 || options.runs <= 0}
+                    className="px-5 h-10 rounded-xl text-xs font-bold uppercase tracking-widest bg-indigo-600 text-white shadow-lg disabled:opacity-40 transition-all"
+                >
+                    {progress !== null ? `Running ${(progress * 100).toFixed(0)}%` : 'Run Monte Carlo'}
+                </button>
+                {options.method === 'shuffle' && (
+                    <p className="text-slate-500 text-xs max-w-xs">Shuffling keeps every trade once, so the final balance is fixed and only the path varies.</p>
+                )}
+                {error && <p className="text-rose-400 text-xs max-w-xs">{error}</p>}
+            </div>
+
+            {result && (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <PercentileCard label="Final Balance" values={result.finalBalance} format={money} />
+                        <PercentileCard label="Max Drawdown" values={result.maxDrawdown} format={money} />
+                        <PercentileCard label="Longest Losing Streak" values={result.longestLosingStreak} format={v => v.toFixed(0)} />
+                    </div>
+
+                    <div className="h-[400px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <ComposedChart data={result.bands}>
+                                <CartesianGrid strokeDasharray="5 5" stroke="#1c212c" vertical={false} />
+                                <XAxis dataKey="trade" stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                                <YAxis domain={['auto', 'auto']} stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                                <Tooltip
+                                    contentStyle={{ background: '#11141d', border: '1px solid #334155', borderRadius: '12px' }}
+                                    labelStyle={{ color: '#94a3b8', marginBottom: '8px' }}
+                                    labelFormatter={label => `Trade #${label}`}
+                                    formatter={value => (Array.isArray(value) ? value.map(v => money(Number(v))).join(' – ') : money(Number(value)))}
+                                />
+                                <Legend wrapperStyle={{ fontSize: 10 }} />
+                                <Area name="5% – 95%" dataKey={(d: MonteCarloBand) => [d.p5, d.p95]} stroke="none" fill="#6366f1" fillOpacity={0.15} />
+                                <Line name="Median" dataKey="p50" stroke="#6366f1" strokeWidth={2} dot={false} />
+                                <Line name="Actual" dataKey="actual" stroke="#f59e0b" strokeWidth={1} dot={false} strokeDasharray="5 5" />
+                            </ComposedChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <p className="text-slate-600 text-[10px] uppercase tracking-widest">
+                        {result.runs} runs over {result.trades} trades · max drawdown 95th percentile {result.maxDrawdownPct.p95.toFixed(2)}%
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MonteCarlo;
@@ -0,0 +1,248 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { RootState } from '../store/store';
+import { clearOptimization } from '../store/optimizationSlice';
+import {
+    OPTIMIZATION_METRICS, buildHeatmap, calculateRobustness, lowerIsBetter, parseFilter,
+    type HeatmapAggregate, type OptimizationMetric, type OptimizationPass, type ParameterValue
+} from '../utils/optimization';
+import { returnColor } from '../utils/format';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+const TABLE_ROWS = 200;
+// Cells in the top tenth of the grid count as peaks; plateaus are judged on the smoothed grid
+const TOP_SHARE = 0.1;
+
+const metricLabel = (key: OptimizationMetric) => OPTIMIZATION_METRICS.find(m => m.key === key)?.label ?? key;
+
+const formatValue = (value: ParameterValue | undefined) =>
+    value === undefined ? '—' : typeof value === 'number' ? (Number.isInteger(value) ? value.toString() : value.toFixed(2)) : value;
+
+// The value a cell must reach to be in the top share, with "top" meaning best for the metric
+const threshold = (values: number[], lower: boolean) => {
+    const sorted = [...values].sort((a, b) => (lower ? a - b : b - a));
+    return sorted[Math.max(0, Math.ceil(sorted.length * TOP_SHARE) - 1)];
+};
+
+const Optimization: React.FC = () => {
+    const dispatch = useDispatch();
+    const { name, result } = useSelector((state: RootState) => state.optimization);
+    const parameters = useMemo(() => result?.parameters ?? [], [result]);
+    const metrics = useMemo(() => result?.metrics ?? [], [result]);
+
+    const [xParam, setXParam] = useState(parameters[0] ?? '');
+    const [yParam, setYParam] = useState(parameters[1] ?? '');
+    const [metric, setMetric] = useState<OptimizationMetric>(metrics.includes('profit') ? 'profit' : metrics[0] ?? 'result');
+    const [aggregate, setAggregate] = useState<HeatmapAggregate>('best');
+    const [filters, setFilters] = useState<Record<string, string>>({});
+    // Sorted best first by default, which is ascending for drawdowns
+    const [sort, setSort] = useState<{ key: string; bestFirst: boolean }>({ key: 'robustness', bestFirst: true });
+
+    // Every column of the table, addressed by one key for sorting and filtering
+    const columns = useMemo(() => [
+        { key: 'pass', label: 'Pass', value: (p: OptimizationPass) => p.pass as ParameterValue | undefined },
+        ...metrics.map(m => ({ key: `metric:${m}`, label: metricLabel(m), value: (p: OptimizationPass) => p.metrics[m] })),
+        ...parameters.map(name => ({ key: `param:${name}`, label: name, value: (p: OptimizationPass) => p.params[name] })),
+    ], [metrics, parameters]);
+
+    const filtered = useMemo(() => {
+        if (!result) return [];
+        const tests = columns.map(c => ({ value: c.value, test: parseFilter(filters[c.key] ?? '') }));
+        return result.passes.filter(p => tests.every(t => t.test(t.value(p))));
+    }, [result, columns, filters]);
+
+    // Robustness looks at the whole run, so a filter does not cut a pass off from its neighbours
+    const robustness = useMemo(
+        () => (result ? calculateRobustness(result.passes, parameters, metric) : new Map()),
+        [result, parameters, metric]
+    );
+
+    // Robustness ranks the heatmap metric, metric columns their own; inputs and pass numbers sort high to low
+    const descendingFor = useCallback(({ key, bestFirst }: { key: string; bestFirst: boolean }) => {
+        const lower = key === 'robustness' ? lowerIsBetter(metric) : key.startsWith('metric:') && lowerIsBetter(key.slice(7) as OptimizationMetric);
+        return bestFirst !== lower;
+    }, [metric]);
+
+    const sorted = useMemo(() => {
+        const value = sort.key === 'robustness'
+            ? (p: OptimizationPass) => robustness.get(p.pass)?.mean
+            : columns.find(c => c.key === sort.key)?.value ?? (() => undefined);
+        const direction = descendingFor(sort) ? -1 : 1;
+        return [...filtered].sort((a, b) => {
+            const [x, y] = [value(a), value(b)];
+            if (x === undefined) return 1;
+            if (y === undefined) return -1;
+            return (typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y))) * direction;
+        });
+    }, [filtered, sort, columns, robustness, descendingFor]);
+
+    const heatmap = useMemo(
+        () => (xParam && yParam && xParam !== yParam ? buildHeatmap(filtered, xParam, yParam, metric, aggregate) : null),
+        [filtered, xParam, yParam, metric, aggregate]
+    );
+
+    const shading = useMemo(() => {
+        if (!heatmap) return null;
+        const lower = lowerIsBetter(metric);
+        const raw = heatmap.cells.flat().filter((v): v is number => v !== null);
+        const smooth = heatmap.smoothed.flat().filter((v): v is number => v !== null);
+        if (raw.length === 0) return null;
+        const min = Math.min(...raw);
+        const max = Math.max(...raw);
+        const medianSmooth = [...smooth].sort((a, b) => a - b)[Math.floor(smooth.length / 2)];
+        const beats = (v: number, limit: number) => (lower ? v <= limit : v >= limit);
+        return {
+            // 0 for the worst cell, 1 for the best
+            score: (v: number) => (max > min ? (lower ? max - v : v - min) / (max - min) : 0.5),
+            isPlateau: (smoothed: number) => beats(smoothed, threshold(smooth, lower)),
+            isIsolatedPeak: (v: number, smoothed: number) => beats(v, threshold(raw, lower)) && !beats(smoothed, medianSmooth),
+        };
+    }, [heatmap, metric]);
+
+    if (!result) {
+        return (
+            <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Optimization</h3>
+                <p className="text-slate-500 text-sm">Import an MT5 optimization export (XML or HTML) to explore its passes.</p>
+            </div>
+        );
+    }
+
+    const toggleSort = (key: string) => setSort(sort.key === key ? { key, bestFirst: !sort.bestFirst } : { key, bestFirst: true });
+    const arrow = (key: string) => (sort.key === key ? (descendingFor(sort) ? ' ↓' : ' ↑') : '');
+    const showValues = heatmap !== null && heatmap.xs.length <= 16;
+    const inputClass = 'bg-[#080a0f] border border-slate-700 text-white rounded-md px-2 h-7 w-full min-w-[60px] font-mono text-[10px] focus:border-indigo-500 focus:outline-none transition-colors';
+
+    const paramSelect = (value: string, onChange: (v: string) => void, label: string) => (
+        <div className="w-[200px]">
+            <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">{label}</p>
+            <Select value={value} onValueChange={onChange}>
+                <SelectTrigger>
+                    <SelectValue placeholder={label} />
+                </SelectTrigger>
+                <SelectContent>
+                    {parameters.map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 flex flex-wrap justify-between items-center gap-4">
+                <div>
+                    <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Optimization</p>
+                    <p className="text-sm font-semibold text-slate-200">{name}</p>
+                    <p className="text-slate-500 text-xs mt-1">{result.passes.length} passes · {parameters.join(', ') || 'no inputs'}</p>
+                </div>
+                <button onClick={() => dispatch(clearOptimization())} className="text-[10px] font-bold uppercase tracking-widest text-rose-500/70 hover:text-rose-400">Clear</button>
+            </div>
+
+            <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 overflow-x-auto">
+                <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Parameter Heatmap</h3>
+                <div className="flex flex-wrap items-end gap-4 mb-6">
+                    {paramSelect(xParam, setXParam, 'X Parameter')}
+                    {paramSelect(yParam, setYParam, 'Y Parameter')}
+                    <div className="w-[200px]">
+                        <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Metric</p>
+                        <Select value={metric} onValueChange={v => setMetric(v as OptimizationMetric)}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Metric" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {metrics.map(m => <SelectItem key={m} value={m}>{metricLabel(m)}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="flex bg-[#080a0f] p-1 rounded-lg border border-slate-800">
+                        {(['best', 'mean'] as const).map(a => (
+                            <button key={a} onClick={() => setAggregate(a)} className={`px-4 py-1 text-[10px] font-bold uppercase rounded ${aggregate === a ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>{a}</button>
+                        ))}
+                    </div>
+                </div>
+
+                {!heatmap || !shading ? (
+                    <p className="text-slate-500 text-sm">Choose two different parameters with results to draw the grid.</p>
+                ) : (
+                    <>
+                        <table className="border-collapse">
+                            <tbody>
+                                {heatmap.ys.map((y, yi) => ({ y, yi })).reverse().map(({ y, yi }) => (
+                                    <tr key={String(y)}>
+                                        <td className="pr-2 text-slate-400 text-[10px] font-mono text-right">{formatValue(y)}</td>
+                                        {heatmap.xs.map((x, xi) => {
+                                            const value = heatmap.cells[yi][xi];
+                                            const smoothed = heatmap.smoothed[yi][xi];
+                                            const plateau = value !== null && smoothed !== null && shading.isPlateau(smoothed);
+                                            const peak = value !== null && smoothed !== null && shading.isIsolatedPeak(value, smoothed);
+                                            return (
+                                                <td
+                                                    key={String(x)}
+                                                    className={`text-center font-mono text-[10px] text-slate-100 border border-[#11141d] ${showValues ? 'px-2 py-2 min-w-[52px]' : 'w-4 h-4'} ${plateau ? 'outline outline-2 -outline-offset-2 outline-indigo-400' : peak ? 'outline outline-2 -outline-offset-2 outline-dashed outline-amber-400' : ''}`}
+                                                    style={{ background: value === null ? '#080a0f' : returnColor(shading.score(value) - 0.5, 0.5) }}
+                                                    title={value === null ? undefined : `${xParam} ${formatValue(x)}, ${yParam} ${formatValue(y)}: ${formatValue(value)} (neighbourhood ${formatValue(smoothed ?? undefined)})`}
+                                                >
+                                                    {showValues && value !== null ? formatValue(value) : ''}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                ))}
+                                <tr>
+                                    <td className="pr-2 text-slate-500 text-[10px] text-right">{yParam} / {xParam}</td>
+                                    {heatmap.xs.map(x => <td key={String(x)} className="pt-1 text-slate-400 text-[10px] font-mono text-center">{formatValue(x)}</td>)}
+                                </tr>
+                            </tbody>
+                        </table>
+                        <div className="flex gap-6 mt-4 text-[10px] text-slate-500">
+                            <span><span className="inline-block w-3 h-3 align-middle mr-1 outline outline-2 -outline-offset-2 outline-indigo-400" />Robust plateau: the cell and its neighbours are in the top {TOP_SHARE * 100}%</span>
+                            <span><span className="inline-block w-3 h-3 align-middle mr-1 outline outline-2 -outline-offset-2 outline-dashed outline-amber-400" />Isolated peak: a top cell whose neighbours fall below the median</span>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 overflow-x-auto">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-indigo-500 font-bold text-[10px] uppercase tracking-[0.2em]">Passes</h3>
+                    <span className="text-slate-500 text-xs">
+                        {filtered.length} of {result.passes.length} passes{filtered.length > TABLE_ROWS ? `, first ${TABLE_ROWS} shown` : ''} · filters accept &gt;1.5, &lt;=20, 10-50 or text
+                    </span>
+                </div>
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-slate-500 text-[10px] uppercase tracking-widest">
+                            {columns.map(c => (
+                                <th key={c.key} onClick={() => toggleSort(c.key)} className="text-right font-bold pb-2 px-1 cursor-pointer hover:text-white whitespace-nowrap">{c.label}{arrow(c.key)}</th>
+                            ))}
+                            <th onClick={() => toggleSort('robustness')} className="text-right font-bold pb-2 px-1 cursor-pointer hover:text-white whitespace-nowrap" title={`${metricLabel(metric)} averaged over the neighbouring passes`}>
+                                Robustness{arrow('robustness')}
+                            </th>
+                        </tr>
+                        <tr>
+                            {columns.map(c => (
+                                <th key={c.key} className="pb-2 px-1">
+                                    <input value={filters[c.key] ?? ''} onChange={e => setFilters({ ...filters, [c.key]: e.target.value })} className={inputClass} />
+                                </th>
+                            ))}
+                            <th />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sorted.slice(0, TABLE_ROWS).map(p => {
+                            const r = robustness.get(p.pass);
+                            return (
+                                <tr key={p.pass} className="border-t border-slate-800/50 font-mono text-xs">
+                                    {columns.map(c => <td key={c.key} className="py-2 px-1 text-right text-slate-200">{formatValue(c.value(p))}</td>)}
+                                    <td className="py-2 px-1 text-right text-indigo-300" title={r ? `${r.neighbours} passes, worst ${formatValue(r.worst)}` : undefined}>{r ? formatValue(r.mean) : '—'}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default Optimization;
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { MONTH_LABELS, type ReturnRow } from '../utils/returns';
+import { formatMoney, returnColor } from '../utils/format';
+
+interface PnlCalendarProps {
+    daily: ReturnRow[];
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const monthIndex = (year: number, month: number) => year * 12 + month;
+
+const PnlCalendar: React.FC<PnlCalendarProps> = ({ daily }) => {
+    const traded = useMemo(() => daily.filter(r => r.trades > 0), [daily]);
+    const first = traded.length > 0 ? monthIndex(traded[0].year, traded[0].month ?? 0) : 0;
+    const last = traded.length > 0 ? monthIndex(traded[traded.length - 1].year, traded[traded.length - 1].month ?? 0) : 0;
+    const [picked, setPicked] = useState<number | null>(null);
+    // Opens on the latest month, and falls back to it when a new report no longer covers the pick
+    const current = picked !== null && picked >= first && picked <= last ? picked : last;
+
+    const year = Math.floor(current / 12);
+    const month = current % 12;
+
+    const { cells, summary, scale } = useMemo(() => {
+        const days = new Map(traded.filter(r => r.year === year && r.month === month).map(r => [r.day, r]));
+        const offset = (new Date(year, month, 1).getDay() + 6) % 7; // Monday first
+        const length = new Date(year, month + 1, 0).getDate();
+
+        const cells: ({ day: number; row?: ReturnRow } | null)[] = [
+            ...Array.from({ length: offset }, () => null),
+            ...Array.from({ length }, (_, i) => ({ day: i + 1, row: days.get(i + 1) })),
+        ];
+        while (cells.length % 7 !== 0) cells.push(null);
+
+        const rows = Array.from(days.values());
+        const summary = {
+            profit: rows.reduce((sum, r) => sum + r.profit, 0),
+            winning: rows.filter(r => r.profit > 0).length,
+            losing: rows.filter(r => r.profit < 0).length,
+        };
+        const scale = Math.max(0, ...rows.map(r => Math.abs(r.profit)));
+        return { cells, summary, scale };
+    }, [traded, year, month]);
+
+    if (traded.length === 0) return null;
+
+    const navClass = 'px-3 py-1 rounded text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-30 disabled:hover:bg-transparent';
+
+    return (
+        <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-indigo-500 font-bold text-[10px] uppercase tracking-[0.2em]">Daily P&amp;L</h3>
+                <div className="flex items-center gap-2">
+                    <button disabled={current <= first} onClick={() => setPicked(current - 1)} className={navClass}>‹</button>
+                    <span className="text-sm font-bold text-white w-24 text-center">{MONTH_LABELS[month]} {year}</span>
+                    <button disabled={current >= last} onClick={() => setPicked(current + 1)} className={navClass}>›</button>
+                </div>
+            </div>
+            <div className="flex gap-6 mb-4 text-xs">
+                <span className="text-slate-500">Month <b className={summary.profit >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{formatMoney(summary.profit)}</b></span>
+                <span className="text-slate-500">Winning days <b className="text-slate-200">{summary.winning}</b></span>
+                <span className="text-slate-500">Losing days <b className="text-slate-200">{summary.losing}</b></span>
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+                {WEEKDAYS.map(d => (
+                    <div key={d} className="text-slate-500 text-[10px] uppercase font-bold text-center pb-1">{d}</div>
+                ))}
+                {cells.map((cell, i) =>
+                    cell === null ? (
+                        <div key={i} />
+                    ) : (
+                        <div
+                            key={i}
+                            className="h-16 rounded-lg p-2 border border-slate-800/50 flex flex-col justify-between"
+                            style={{ background: cell.row ? returnColor(cell.row.profit, scale) : '#080a0f' }}
+                            title={cell.row ? `${cell.row.label}: ${formatMoney(cell.row.profit)} (${cell.row.percent.toFixed(2)}%)` : undefined}
+                        >
+                            <span className="text-[10px] text-slate-400">{cell.day}</span>
+                            {cell.row && (
+                                <div className="text-right">
+                                    <p className="text-[11px] font-mono font-bold text-white">{cell.row.profit.toFixed(0)}</p>
+                                    <p className="text-[9px] text-slate-300">{cell.row.trades} {cell.row.trades === 1 ? 'trade' : 'trades'}</p>
+                                </div>
+                            )}
+                        </div>
+                    )
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PnlCalendar;
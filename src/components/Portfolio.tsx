@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { selectReports } from '../store/reportsSlice';
+import type { RootState } from '../store/store';
+import { calculateStats } from '../utils/statistics';
+import { calculateContributions, calculateCorrelationMatrix, combinePortfolio, type PortfolioMember } from '../utils/portfolio';
+import Dashboard from './Dashboard';
+import Statistics from './Statistics';
+
+// Red for strategies that move together, green for ones that offset each other
+const correlationColor = (value: number) =>
+    value >= 0 ? `rgba(244, 63, 94, ${0.15 + value * 0.6})` : `rgba(16, 185, 129, ${0.15 - value * 0.6})`;
+
+const Portfolio: React.FC = () => {
+    const reports = useSelector(selectReports);
+    const order = useSelector((state: RootState) => state.reports.order);
+    const riskSettings = useSelector((state: RootState) => state.settings.risk);
+    const [weights, setWeights] = useState<Record<string, number>>({});
+    const [excluded, setExcluded] = useState<string[]>([]);
+    const [deposit, setDeposit] = useState<number | null>(null);
+
+    // The shared deposit defaults to the largest of the reports' own deposits
+    const defaultDeposit = useMemo(() => Math.max(0, ...order.map(id => reports[id].initialDeposit)), [reports, order]);
+    const startingDeposit = deposit ?? defaultDeposit;
+
+    // Reports of one account often share a file name, so repeats are numbered in load order
+    const displayNames = useMemo(() => {
+        const seen: Record<string, number> = {};
+        return Object.fromEntries(order.map(id => {
+            const name = reports[id].name;
+            seen[name] = (seen[name] ?? 0) + 1;
+            const total = order.filter(other => reports[other].name === name).length;
+            return [id, total > 1 ? `${name} (${seen[name]})` : name];
+        }));
+    }, [reports, order]);
+
+    const members: PortfolioMember[] = useMemo(() => order
+        .filter(id => !excluded.includes(id))
+        .map(id => ({ id, name: displayNames[id], data: reports[id].data, initialDeposit: reports[id].initialDeposit, weight: weights[id] ?? 1 })),
+        [reports, order, excluded, weights, displayNames]);
+
+    const { combined, metrics, contributions } = useMemo(() => {
+        const combined = combinePortfolio(members, startingDeposit);
+        const metrics = calculateStats(combined, startingDeposit, riskSettings);
+        metrics.period = `Portfolio (${metrics.period})`;
+        return { combined, metrics, contributions: calculateContributions(combined) };
+    }, [members, startingDeposit, riskSettings]);
+
+    const correlation = useMemo(() => calculateCorrelationMatrix(members), [members]);
+
+    const avgPerWeek = useMemo(() => {
+        if (combined.length === 0) return 0;
+        const diffWeeks = Math.max(1, (combined[combined.length - 1].date.getTime() - combined[0].date.getTime()) / (1000 * 60 * 60 * 24 * 7));
+        return (metrics.totalTrades / diffWeeks).toFixed(2);
+    }, [combined, metrics.totalTrades]);
+
+    const toggle = (id: string) => setExcluded(excluded.includes(id) ? excluded.filter(e => e !== id) : [...excluded, id]);
+    const inputClass = 'bg-[#080a0f] border border-slate-700 text-white rounded-md px-3 h-9 w-28 font-mono focus:border-indigo-500 focus:outline-none transition-colors';
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                <div className="flex justify-between items-end mb-4">
+                    <h3 className="text-indigo-500 font-bold text-[10px] uppercase tracking-[0.2em]">Strategies</h3>
+                    <div className="flex items-center gap-3">
+                        <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Starting Deposit</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={startingDeposit}
+                            onChange={e => setDeposit(parseFloat(e.target.value) || 0)}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-slate-500 text-[10px] uppercase tracking-widest">
+                            <th className="text-left font-bold pb-2">Strategy</th>
+                            <th className="text-right font-bold pb-2">Weight</th>
+                            <th className="text-right font-bold pb-2">Trades</th>
+                            <th className="text-right font-bold pb-2">Net Profit</th>
+                            <th className="text-right font-bold pb-2">Share</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {order.map(id => {
+                            const included = !excluded.includes(id);
+                            const contribution = contributions.find(c => c.id === id);
+                            return (
+                                <tr key={id} className="border-t border-slate-800/50">
+                                    <td className="py-2">
+                                        <label className="flex items-center gap-3 cursor-pointer">
+                                            <input type="checkbox" checked={included} onChange={() => toggle(id)} className="accent-indigo-500" />
+                                            <span className={included ? 'text-slate-200' : 'text-slate-600'}>{displayNames[id]}</span>
+                                        </label>
+                                    </td>
+                                    <td className="py-2 text-right">
+                                        <input
+                                            type="number"
+                                            step="0.1"
+                                            min="0"
+                                            disabled={!included}
+                                            value={weights[id] ?? 1}
+                                            onChange={e => setWeights({ ...weights, [id]: parseFloat(e.target.value) || 0 })}
+                                            className={`${inputClass} disabled:opacity-40`}
+                                        />
+                                    </td>
+                                    <td className="py-2 text-right font-mono text-slate-300">{contribution?.trades ?? '—'}</td>
+                                    <td className={`py-2 text-right font-mono ${(contribution?.netProfit ?? 0) >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                                        {contribution ? contribution.netProfit.toFixed(2) : '—'}
+                                    </td>
+                                    <td className="py-2 text-right font-mono text-slate-300">{contribution ? `${contribution.share.toFixed(1)}%` : '—'}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {combined.length > 0 && (
+                <>
+                    <Dashboard data={combined} initialDeposit={startingDeposit} metrics={metrics} />
+
+                    {correlation.names.length > 1 && (
+                        <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 overflow-x-auto">
+                            <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Monthly Return Correlation</h3>
+                            <table className="text-xs">
+                                <thead>
+                                    <tr>
+                                        <th />
+                                        {correlation.names.map((name, i) => (
+                                            <th key={correlation.ids[i]} className="px-3 pb-2 text-slate-500 font-bold max-w-[140px] truncate">{name}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {correlation.values.map((row, i) => (
+                                        <tr key={correlation.ids[i]}>
+                                            <td className="pr-3 py-1 text-slate-400 font-bold max-w-[180px] truncate">{correlation.names[i]}</td>
+                                            {row.map((value, j) => (
+                                                <td
+                                                    key={j}
+                                                    className="px-3 py-2 text-center font-mono text-slate-100 border border-[#11141d]"
+                                                    style={{ background: value === null || i === j ? '#080a0f' : correlationColor(value) }}
+                                                >
+                                                    {value === null ? '—' : value.toFixed(2)}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="text-slate-600 text-[10px] uppercase tracking-widest mt-4">
+                                Over the months both reports cover; "—" when they overlap by fewer than three months.
+                            </p>
+                        </div>
+                    )}
+
+                    <Statistics metrics={metrics} avgPerWeek={avgPerWeek} initialDeposit={startingDeposit} data={combined} />
+                </>
+            )}
+        </div>
+    );
+};
+
+export default Portfolio;
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { MONTH_LABELS, type ReturnRow, type ReturnTables } from '../utils/returns';
+import { returnColor } from '../utils/format';
+
+interface ReturnsHeatmapProps {
+    tables: ReturnTables;
+    viewMode: string; // 'percentage' or 'money'
+}
+
+const rowValue = (row: ReturnRow, viewMode: string) => (viewMode === 'percentage' ? row.percent : row.profit);
+
+const ReturnsHeatmap: React.FC<ReturnsHeatmapProps> = ({ tables, viewMode }) => {
+    const value = (row: ReturnRow) => rowValue(row, viewMode);
+    const format = (v: number) => (viewMode === 'percentage' ? `${v.toFixed(1)}%` : v.toFixed(0));
+
+    const { grid, average, scale } = useMemo(() => {
+        const grid = tables.yearly.map(year => ({
+            year,
+            months: MONTH_LABELS.map((_, month) => tables.monthly.find(r => r.year === year.year && r.month === month)),
+        }));
+        // Seasonality: each calendar month averaged over the years it traded in
+        const average = MONTH_LABELS.map((_, month) => {
+            const rows = tables.monthly.filter(r => r.month === month && r.trades > 0);
+            return rows.length > 0 ? rows.reduce((sum, r) => sum + rowValue(r, viewMode), 0) / rows.length : null;
+        });
+        const scale = Math.max(0, ...tables.monthly.map(r => Math.abs(rowValue(r, viewMode))));
+        return { grid, average, scale };
+    }, [tables, viewMode]);
+
+    const cell = (v: number | null | undefined, cellScale: number, bold = false) => (
+        <td
+            className={`px-2 py-2 text-center font-mono text-[11px] border border-[#11141d] ${bold ? 'font-bold text-white' : 'text-slate-100'}`}
+            style={{ background: v === null || v === undefined ? '#080a0f' : returnColor(v, cellScale) }}
+        >
+            {v === null || v === undefined ? '' : format(v)}
+        </td>
+    );
+
+    return (
+        <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 overflow-x-auto">
+            <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Monthly Returns</h3>
+            <table className="w-full">
+                <thead>
+                    <tr className="text-slate-500 text-[10px] uppercase tracking-widest">
+                        <th className="text-left pb-2 pr-2">Year</th>
+                        {MONTH_LABELS.map(m => <th key={m} className="pb-2">{m}</th>)}
+                        <th className="pb-2">YTD</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {grid.map(({ year, months }) => (
+                        <tr key={year.year}>
+                            <td className="pr-2 text-slate-400 text-xs font-bold">{year.year}</td>
+                            {months.map((row, i) => <React.Fragment key={i}>{cell(row ? value(row) : null, scale)}</React.Fragment>)}
+                            {cell(value(year), scale * 3, true)}
+                        </tr>
+                    ))}
+                    {grid.length > 1 && (
+                        <tr>
+                            <td className="pr-2 pt-2 text-slate-500 text-[10px] font-bold uppercase tracking-widest">Avg</td>
+                            {average.map((v, i) => <React.Fragment key={i}>{cell(v, scale)}</React.Fragment>)}
+                            <td />
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default ReturnsHeatmap;
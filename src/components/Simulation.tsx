@@ -4,22 +4,31 @@ import {
     BarChart, Bar, Cell, ReferenceLine, LabelList
 } from 'recharts';
 import { useDispatch, useSelector } from 'react-redux';
-import { type DataPoint, type ReportMeta } from '../utils/parser';
+import { type DataPoint } from '../utils/parser';
+import { EMPTY_METRICS, type Metrics } from '../utils/metrics';
 import { calculateStats } from '../utils/statistics';
-import { setLotSize } from '../store/simulationSlice';
+import { calculateReturnTables, chartReturns } from '../utils/returns';
+import { setCosts, setLotSize, setSimulationResults, setSizing } from '../store/simulationSlice';
+import { applyCosts, calculateBreakEvenCost, estimatePointValues, hasCostOverrides, type CostUnit, type SlippageMode } from '../utils/costs';
+import { openingAmount, type OpeningBalance } from '../utils/balance';
+import { SIZING_MODELS, calculateSizingAttribution, kellyCriterion, simulateSizing, type SizingModel } from '../utils/sizing';
 import type { RootState } from '../store/store';
 import Statistics from './Statistics';
+import MonteCarlo from './MonteCarlo';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 
 interface SimulationProps {
     data: DataPoint[];
-    initialDeposit: number;
-    reportMeta: ReportMeta;
+    initialDeposit: OpeningBalance;
+    metrics: Metrics;
 }
 
-const Simulation: React.FC<SimulationProps> = ({ data, initialDeposit, reportMeta: originalMeta }) => {
+const Simulation: React.FC<SimulationProps> = ({ data, initialDeposit, metrics: originalMetrics }) => {
     const dispatch = useDispatch();
     const storedLotSize = useSelector((state: RootState) => state.simulation.lotSize);
+    const sizing = useSelector((state: RootState) => state.simulation.sizing);
+    const costs = useSelector((state: RootState) => state.simulation.costs);
+    const riskSettings = useSelector((state: RootState) => state.settings.risk);
 
     // We use a local state for immediate input feedback, but sync with Redux
     // Actually, dispatching on every keystroke is fine for this app size.
@@ -28,20 +37,16 @@ const Simulation: React.FC<SimulationProps> = ({ data, initialDeposit, reportMet
 
     const [perfView, setPerfView] = useState('monthly');
     const [viewMode, setViewMode] = useState('percentage');
+    const [mode, setMode] = useState<'lots' | 'montecarlo'>('lots');
 
     const availableYears = useMemo(() => {
         return Array.from(new Set(data.map(d => d.date.getFullYear()))).sort((a, b) => b - a);
     }, [data]);
-    const [selectedYear, setSelectedYear] = useState<number>(availableYears[0] ?? new Date().getFullYear());
-
-    useEffect(() => {
-        if (availableYears.length > 0 && !availableYears.includes(selectedYear)) {
-            setSelectedYear(availableYears[0]);
-        }
-    }, [availableYears, selectedYear]);
+    const [pickedYear, setSelectedYear] = useState<number>(availableYears[0] ?? new Date().getFullYear());
+    // Fall back to the latest year when the picked one is not part of this report
+    const selectedYear = availableYears.includes(pickedYear) ? pickedYear : (availableYears[0] ?? pickedYear);
 
     const { isFixedLot, originalLotSize } = useMemo(() => {
-        if (data.length === 0) return { isFixedLot: false, originalLotSize: 0 };
         const trades = data.filter(d => d.volume > 0);
         if (trades.length === 0) return { isFixedLot: false, originalLotSize: 0 };
 
@@ -50,131 +55,99 @@ const Simulation: React.FC<SimulationProps> = ({ data, initialDeposit, reportMet
         return { isFixedLot: allSame, originalLotSize: firstVol };
     }, [data]);
 
-    // Initialize lot size from original if not already set in Redux
+    // Variable-lot reports are replayed per lot; the attribution shows what their sizing contributed
+    const attribution = useMemo(() => calculateSizingAttribution(data), [data]);
+
+    // Initialize lot size from the original (or average original) lot if not already set in Redux
     useEffect(() => {
-        if (isFixedLot && originalLotSize > 0 && storedLotSize === 0) {
-            dispatch(setLotSize(originalLotSize));
+        const lot = isFixedLot ? originalLotSize : Math.max(0.01, Math.round(attribution.averageLot * 100) / 100);
+        if (attribution.averageLot > 0 && storedLotSize === 0) {
+            dispatch(setLotSize(lot));
         }
-    }, [isFixedLot, originalLotSize, storedLotSize, dispatch]);
+    }, [isFixedLot, originalLotSize, attribution.averageLot, storedLotSize, dispatch]);
 
     const currentLotSize = storedLotSize || 0.1; // Fallback to avoid issues
 
-    const { simulatedData, simulatedMeta, chartStats, comparison } = useMemo(() => {
-        if (data.length === 0 || !isFixedLot) {
+    // Trades re-priced under the broker cost model (the report's own costs when nothing is overridden)
+    const costedData = useMemo(() => applyCosts(data, costs), [data, costs]);
+    const pointValues = useMemo(() => estimatePointValues(data), [data]);
+
+    const { simulatedData, simulatedStatsInput, simulatedMetrics, comparison } = useMemo(() => {
+        if (data.length === 0) {
             return {
                 simulatedData: [],
-                simulatedMeta: { totalTrades: 0, totalNetProfit: "0.00" } as ReportMeta,
-                chartStats: { monthly: [], yearly: [] },
+                simulatedStatsInput: [],
+                simulatedMetrics: EMPTY_METRICS,
                 comparison: { original: 0, simulated: 0, diff: 0, diffPercent: 0 }
             };
         }
 
-        let currentBalance = initialDeposit;
-
-        const simData = data.map(deal => {
-            let simulatedProfit = deal.profit;
-
-            if (deal.volume > 0) {
-                const originalRawProfit = deal.rawProfit || 0;
-                const originalCommission = deal.commission || 0;
-                const originalSwap = deal.swap || 0;
-
-                const ratio = currentLotSize / deal.volume;
-                const simRawProfit = originalRawProfit * ratio;
-                const simCommission = originalCommission * ratio;
-                const simSwap = originalSwap;
-
-                simulatedProfit = simRawProfit + simSwap + simCommission;
-            }
-
-            currentBalance += simulatedProfit;
-
-            return {
-                ...deal,
-                simulatedBalance: currentBalance,
-                simulatedProfit
-            };
-        });
+        const simData = simulateSizing(costedData, initialDeposit, { ...sizing, lotSize: currentLotSize });
 
         // Prepare data for stats calculation (mapping simulated fields to standard fields)
         const statsInput = simData.map(d => ({ ...d, profit: d.simulatedProfit, balance: d.simulatedBalance }));
-        const simMeta = calculateStats(statsInput, initialDeposit);
-
-        // Ensure period is set correctly for Statistics component to calculate monthly gain
-        if (data.length > 0) {
-            const start = data[0].date;
-            const end = data[data.length - 1].date;
-            const formatDate = (d: Date) => d.toISOString().slice(0, 10).replace(/-/g, '.');
-            simMeta.period = `Simulated (${formatDate(start)} - ${formatDate(end)})`;
-        }
-
-        // Chart Stats (Monthly/Yearly)
-        const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-        const mSub: Record<string, { label: string; profit: number; startBal: number }> = {};
-        const ySub: Record<string, { label: string; profit: number; startBal: number }> = {};
-        let runningBal = initialDeposit || (statsInput.length > 0 ? statsInput[0].balance : 0);
-
-        months.forEach(m => {
-            mSub[m] = { label: m, profit: 0, startBal: -1 };
-        });
-
-        statsInput.forEach(deal => {
-            const year = deal.date.getFullYear();
-            const month = deal.date.toLocaleString('default', { month: 'short' });
+        const simMetrics = calculateStats(statsInput, initialDeposit, riskSettings);
 
-            if (!ySub[year]) ySub[year] = { label: year.toString(), profit: 0, startBal: runningBal };
-
-            if (year === selectedYear) {
-                if (mSub[month] && mSub[month].startBal === -1) {
-                    mSub[month].startBal = runningBal;
-                }
-            }
-
-            // Only count TRADES for performance stats (exclude deposits/withdrawals)
-            if (deal.volume > 0) {
-                if (year === selectedYear) {
-                    mSub[month].profit += deal.profit;
-                }
-                ySub[year].profit += deal.profit;
-            }
-
-            // Balance tracks everything including deposits
-            runningBal += deal.profit;
-        });
-
-        months.forEach(m => {
-            if (mSub[m] && mSub[m].startBal === -1) mSub[m].startBal = 1;
-        });
-
-        const format = (obj: any) => Object.values(obj).map((v: any) => ({
-            ...v,
-            val: parseFloat((viewMode === 'percentage' ? (v.profit / (v.startBal || 1)) * 100 : v.profit).toFixed(2))
-        }));
-
-        const cStats = { monthly: format(mSub), yearly: format(ySub) };
+        simMetrics.period = `Simulated (${simMetrics.period})`;
 
         // Comparison
-        const origProfit = parseFloat((originalMeta.totalNetProfit || '0').replace(/\s/g, '').replace(/,/g, ''));
-        const simProfit = parseFloat(simMeta.totalNetProfit || '0');
+        const origProfit = originalMetrics.netProfit;
+        const simProfit = simMetrics.netProfit;
         const diff = simProfit - origProfit;
         const diffPercent = origProfit !== 0 ? (diff / Math.abs(origProfit)) * 100 : 0;
 
         return {
             simulatedData: simData,
-            simulatedMeta: simMeta,
-            chartStats: cStats,
+            simulatedStatsInput: statsInput,
+            simulatedMetrics: simMetrics,
             comparison: { original: origProfit, simulated: simProfit, diff, diffPercent }
         };
 
-    }, [data, initialDeposit, currentLotSize, isFixedLot, viewMode, originalMeta, selectedYear]);
+    }, [data, costedData, initialDeposit, currentLotSize, originalMetrics, sizing, riskSettings]);
+
+    // Published to the store for the export actions
+    useEffect(() => {
+        dispatch(setSimulationResults({ data: simulatedData, metrics: simulatedMetrics, initialDeposit: openingAmount(initialDeposit) }));
+    }, [simulatedData, simulatedMetrics, initialDeposit, dispatch]);
+
+    const returnTables = useMemo(() => calculateReturnTables(simulatedStatsInput, initialDeposit), [simulatedStatsInput, initialDeposit]);
+    const chartStats = useMemo(() => chartReturns(returnTables, selectedYear, viewMode), [returnTables, selectedYear, viewMode]);
+
+    // The same sizing with the report's own costs, to show how far the cost model degrades the run
+    const costImpact = useMemo(() => {
+        const breakEven = calculateBreakEvenCost(simulatedData, pointValues);
+        if (data.length === 0 || !hasCostOverrides(costs)) return { baseline: null, breakEven };
+
+        const base = simulateSizing(data, initialDeposit, { ...sizing, lotSize: currentLotSize });
+        const baseline = calculateStats(base.map(d => ({ ...d, profit: d.simulatedProfit, balance: d.simulatedBalance })), initialDeposit, riskSettings);
+        return { baseline, breakEven };
+    }, [data, simulatedData, pointValues, costs, initialDeposit, sizing, currentLotSize, riskSettings]);
+
+    const costRows = costImpact.baseline ? [
+        { label: 'Net Profit', before: costImpact.baseline.netProfit, after: simulatedMetrics.netProfit, format: (v: number) => `$${v.toFixed(2)}`, higherIsBetter: true },
+        { label: 'Profit Factor', before: costImpact.baseline.profitFactor, after: simulatedMetrics.profitFactor, format: (v: number) => v.toFixed(2), higherIsBetter: true },
+        { label: 'Max Drawdown', before: costImpact.baseline.balanceDDMax, after: simulatedMetrics.balanceDDMax, format: (v: number) => `$${v.toFixed(2)}`, higherIsBetter: false },
+        { label: 'Max Drawdown %', before: costImpact.baseline.balanceDDMaxPct, after: simulatedMetrics.balanceDDMaxPct, format: (v: number) => `${v.toFixed(2)}%`, higherIsBetter: false },
+    ] : [];
 
     const avgPerWeek = useMemo(() => {
         if (data.length === 0) return 0;
         const firstDate = new Date(data[0].date);
         const lastDate = new Date(data[data.length - 1].date);
         const diffWeeks = Math.max(1, (lastDate.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24 * 7));
-        return (simulatedMeta.totalTrades / diffWeeks).toFixed(2);
-    }, [data, simulatedMeta.totalTrades]);
+        return (simulatedMetrics.totalTrades / diffWeeks).toFixed(2);
+    }, [data, simulatedMetrics.totalTrades]);
+
+    // Monte Carlo resamples the trades as sized by the current model
+    const monteCarloProfits = useMemo(() => {
+        return simulatedStatsInput.filter(d => d.volume > 0).map(d => d.profit);
+    }, [simulatedStatsInput]);
+
+    const fullKelly = useMemo(() => kellyCriterion(data), [data]);
+    const inputClass = 'bg-[#080a0f] border border-slate-700 text-white rounded-xl px-4 py-3 w-40 font-mono focus:border-indigo-500 focus:outline-none transition-colors';
+
+    // Empty commission / swap fields fall back to the report's figures
+    const optionalNumber = (value: string) => (value === '' ? null : parseFloat(value) || 0);
 
     const handleLotSizeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const val = parseFloat(e.target.value);
@@ -183,33 +156,225 @@ const Simulation: React.FC<SimulationProps> = ({ data, initialDeposit, reportMet
         }
     };
 
-    if (!isFixedLot && data.length > 0) {
+    const modeToggle = (
+        <div className="flex bg-[#080a0f] p-1 rounded-lg border border-slate-800 w-fit">
+            <button onClick={() => setMode('lots')} className={`px-4 py-1 text-[10px] font-bold uppercase tracking-widest rounded ${mode === 'lots' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>Lot Size</button>
+            <button onClick={() => setMode('montecarlo')} className={`px-4 py-1 text-[10px] font-bold uppercase tracking-widest rounded ${mode === 'montecarlo' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>Monte Carlo</button>
+        </div>
+    );
+
+    if (mode === 'montecarlo') {
         return (
-            <div className="h-[60vh] flex flex-col items-center justify-center text-slate-700 border-2 border-dashed border-slate-900 rounded-[40px] bg-[#11141d]/20 text-center p-8">
-                <p className="text-xl font-bold uppercase tracking-widest text-indigo-400 mb-2">Simulation Unavailable</p>
-                <p className="text-slate-500">Simulation is only available for strategies with a fixed lot size across all trades.</p>
+            <div className="space-y-6">
+                {modeToggle}
+                <MonteCarlo profits={monteCarloProfits} initialDeposit={openingAmount(initialDeposit)} />
             </div>
         );
     }
 
     return (
         <div className="space-y-6">
+            {modeToggle}
             <div className="bg-[#11141d] p-8 rounded-3xl border border-slate-800 shadow-sm">
                 <div className="flex flex-wrap gap-8 items-end mb-8">
                     <div className="flex flex-col gap-2">
-                        <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Fixed Lot Size</label>
-                        <div className="flex flex-col">
+                        <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Sizing Model</label>
+                        <div className="w-[240px]">
+                            <Select value={sizing.model} onValueChange={v => dispatch(setSizing({ model: v as SizingModel }))}>
+                                <SelectTrigger className="text-sm font-semibold h-[50px] rounded-xl">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {SIZING_MODELS.map(m => <SelectItem key={m.model} value={m.model}>{m.label}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    {(sizing.model === 'fixed-fractional' || sizing.model === 'fixed-risk') && (
+                        <div className="flex flex-col gap-2">
+                            <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Risk per Trade %</label>
                             <input
                                 type="number"
-                                step="0.01"
-                                min="0.01"
-                                value={currentLotSize}
-                                onChange={handleLotSizeChange}
-                                className="bg-[#080a0f] border border-slate-700 text-white rounded-xl px-4 py-3 w-40 font-mono focus:border-indigo-500 focus:outline-none transition-colors"
+                                step="0.1"
+                                min="0.1"
+                                value={sizing.riskPercent}
+                                onChange={e => dispatch(setSizing({ riskPercent: parseFloat(e.target.value) || 0 }))}
+                                className={inputClass}
                             />
-                            {originalLotSize > 0 && <span className="text-[10px] text-slate-500 uppercase tracking-wider mt-1 ml-1">Original: {originalLotSize}</span>}
+                        </div>
+                    )}
+                    {sizing.model === 'kelly' && (
+                        <div className="flex flex-col gap-2">
+                            <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Kelly Fraction</label>
+                            <div className="flex flex-col">
+                                <input
+                                    type="number"
+                                    step="0.05"
+                                    min="0.05"
+                                    max="1"
+                                    value={sizing.kellyFraction}
+                                    onChange={e => dispatch(setSizing({ kellyFraction: parseFloat(e.target.value) || 0 }))}
+                                    className={inputClass}
+                                />
+                                <span className="text-[10px] text-slate-500 uppercase tracking-wider mt-1 ml-1">Full Kelly: {(fullKelly * 100).toFixed(2)}%</span>
+                            </div>
+                        </div>
+                    )}
+                    {(sizing.model === 'martingale' || sizing.model === 'anti-martingale') && (
+                        <>
+                            <div className="flex flex-col gap-2">
+                                <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Multiplier</label>
+                                <input
+                                    type="number"
+                                    step="0.1"
+                                    min="1"
+                                    value={sizing.multiplier}
+                                    onChange={e => dispatch(setSizing({ multiplier: parseFloat(e.target.value) || 1 }))}
+                                    className={inputClass}
+                                />
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Max Steps</label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={sizing.maxSteps}
+                                    onChange={e => dispatch(setSizing({ maxSteps: parseInt(e.target.value) || 1 }))}
+                                    className={inputClass}
+                                />
+                            </div>
+                        </>
+                    )}
+                    {(sizing.model === 'fixed-lot' || sizing.model === 'martingale' || sizing.model === 'anti-martingale') && (
+                        <div className="flex flex-col gap-2">
+                            <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">{sizing.model === 'fixed-lot' ? 'Fixed Lot Size' : 'Base Lot Size'}</label>
+                            <div className="flex flex-col">
+                                <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0.01"
+                                    value={currentLotSize}
+                                    onChange={handleLotSizeChange}
+                                    className={inputClass}
+                                />
+                                {originalLotSize > 0 && (
+                                    <span className="text-[10px] text-slate-500 uppercase tracking-wider mt-1 ml-1">
+                                        {isFixedLot ? `Original: ${originalLotSize}` : `Original avg: ${attribution.averageLot.toFixed(2)}`}
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Cost Model */}
+                <div className="mb-8 bg-[#080a0f] p-6 rounded-2xl border border-slate-800/50">
+                    <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Cost Model</h3>
+                    <div className="flex flex-wrap gap-6 items-end mb-6">
+                        <div className="flex flex-col gap-2">
+                            <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Commission / Lot</label>
+                            <input
+                                type="number"
+                                step="0.1"
+                                placeholder="Report"
+                                value={costs.commissionPerLot ?? ''}
+                                onChange={e => dispatch(setCosts({ commissionPerLot: optionalNumber(e.target.value) }))}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Swap / Lot / Night</label>
+                            <input
+                                type="number"
+                                step="0.1"
+                                placeholder="Report"
+                                value={costs.swapPerLotPerNight ?? ''}
+                                onChange={e => dispatch(setCosts({ swapPerLotPerNight: optionalNumber(e.target.value) }))}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Extra Spread (pts)</label>
+                            <input
+                                type="number"
+                                step="1"
+                                min="0"
+                                value={costs.spreadPoints}
+                                onChange={e => dispatch(setCosts({ spreadPoints: parseFloat(e.target.value) || 0 }))}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            <label className="text-slate-500 text-xs font-bold uppercase tracking-widest">Slippage / Trade</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="number"
+                                    step="0.1"
+                                    min="0"
+                                    value={costs.slippage}
+                                    onChange={e => dispatch(setCosts({ slippage: parseFloat(e.target.value) || 0 }))}
+                                    className={inputClass}
+                                />
+                                <div className="w-[130px]">
+                                    <Select value={costs.slippageUnit} onValueChange={v => dispatch(setCosts({ slippageUnit: v as CostUnit }))}>
+                                        <SelectTrigger className="text-sm font-semibold h-[50px] rounded-xl">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="money">$ / Lot</SelectItem>
+                                            <SelectItem value="points">Points</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="w-[130px]">
+                                    <Select value={costs.slippageMode} onValueChange={v => dispatch(setCosts({ slippageMode: v as SlippageMode }))}>
+                                        <SelectTrigger className="text-sm font-semibold h-[50px] rounded-xl">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="fixed">Fixed</SelectItem>
+                                            <SelectItem value="random">Random</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
                         </div>
                     </div>
+
+                    {costRows.length > 0 && (
+                        <table className="w-full text-sm mb-6">
+                            <thead>
+                                <tr className="text-slate-500 text-[10px] uppercase tracking-widest">
+                                    <th className="text-left font-bold pb-2">Metric</th>
+                                    <th className="text-right font-bold pb-2">Report Costs</th>
+                                    <th className="text-right font-bold pb-2">Cost Model</th>
+                                    <th className="text-right font-bold pb-2">Change</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {costRows.map(row => {
+                                    const delta = row.after - row.before;
+                                    const better = row.higherIsBetter ? delta >= 0 : delta <= 0;
+                                    return (
+                                        <tr key={row.label} className="border-t border-slate-800/50">
+                                            <td className="py-2 text-slate-400">{row.label}</td>
+                                            <td className="py-2 text-right font-mono text-slate-300">{row.format(row.before)}</td>
+                                            <td className="py-2 text-right font-mono text-slate-200">{row.format(row.after)}</td>
+                                            <td className={`py-2 text-right font-mono font-bold ${better ? 'text-emerald-400' : 'text-rose-400'}`}>
+                                                {delta >= 0 ? '+' : ''}{row.format(delta)}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+
+                    <p className="text-slate-400 text-xs">
+                        <span className="text-slate-500 font-bold uppercase tracking-widest text-[10px] mr-2">Break-even Cost</span>
+                        ${costImpact.breakEven.perLot.toFixed(2)} per lot · ${costImpact.breakEven.perTrade.toFixed(2)} per trade
+                        {costImpact.breakEven.points !== null && ` · ${costImpact.breakEven.points.toFixed(1)} points`}
+                    </p>
                 </div>
 
                 {/* Comparison Section */}
@@ -231,6 +396,33 @@ const Simulation: React.FC<SimulationProps> = ({ data, initialDeposit, reportMet
                     </div>
                 </div>
 
+                {!isFixedLot && attribution.averageLot > 0 && (
+                    <div className="mb-8 bg-[#080a0f] p-6 rounded-2xl border border-slate-800/50">
+                        <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Sizing vs Edge</h3>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                            <div>
+                                <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Expectancy per Lot</p>
+                                <p className={`text-xl font-bold ${attribution.perLotExpectancy >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>${attribution.perLotExpectancy.toFixed(2)}</p>
+                            </div>
+                            <div>
+                                <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Raw Edge ({attribution.averageLot.toFixed(2)} lots flat)</p>
+                                <p className={`text-xl font-bold ${attribution.flatProfit >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>${attribution.flatProfit.toFixed(2)}</p>
+                            </div>
+                            <div>
+                                <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Sizing Logic</p>
+                                <p className={`text-xl font-bold ${attribution.sizingEffect >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{attribution.sizingEffect >= 0 ? '+' : ''}{attribution.sizingEffect.toFixed(2)}</p>
+                            </div>
+                            <div>
+                                <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">As Traded</p>
+                                <p className={`text-xl font-bold ${attribution.originalProfit >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>${attribution.originalProfit.toFixed(2)}</p>
+                            </div>
+                        </div>
+                        <p className="text-slate-600 text-[10px] uppercase tracking-widest mt-4">
+                            Raw edge replays every trade at the average lot; the rest of the trading result comes from how the volume was varied.
+                        </p>
+                    </div>
+                )}
+
                 <div className="h-[400px] w-full mb-8">
                     <ResponsiveContainer width="100%" height="100%">
                         <LineChart data={simulatedData}>
@@ -240,7 +432,7 @@ const Simulation: React.FC<SimulationProps> = ({ data, initialDeposit, reportMet
                             <Tooltip
                                 contentStyle={{ background: '#11141d', border: '1px solid #334155', borderRadius: '12px' }}
                                 labelStyle={{ color: '#94a3b8', marginBottom: '8px' }}
-                                formatter={(value: number, name: string) => [`$${value.toFixed(2)}`, name === 'balance' ? 'Original Balance' : 'Simulated Balance']}
+                                formatter={(value, name) => [`$${Number(value).toFixed(2)}`, name === 'balance' ? 'Original Balance' : 'Simulated Balance']}
                             />
                             <Line
                                 name="Original Balance"
@@ -315,7 +507,7 @@ const Simulation: React.FC<SimulationProps> = ({ data, initialDeposit, reportMet
                     </div>
                 </div>
 
-                <Statistics reportMeta={simulatedMeta} avgPerWeek={avgPerWeek} initialDeposit={initialDeposit} />
+                <Statistics metrics={simulatedMetrics} avgPerWeek={avgPerWeek} initialDeposit={initialDeposit} data={simulatedStatsInput} />
             </div>
         </div>
     );
@@ -1,98 +1,250 @@
 import React, { useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
 import StatRow from './StatRow';
-import { type ReportMeta } from '../utils/parser';
+import WalkForward from './WalkForward';
+import { type DataPoint } from '../utils/parser';
+import { type Metrics } from '../utils/metrics';
+import { formatMetrics, formatMoney, formatPercent } from '../utils/format';
+import { type SymbolBreakdown } from '../utils/symbols';
+import { calculateRiskMetrics, type ReturnsPeriod } from '../utils/riskMetrics';
+import { openingAmount, type OpeningBalance } from '../utils/balance';
+import { calculateDirectionBreakdown } from '../utils/directions';
+import { calculateStreaks } from '../utils/streaks';
+import { setReturnsPeriod, setRiskFreeRate } from '../store/settingsSlice';
+import type { RootState } from '../store/store';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 
 interface StatisticsProps {
-    reportMeta: ReportMeta;
+    metrics: Metrics;
     avgPerWeek: string | number;
-    initialDeposit?: number;
+    initialDeposit?: OpeningBalance;
+    symbolBreakdown?: SymbolBreakdown[];
+    data?: DataPoint[];
 }
 
-const Statistics: React.FC<StatisticsProps> = ({ reportMeta, avgPerWeek, initialDeposit }) => {
-    const avgMonthlyGain = useMemo(() => {
-        if (!reportMeta.period || !reportMeta.totalNetProfit) return '0.00';
+const Statistics: React.FC<StatisticsProps> = ({ metrics, avgPerWeek, initialDeposit, symbolBreakdown = [], data = [] }) => {
+    const dispatch = useDispatch();
+    const riskSettings = useSelector((state: RootState) => state.settings.risk);
 
-        // Parse date range: "M5 (2025.01.01 - 2026.01.01)"
-        const dates = reportMeta.period.match(/(\d{4})\.(\d{2})\.(\d{2})/g);
-        if (dates && dates.length >= 2) {
-            const d1 = new Date(dates[0].replace(/\./g, '-'));
-            const d2 = new Date(dates[1].replace(/\./g, '-'));
+    const risk = useMemo(
+        () => (data.length > 0 ? calculateRiskMetrics(data, initialDeposit ?? 0, riskSettings) : null),
+        [data, initialDeposit, riskSettings]
+    );
+    const directions = useMemo(() => calculateDirectionBreakdown(data), [data]);
+    const streaks = useMemo(() => calculateStreaks(data), [data]);
 
-            // Calculate months difference accurately
-            let months = (d2.getFullYear() - d1.getFullYear()) * 12 + (d2.getMonth() - d1.getMonth());
-            months += (d2.getDate() - d1.getDate()) / 30; // approximate partial month
-            months = Math.max(months, 1); // Avoid division by zero, at least 1 month
+    const display = useMemo(() => formatMetrics(metrics), [metrics]);
 
-            const netProfit = parseFloat(reportMeta.totalNetProfit.replace(/\s/g, ''));
-            const dollar = netProfit / months;
+    const avgMonthlyGain = useMemo(() => {
+        const { start, end, netProfit } = metrics;
+        if (!start || !end) return '0.00';
 
-            let result = `$${dollar.toFixed(2)}`;
+        // Calculate months difference accurately
+        let months = (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth());
+        months += (end.getDate() - start.getDate()) / 30; // approximate partial month
+        months = Math.max(months, 1); // Avoid division by zero, at least 1 month
 
-            if (initialDeposit && initialDeposit > 0) {
-                const percent = (dollar / initialDeposit) * 100;
-                result += ` (${percent.toFixed(2)}%)`;
-            }
+        const dollar = netProfit / months;
+        let result = `$${formatMoney(dollar)}`;
 
-            return result;
+        const deposit = openingAmount(initialDeposit ?? 0);
+        if (deposit > 0) {
+            result += ` (${formatPercent((dollar / deposit) * 100)})`;
         }
-        return '0.00';
-    }, [reportMeta.period, reportMeta.totalNetProfit, initialDeposit]);
+
+        return result;
+    }, [metrics, initialDeposit]);
 
     return (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {/* Group 1: CORE PERFORMANCE */}
             <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
                 <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Core Performance</h3>
-                <StatRow label="Total Net Profit" value={reportMeta.totalNetProfit} highlight />
-                <StatRow label="Gross Profit" value={reportMeta.grossProfit} />
-                <StatRow label="Gross Loss" value={reportMeta.grossLoss} />
-                <StatRow label="Profit Factor" value={reportMeta.profitFactor} highlight />
-                <StatRow label="Sharpe Ratio" value={reportMeta.sharpeRatio} />
+                <StatRow label="Total Net Profit" value={display.totalNetProfit} highlight />
+                <StatRow label="Gross Profit" value={display.grossProfit} />
+                <StatRow label="Gross Loss" value={display.grossLoss} />
+                <StatRow label="Profit Factor" value={display.profitFactor} highlight />
+                {/* The Risk-Adjusted panel computes its own Sharpe with the chosen period; a second one here would disagree */}
+                {!risk && <StatRow label="Sharpe Ratio" value={display.sharpeRatio} />}
             </div>
 
             {/* Group 2: TRADE ANALYSIS */}
             <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
                 <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Trade Distribution</h3>
-                <StatRow label="Total Trades" value={reportMeta.totalTrades} />
-                <StatRow label="Short (won %)" value={reportMeta.shortTrades} />
-                <StatRow label="Long (won %)" value={reportMeta.longTrades} />
-                <StatRow label="Profit Trades" value={reportMeta.profitTrades} />
-                <StatRow label="Loss Trades" value={reportMeta.lossTrades} />
+                <StatRow label="Total Trades" value={display.totalTrades} />
+                <StatRow label="Short (won %)" value={display.shortTrades} />
+                <StatRow label="Long (won %)" value={display.longTrades} />
+                <StatRow label="Profit Trades" value={display.profitTrades} />
+                <StatRow label="Loss Trades" value={display.lossTrades} />
                 <StatRow label="Weekly Average" value={avgPerWeek} highlight />
             </div>
 
             {/* Group 3: RISK METRICS */}
             <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
                 <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Drawdown & Risk</h3>
-                <StatRow label="Balance Maximal" value={reportMeta.balanceDDMax} />
-                <StatRow label="Equity Maximal" value={reportMeta.equityDDMax} highlight />
-                <StatRow label="Balance Relative" value={reportMeta.balanceDDRel} />
-                <StatRow label="Equity Relative" value={reportMeta.equityDDRel} />
+                <StatRow label="Balance Maximal" value={display.balanceDDMax} />
+                <StatRow label="Equity Maximal" value={display.equityDDMax} highlight />
+                <StatRow label="Balance Relative" value={display.balanceDDRel} />
+                <StatRow label="Equity Relative" value={display.equityDDRel} />
             </div>
 
             {/* Group 4: TRADE SIZES */}
             <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
                 <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Trade Magnitudes</h3>
-                <StatRow label="Largest Profit" value={reportMeta.largestProfit} />
-                <StatRow label="Largest Loss" value={reportMeta.largestLoss} />
-                <StatRow label="Avg Profit Trade" value={reportMeta.avgProfit} />
-                <StatRow label="Avg Loss Trade" value={reportMeta.avgLoss} />
-                {reportMeta.fixedLotSize && <StatRow label="Fixed Lot Size" value={reportMeta.fixedLotSize} highlight />}
+                <StatRow label="Largest Profit" value={display.largestProfit} />
+                <StatRow label="Largest Loss" value={display.largestLoss} />
+                <StatRow label="Avg Profit Trade" value={display.avgProfit} />
+                <StatRow label="Avg Loss Trade" value={display.avgLoss} />
+                <StatRow label="Avg MAE" value={display.avgMAE} />
+                <StatRow label="Avg MFE" value={display.avgMFE} />
+                {display.fixedLotSize && <StatRow label="Fixed Lot Size" value={display.fixedLotSize} highlight />}
             </div>
 
             {/* Group 5: STREAKS & CONSISTENCY */}
             <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 col-span-1 lg:col-span-2">
                 <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Streaks & Consistency</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8">
-                    <StatRow label="Max Consecutive Wins ($)" value={reportMeta.maxConsecWins$} />
-                    <StatRow label="Max Consecutive Losses ($)" value={reportMeta.maxConsecLosses$} />
-                    <StatRow label="Max Profit Count" value={reportMeta.maxConsecProfitCount} />
-                    <StatRow label="Max Loss Count" value={reportMeta.maxConsecLossCount} />
-                    <StatRow label="Avg Consecutive Wins" value={reportMeta.avgConsecWins} />
-                    <StatRow label="Avg Consecutive Losses" value={reportMeta.avgConsecLosses} />
+                    <StatRow label="Max Consecutive Wins ($)" value={display.maxConsecWins} />
+                    <StatRow label="Max Consecutive Losses ($)" value={display.maxConsecLosses} />
+                    <StatRow label="Max Profit Count" value={display.maxConsecProfit} />
+                    <StatRow label="Max Loss Count" value={display.maxConsecLoss} />
+                    <StatRow label="Avg Consecutive Wins" value={display.avgConsecWins} />
+                    <StatRow label="Avg Consecutive Losses" value={display.avgConsecLosses} />
+                    <StatRow label="Median Consecutive Wins" value={display.medianConsecWins} />
+                    <StatRow label="Median Consecutive Losses" value={display.medianConsecLosses} />
                     <StatRow label="Avg Monthly Gain" value={avgMonthlyGain} highlight />
                 </div>
             </div>
+
+            {/* Group 6: DIRECTION & STREAK DISTRIBUTION */}
+            {data.length > 0 && (
+                <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800">
+                    <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Long / Short</h3>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-slate-500 text-xs font-medium uppercase tracking-wider text-left">
+                                <th className="py-2">Side</th>
+                                <th className="py-2 text-right">Trades</th>
+                                <th className="py-2 text-right">Win %</th>
+                                <th className="py-2 text-right">PF</th>
+                                <th className="py-2 text-right">Net</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {directions.map(row => (
+                                <tr key={row.direction} className="border-t border-slate-800/40 text-slate-200 font-semibold">
+                                    <td className="py-2 text-indigo-400 capitalize">{row.direction}</td>
+                                    <td className="py-2 text-right">{row.trades}</td>
+                                    <td className="py-2 text-right">{row.winRate.toFixed(2)}%</td>
+                                    <td className="py-2 text-right">{row.profitFactor.toFixed(2)}</td>
+                                    <td className={`py-2 text-right ${row.netProfit >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{row.netProfit.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {streaks.histogram.length > 0 && (
+                <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 col-span-1 md:col-span-2">
+                    <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Streak Distribution</h3>
+                    <div className="h-[200px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={streaks.histogram}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1c212c" />
+                                <XAxis dataKey="length" stroke="#475569" fontSize={10} axisLine={false} tickLine={false} />
+                                <YAxis stroke="#475569" fontSize={10} axisLine={false} tickLine={false} allowDecimals={false} />
+                                <Tooltip
+                                    cursor={{ fill: '#ffffff05' }}
+                                    contentStyle={{ background: '#11141d', border: '1px solid #334155' }}
+                                    labelFormatter={label => `${label} in a row`}
+                                />
+                                <Bar dataKey="wins" name="Win runs" fill="#10b981" radius={[4, 4, 0, 0]} />
+                                <Bar dataKey="losses" name="Loss runs" fill="#f43f5e" radius={[4, 4, 0, 0]} />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+            )}
+
+            {/* Group 7: RISK-ADJUSTED RETURNS */}
+            {risk && (
+                <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 col-span-1 md:col-span-2 lg:col-span-3">
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                        <h3 className="text-indigo-500 font-bold text-[10px] uppercase tracking-[0.2em]">Risk-Adjusted Returns</h3>
+                        <div className="flex items-center gap-4">
+                            <label className="flex items-center gap-2 text-slate-500 text-xs font-bold uppercase tracking-widest">
+                                Risk-Free %
+                                <input
+                                    type="number"
+                                    step="0.1"
+                                    value={riskSettings.riskFreeRate}
+                                    onChange={e => dispatch(setRiskFreeRate(parseFloat(e.target.value) || 0))}
+                                    className="w-20 bg-[#080a0f] border border-slate-700 text-white rounded-md px-2 h-9 font-mono focus:border-indigo-500 focus:outline-none transition-colors"
+                                />
+                            </label>
+                            <div className="w-[140px]">
+                                <Select value={riskSettings.period} onValueChange={v => dispatch(setReturnsPeriod(v as ReturnsPeriod))}>
+                                    <SelectTrigger className="text-xs font-semibold h-9">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="daily">Daily returns</SelectItem>
+                                        <SelectItem value="weekly">Weekly returns</SelectItem>
+                                        <SelectItem value="monthly">Monthly returns</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-8">
+                        <StatRow label="Sharpe Ratio" value={risk.sharpe.toFixed(2)} highlight />
+                        <StatRow label="Sortino Ratio" value={risk.sortino.toFixed(2)} />
+                        <StatRow label="Calmar Ratio" value={risk.calmar.toFixed(2)} />
+                        <StatRow label="Recovery Factor" value={risk.recoveryFactor.toFixed(2)} highlight />
+                        <StatRow label="Expected Payoff" value={risk.expectedPayoff.toFixed(2)} />
+                        <StatRow label="Ulcer Index" value={risk.ulcerIndex.toFixed(2)} />
+                        <StatRow label="SQN" value={risk.sqn.toFixed(2)} />
+                        <StatRow label="K-Ratio" value={risk.kRatio.toFixed(3)} />
+                        <StatRow label="Return (CAGR)" value={`${risk.cagr.toFixed(2)}%`} />
+                        <StatRow label="Annual Volatility" value={`${risk.annualVolatility.toFixed(2)}%`} />
+                    </div>
+                </div>
+            )}
+
+            {/* Group 8: IN-SAMPLE / OUT-OF-SAMPLE */}
+            {data.length > 0 && <WalkForward data={data} initialDeposit={initialDeposit ?? 0} />}
+
+            {/* Group 9: SYMBOL BREAKDOWN */}
+            {symbolBreakdown.length > 1 && (
+                <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 col-span-1 md:col-span-2 lg:col-span-3">
+                    <h3 className="text-indigo-500 font-bold mb-4 text-[10px] uppercase tracking-[0.2em]">Symbol Breakdown</h3>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-slate-500 text-xs font-medium uppercase tracking-wider text-left">
+                                <th className="py-2">Symbol</th>
+                                <th className="py-2 text-right">Trades</th>
+                                <th className="py-2 text-right">Win %</th>
+                                <th className="py-2 text-right">Lots</th>
+                                <th className="py-2 text-right">Profit Factor</th>
+                                <th className="py-2 text-right">Net Profit</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {symbolBreakdown.map(row => (
+                                <tr key={row.symbol} className="border-t border-slate-800/40 text-slate-200 font-semibold">
+                                    <td className="py-2 text-indigo-400">{row.symbol}</td>
+                                    <td className="py-2 text-right">{row.trades}</td>
+                                    <td className="py-2 text-right">{row.winRate.toFixed(2)}%</td>
+                                    <td className="py-2 text-right">{row.volume.toFixed(2)}</td>
+                                    <td className="py-2 text-right">{row.profitFactor.toFixed(2)}</td>
+                                    <td className={`py-2 text-right ${row.netProfit >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{row.netProfit.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,174 @@
+import React, { useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { type DataPoint } from '../utils/parser';
+import { METRIC_FIELDS, type Metrics, type NumericMetric } from '../utils/metrics';
+import { formatMetricValue, formatPercent } from '../utils/format';
+import { formatTime } from '../utils/tables';
+import { EFFICIENCY_THRESHOLD, evaluateValidation, validationBounds, type Segment } from '../utils/walkForward';
+import { type OpeningBalance } from '../utils/balance';
+import { updateValidation } from '../store/settingsSlice';
+import type { RootState } from '../store/store';
+
+interface WalkForwardProps {
+    data: DataPoint[];
+    initialDeposit: OpeningBalance;
+}
+
+const COMPARED: NumericMetric[] = [
+    'netProfit', 'profitFactor', 'expectedPayoff', 'sharpeRatio', 'recoveryFactor', 'balanceDDMaxPct', 'equityDDMaxPct', 'totalTrades',
+];
+
+const day = (date: Date) => formatTime(date).slice(0, 10);
+const winRate = (m: Metrics) => (m.totalTrades > 0 ? (m.profitTrades / m.totalTrades) * 100 : 0);
+const efficiencyClass = (value: number | null) => (value !== null && value >= EFFICIENCY_THRESHOLD ? 'text-emerald-400' : 'text-rose-400');
+const formatEfficiency = (value: number | null) => (value === null ? '—' : formatPercent(value));
+
+const WalkForward: React.FC<WalkForwardProps> = ({ data, initialDeposit }) => {
+    const dispatch = useDispatch();
+    const settings = useSelector((state: RootState) => state.settings.validation);
+    const risk = useSelector((state: RootState) => state.settings.risk);
+    const result = useMemo(() => evaluateValidation(data, initialDeposit, settings, risk), [data, initialDeposit, settings, risk]);
+    // The split actually used, which falls back to the default share when the saved date is outside this report
+    const splitDay = useMemo(() => {
+        const [first] = validationBounds(data, settings);
+        return first ? day(new Date(first.outOfSampleStart)).replace(/\./g, '-') : '';
+    }, [data, settings]);
+
+    if (!result) return null;
+
+    const rows: { label: string; value: (s: Segment) => string; delta?: (a: Segment, b: Segment) => number; better?: 'higher' | 'lower' }[] = [
+        { label: 'Annual Return', value: s => formatPercent(s.annualReturn), delta: (a, b) => b.annualReturn - a.annualReturn, better: 'higher' },
+        ...METRIC_FIELDS.filter(f => COMPARED.includes(f.key)).map(({ key, label, kind, better }) => ({
+            label,
+            value: (s: Segment) => formatMetricValue(s.metrics[key], kind),
+            delta: better ? (a: Segment, b: Segment) => (b.metrics[key] ?? 0) - (a.metrics[key] ?? 0) : undefined,
+            better,
+        })),
+        { label: 'Win Rate', value: s => formatPercent(winRate(s.metrics)), delta: (a, b) => winRate(b.metrics) - winRate(a.metrics), better: 'higher' },
+    ];
+    const inputClass = 'bg-[#080a0f] border border-slate-700 text-white rounded-md px-3 h-9 w-24 font-mono focus:border-indigo-500 focus:outline-none transition-colors';
+
+    return (
+        <div className="bg-[#11141d] p-6 rounded-2xl border border-slate-800 col-span-1 md:col-span-2 lg:col-span-3">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <h3 className="text-indigo-500 font-bold text-[10px] uppercase tracking-[0.2em]">In-Sample / Out-of-Sample</h3>
+                <div className="flex flex-wrap items-center gap-4">
+                    <div className="flex bg-[#080a0f] p-1 rounded-lg border border-slate-800">
+                        <button onClick={() => dispatch(updateValidation({ mode: 'split' }))} className={`px-4 py-1 text-[10px] font-bold rounded ${settings.mode === 'split' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>SPLIT</button>
+                        <button onClick={() => dispatch(updateValidation({ mode: 'walkForward' }))} className={`px-4 py-1 text-[10px] font-bold rounded ${settings.mode === 'walkForward' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>WALK-FORWARD</button>
+                    </div>
+                    {settings.mode === 'split' ? (
+                        <label className="flex items-center gap-2 text-slate-500 text-xs font-bold uppercase tracking-widest">
+                            OOS From
+                            <input
+                                type="date"
+                                value={splitDay}
+                                onChange={e => dispatch(updateValidation({ splitDate: e.target.value ? new Date(`${e.target.value}T00:00`).getTime() : null }))}
+                                className={`${inputClass} w-40`}
+                            />
+                        </label>
+                    ) : (
+                        <>
+                            <label className="flex items-center gap-2 text-slate-500 text-xs font-bold uppercase tracking-widest">
+                                Windows
+                                <input type="number" min="1" max="20" value={settings.windows} onChange={e => dispatch(updateValidation({ windows: Math.min(20, Math.max(1, parseInt(e.target.value) || 1)) }))} className={inputClass} />
+                            </label>
+                            <label className="flex items-center gap-2 text-slate-500 text-xs font-bold uppercase tracking-widest">
+                                OOS %
+                                <input type="number" min="5" max="90" step="5" value={settings.outOfSamplePct} onChange={e => dispatch(updateValidation({ outOfSamplePct: parseFloat(e.target.value) || 25 }))} className={inputClass} />
+                            </label>
+                            <div className="flex bg-[#080a0f] p-1 rounded-lg border border-slate-800">
+                                <button onClick={() => dispatch(updateValidation({ anchored: false }))} className={`px-4 py-1 text-[10px] font-bold rounded ${!settings.anchored ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>ROLLING</button>
+                                <button onClick={() => dispatch(updateValidation({ anchored: true }))} className={`px-4 py-1 text-[10px] font-bold rounded ${settings.anchored ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>ANCHORED</button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="bg-[#080a0f] p-6 rounded-2xl border border-slate-800/50">
+                    <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">In-Sample</p>
+                    <p className="text-sm font-medium text-slate-300">{day(result.inSample.start)} - {day(result.inSample.end)}</p>
+                </div>
+                <div className="bg-[#080a0f] p-6 rounded-2xl border border-slate-800/50">
+                    <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Out-of-Sample</p>
+                    <p className="text-sm font-medium text-slate-300">{day(result.outOfSample.start)} - {day(result.outOfSample.end)}</p>
+                </div>
+                <div className="bg-[#080a0f] p-6 rounded-2xl border border-slate-800/50">
+                    <p className="text-slate-500 text-[10px] uppercase font-bold mb-1">Walk-Forward Efficiency</p>
+                    <p className={`text-xl font-bold ${efficiencyClass(result.efficiency)}`}>{formatEfficiency(result.efficiency)}</p>
+                    <p className="text-slate-500 text-[10px] mt-1">
+                        {result.efficiency === null
+                            ? 'The in-sample period made no money, so there is nothing to hold up.'
+                            : result.efficiency >= EFFICIENCY_THRESHOLD
+                                ? `Out-of-sample kept at least ${EFFICIENCY_THRESHOLD}% of the in-sample annual return.`
+                                : `Below ${EFFICIENCY_THRESHOLD}%: the in-sample result does not carry forward, a sign of overfitting.`}
+                    </p>
+                </div>
+            </div>
+
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-slate-500 text-xs font-medium uppercase tracking-wider text-left">
+                        <th className="py-2">Metric</th>
+                        <th className="py-2 text-right">In-Sample</th>
+                        <th className="py-2 text-right">Out-of-Sample</th>
+                        <th className="py-2 text-right">Change</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(row => {
+                        const delta = row.delta?.(result.inSample, result.outOfSample);
+                        const improved = delta !== undefined && (row.better === 'lower' ? delta <= 0 : delta >= 0);
+                        return (
+                            <tr key={row.label} className="border-t border-slate-800/40 text-slate-200 font-semibold">
+                                <td className="py-2 text-slate-500 text-xs uppercase tracking-wider">{row.label}</td>
+                                <td className="py-2 text-right">{row.value(result.inSample)}</td>
+                                <td className="py-2 text-right">{row.value(result.outOfSample)}</td>
+                                <td className={`py-2 text-right ${delta === undefined ? 'text-slate-500' : improved ? 'text-emerald-400' : 'text-rose-400'}`}>
+                                    {delta === undefined ? '—' : `${delta > 0 ? '+' : ''}${delta.toFixed(2)}`}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+
+            {settings.mode === 'walkForward' && (
+                <table className="w-full text-sm mt-8">
+                    <thead>
+                        <tr className="text-slate-500 text-xs font-medium uppercase tracking-wider text-left">
+                            <th className="py-2">Window</th>
+                            <th className="py-2">In-Sample</th>
+                            <th className="py-2">Out-of-Sample</th>
+                            <th className="py-2 text-right">IS Return / yr</th>
+                            <th className="py-2 text-right">OOS Return / yr</th>
+                            <th className="py-2 text-right">OOS Trades</th>
+                            <th className="py-2 text-right">OOS PF</th>
+                            <th className="py-2 text-right">OOS Net</th>
+                            <th className="py-2 text-right">WFE</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.windows.map((w, i) => (
+                            <tr key={i} className="border-t border-slate-800/40 text-slate-200 font-semibold">
+                                <td className="py-2 text-indigo-400">{i + 1}</td>
+                                <td className="py-2 text-slate-400 text-xs">{day(w.inSample.start)} - {day(w.inSample.end)}</td>
+                                <td className="py-2 text-slate-400 text-xs">{day(w.outOfSample.start)} - {day(w.outOfSample.end)}</td>
+                                <td className="py-2 text-right">{formatPercent(w.inSample.annualReturn)}</td>
+                                <td className="py-2 text-right">{formatPercent(w.outOfSample.annualReturn)}</td>
+                                <td className="py-2 text-right">{w.outOfSample.metrics.totalTrades}</td>
+                                <td className="py-2 text-right">{w.outOfSample.metrics.profitFactor.toFixed(2)}</td>
+                                <td className={`py-2 text-right ${w.outOfSample.metrics.netProfit >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{w.outOfSample.metrics.netProfit.toFixed(2)}</td>
+                                <td className={`py-2 text-right ${efficiencyClass(w.efficiency)}`}>{formatEfficiency(w.efficiency)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default WalkForward;
@@ -4,6 +4,12 @@ import { Provider } from 'react-redux'
 import './index.css'
 import App from './App.tsx'
 import { store } from './store/store.ts'
+import { persistSession, restoreSession } from './store/persistence.ts'
+
+// Start saving only once the last session is back, so it is not overwritten by the empty state
+restoreSession(store.dispatch)
+  .catch(() => undefined)
+  .finally(() => persistSession(store))
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,30 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import { type OptimizationResult } from '../utils/optimization';
+
+interface OptimizationState {
+  name: string | null; // the file the passes came from
+  result: OptimizationResult | null;
+}
+
+const initialState: OptimizationState = {
+  name: null,
+  result: null
+};
+
+const optimizationSlice = createSlice({
+  name: 'optimization',
+  initialState,
+  reducers: {
+    setOptimization: (state, action: PayloadAction<{ name: string; result: OptimizationResult }>) => {
+      state.name = action.payload.name;
+      state.result = action.payload.result;
+    },
+    clearOptimization: (state) => {
+      state.name = null;
+      state.result = null;
+    }
+  }
+});
+
+export const { setOptimization, clearOptimization } = optimizationSlice.actions;
+export default optimizationSlice.reducer;
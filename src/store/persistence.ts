@@ -0,0 +1,71 @@
+import { loadFromLibrary, loadSession, saveSession } from '../utils/library';
+import { type CostSettings } from '../utils/costs';
+import { type RiskSettings } from '../utils/riskMetrics';
+import { type ValidationSettings } from '../utils/walkForward';
+import { type SizingSettings } from '../utils/sizing';
+import { addReport, setActiveReport } from './reportsSlice';
+import { restoreSimulation } from './simulationSlice';
+import { restoreRiskSettings, restoreValidationSettings } from './settingsSlice';
+import { setActiveTab } from './uiSlice';
+import type { AppDispatch, RootState } from './store';
+
+// The workspace as it is restored on reload; reports themselves live in the library
+interface Session {
+  openReports: string[];
+  activeId: string | null;
+  activeTab: string;
+  simulation: { lotSize: number; sizing: Omit<SizingSettings, 'lotSize'>; costs: CostSettings };
+  risk: RiskSettings;
+  validation?: ValidationSettings; // missing in sessions saved before the IS / OOS split
+}
+
+const SAVE_DELAY = 500;
+
+const toSession = (state: RootState): Session => ({
+  openReports: state.reports.order,
+  activeId: state.reports.activeId,
+  activeTab: state.ui.activeTab,
+  simulation: { lotSize: state.simulation.lotSize, sizing: state.simulation.sizing, costs: state.simulation.costs },
+  risk: state.settings.risk,
+  validation: state.settings.validation,
+});
+
+/**
+ * Reopens the reports of the last session from the library, then its tab and settings.
+ * Reports deleted from the library since are skipped.
+ */
+export const restoreSession = async (dispatch: AppDispatch) => {
+  const session = await loadSession<Session>();
+  if (!session) return;
+
+  for (const id of session.openReports) {
+    const stored = await loadFromLibrary(id);
+    if (stored) dispatch(addReport(stored.entry.name, stored.result, id));
+  }
+  if (session.activeId) dispatch(setActiveReport(session.activeId));
+  dispatch(setActiveTab(session.activeTab));
+  // After the reports, which reset the lot size when they are added
+  dispatch(restoreSimulation(session.simulation));
+  dispatch(restoreRiskSettings(session.risk));
+  if (session.validation) dispatch(restoreValidationSettings(session.validation));
+};
+
+/**
+ * Saves the session shortly after the state settles. Returns the unsubscribe function.
+ */
+export const persistSession = (store: { getState: () => RootState; subscribe: (listener: () => void) => () => void }) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let saved = '';
+
+  return store.subscribe(() => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const session = toSession(store.getState());
+      const json = JSON.stringify(session);
+      if (json === saved) return;
+      saved = json;
+      // Without IndexedDB (e.g. private browsing) the app still works, it just starts empty next time
+      saveSession(session).catch(() => undefined);
+    }, SAVE_DELAY);
+  });
+};
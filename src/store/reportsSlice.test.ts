@@ -0,0 +1,43 @@
+import { configureStore, isPlain } from '@reduxjs/toolkit';
+import { describe, expect, it } from 'vitest';
+import reportsReducer, { addReport, renameReport, selectReports } from './reportsSlice';
+import { EMPTY_METRICS } from '../utils/metrics';
+import { type ParsedResult } from '../utils/parser';
+import { report } from '../utils/testFixtures';
+
+const parsed = (): ParsedResult => {
+  const data = report();
+  return {
+    format: 'mt5', kind: 'backtest', data, deals: data, orders: [], positions: [], symbols: ['EURUSD'], initialDeposit: 1000,
+    metrics: { ...EMPTY_METRICS, start: new Date(2024, 0, 1) }, diagnostics: [],
+  };
+};
+
+// Every value in the tree is one the serializable check accepts
+const plainThroughout = (value: unknown): boolean =>
+  isPlain(value) && (typeof value !== 'object' || value === null || Object.values(value).every(plainThroughout));
+
+describe('reports', () => {
+  const store = () => configureStore({ reducer: { reports: reportsReducer } });
+
+  it('keeps the state serializable and gives the reports back with their dates', () => {
+    const { dispatch, getState } = store();
+    dispatch(addReport('ReportTester.html', parsed(), 'a'));
+
+    expect(plainThroughout(getState())).toBe(true);
+    expect(selectReports(getState()).a).toEqual({ ...parsed(), id: 'a', name: 'ReportTester.html' });
+  });
+
+  it('revives a report again only once it changes', () => {
+    const { dispatch, getState } = store();
+    dispatch(addReport('First.html', parsed(), 'a'));
+    dispatch(addReport('Second.html', parsed(), 'b'));
+    const before = selectReports(getState());
+    dispatch(renameReport({ id: 'b', name: 'Renamed.html' }));
+    const after = selectReports(getState());
+
+    expect(after.a).toBe(before.a);
+    expect(after.b).not.toBe(before.b);
+    expect(after.b.data[1].date).toBeInstanceOf(Date);
+  });
+});
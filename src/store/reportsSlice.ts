@@ -0,0 +1,74 @@
+import { createSelector, createSlice, nanoid, type PayloadAction } from '@reduxjs/toolkit';
+import { type ParsedResult } from '../utils/parser';
+import { reviveDates, serializeDates, type Serialized } from '../utils/serialize';
+
+export interface LoadedReport extends ParsedResult {
+  id: string;
+  name: string; // the file it was imported from
+}
+
+// A report as the state holds it, with its dates as epoch ms; selectReports gives it back with Dates
+type StoredReport = Serialized<LoadedReport>;
+
+interface ReportsState {
+  reports: Record<string, StoredReport>;
+  order: string[]; // report IDs in the order they were loaded
+  activeId: string | null; // the report the Dashboard, Statistics and Simulation tabs show
+}
+
+const initialState: ReportsState = {
+  reports: {},
+  order: [],
+  activeId: null
+};
+
+const reportsSlice = createSlice({
+  name: 'reports',
+  initialState,
+  reducers: {
+    addReport: {
+      reducer: (state, action: PayloadAction<StoredReport>) => {
+        if (!state.reports[action.payload.id]) state.order.push(action.payload.id);
+        state.reports[action.payload.id] = action.payload;
+        state.activeId = action.payload.id;
+      },
+      // Reports reopened from the library keep their library ID
+      prepare: (name: string, result: ParsedResult, id: string = nanoid()) => ({ payload: serializeDates<LoadedReport>({ ...result, id, name }) })
+    },
+    removeReport: (state, action: PayloadAction<string>) => {
+      delete state.reports[action.payload];
+      state.order = state.order.filter(id => id !== action.payload);
+      if (state.activeId === action.payload) {
+        state.activeId = state.order[state.order.length - 1] ?? null;
+      }
+    },
+    renameReport: (state, action: PayloadAction<{ id: string; name: string }>) => {
+      const report = state.reports[action.payload.id];
+      if (report) report.name = action.payload.name;
+    },
+    setActiveReport: (state, action: PayloadAction<string>) => {
+      if (state.reports[action.payload]) state.activeId = action.payload;
+    },
+    clearReports: () => initialState
+  }
+});
+
+// Each report is revived once and reused until it changes, so unchanged reports keep their identity across renders
+const revived = new WeakMap<StoredReport, LoadedReport>();
+
+const revive = (stored: StoredReport) => {
+  let report = revived.get(stored);
+  if (!report) {
+    report = reviveDates<LoadedReport>(stored);
+    revived.set(stored, report);
+  }
+  return report;
+};
+
+export const selectReports = createSelector(
+  (state: { reports: ReportsState }) => state.reports.reports,
+  (reports): Record<string, LoadedReport> => Object.fromEntries(Object.entries(reports).map(([id, stored]) => [id, revive(stored)]))
+);
+
+export const { addReport, removeReport, renameReport, setActiveReport, clearReports } = reportsSlice.actions;
+export default reportsSlice.reducer;
@@ -0,0 +1,38 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import { DEFAULT_RISK_SETTINGS, type ReturnsPeriod, type RiskSettings } from '../utils/riskMetrics';
+import { DEFAULT_VALIDATION_SETTINGS, type ValidationSettings } from '../utils/walkForward';
+
+interface SettingsState {
+  risk: RiskSettings;
+  validation: ValidationSettings;
+}
+
+const initialState: SettingsState = {
+  risk: DEFAULT_RISK_SETTINGS,
+  validation: DEFAULT_VALIDATION_SETTINGS
+};
+
+const settingsSlice = createSlice({
+  name: 'settings',
+  initialState,
+  reducers: {
+    setRiskFreeRate: (state, action: PayloadAction<number>) => {
+      state.risk.riskFreeRate = action.payload;
+    },
+    setReturnsPeriod: (state, action: PayloadAction<ReturnsPeriod>) => {
+      state.risk.period = action.payload;
+    },
+    restoreRiskSettings: (state, action: PayloadAction<RiskSettings>) => {
+      state.risk = { ...DEFAULT_RISK_SETTINGS, ...action.payload };
+    },
+    updateValidation: (state, action: PayloadAction<Partial<ValidationSettings>>) => {
+      state.validation = { ...state.validation, ...action.payload };
+    },
+    restoreValidationSettings: (state, action: PayloadAction<ValidationSettings>) => {
+      state.validation = { ...DEFAULT_VALIDATION_SETTINGS, ...action.payload };
+    }
+  }
+});
+
+export const { setRiskFreeRate, setReturnsPeriod, restoreRiskSettings, updateValidation, restoreValidationSettings } = settingsSlice.actions;
+export default settingsSlice.reducer;
@@ -0,0 +1,50 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { describe, expect, it } from 'vitest';
+import simulationReducer, {
+  clearSimulationResults, selectSimulationData, setCosts, setLotSize, setSimulationResults, setSizing,
+} from './simulationSlice';
+import uiReducer, { setActiveTab, setDateRange } from './uiSlice';
+import { EMPTY_METRICS } from '../utils/metrics';
+import { DEFAULT_SIZING, simulateSizing } from '../utils/sizing';
+import { history } from '../utils/testFixtures';
+
+const trades = history([[1, 1000, 0], [2, 100], [3, -50]]);
+
+// A store holding the results of a run at 0.1 lots
+const simulated = () => {
+  const store = configureStore({ reducer: { simulation: simulationReducer, ui: uiReducer } });
+  store.dispatch(setLotSize(0.1));
+  const data = simulateSizing(trades, 1000, { ...DEFAULT_SIZING, lotSize: 0.1 });
+  store.dispatch(setSimulationResults({ data, metrics: EMPTY_METRICS, initialDeposit: 1000 }));
+  return store;
+};
+
+describe('simulation results', () => {
+  it('gives the simulated trades back with their dates', () => {
+    const [, first] = selectSimulationData(simulated().getState());
+
+    expect(first.date).toEqual(trades[1].date);
+    expect(first.simulatedBalance).toBe(1010);
+  });
+
+  it('drops the results once the sizing, costs, date range or symbol change', () => {
+    const changes = [
+      setLotSize(0.2), setSizing({ model: 'martingale' }), setCosts({ spreadPoints: 5 }),
+      setDateRange({ start: 0, end: 1 }), clearSimulationResults(),
+    ];
+
+    changes.forEach(change => {
+      const store = simulated();
+      store.dispatch(change);
+      expect(selectSimulationData(store.getState())).toEqual([]);
+    });
+  });
+
+  it('keeps the results across changes that do not alter the run', () => {
+    const store = simulated();
+    store.dispatch(setLotSize(0.1));
+    store.dispatch(setActiveTab('statistics'));
+
+    expect(selectSimulationData(store.getState())).toHaveLength(3);
+  });
+});
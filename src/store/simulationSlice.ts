@@ -1,47 +1,100 @@
-import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
-import { type DataPoint, type ReportMeta } from '../utils/parser';
+import { createSelector, createSlice, isAnyOf, type PayloadAction } from '@reduxjs/toolkit';
+import { EMPTY_METRICS, type Metrics } from '../utils/metrics';
+import { DEFAULT_COSTS, type CostSettings } from '../utils/costs';
+import { addReport, removeReport, setActiveReport } from './reportsSlice';
+import { clearDateRange, setDateRange } from './uiSlice';
+import { DEFAULT_SIZING, type SimulatedDataPoint, type SizingSettings } from '../utils/sizing';
+import { reviveDates, serializeDates, type Serialized } from '../utils/serialize';
 
-interface SimulatedDataPoint extends DataPoint {
-  simulatedBalance: number;
-  simulatedProfit: number;
-}
+type SizingParams = Omit<SizingSettings, 'lotSize'>;
 
+// The last run, with its dates as epoch ms like the reports; selectSimulationData gives the trades back with Dates
 interface SimulationState {
-  data: SimulatedDataPoint[];
-  meta: ReportMeta;
+  data: Serialized<SimulatedDataPoint>[];
+  metrics: Serialized<Metrics>;
   lotSize: number;
+  sizing: SizingParams;
+  costs: CostSettings;
   initialDeposit: number;
 }
 
+const NO_METRICS = serializeDates(EMPTY_METRICS);
+
 const initialState: SimulationState = {
   data: [],
-  meta: { totalTrades: 0 },
+  metrics: NO_METRICS,
   lotSize: 0,
+  sizing: DEFAULT_SIZING,
+  costs: DEFAULT_COSTS,
   initialDeposit: 0
 };
 
+// The results only hold for the settings and view they were run with, so any change to those drops them
+// until the Simulation tab runs again, rather than leave a stale run for the export
+const clearResults = (state: SimulationState) => {
+  state.data = [];
+  state.metrics = NO_METRICS;
+};
+
 const simulationSlice = createSlice({
   name: 'simulation',
   initialState,
   reducers: {
-    setSimulationResults: (state, action: PayloadAction<{ data: SimulatedDataPoint[], meta: ReportMeta, lotSize: number, initialDeposit: number }>) => {
-      state.data = action.payload.data;
-      state.meta = action.payload.meta;
-      state.lotSize = action.payload.lotSize;
-      state.initialDeposit = action.payload.initialDeposit;
+    setSimulationResults: {
+      reducer: (state, action: PayloadAction<Pick<SimulationState, 'data' | 'metrics' | 'initialDeposit'>>) => {
+        state.data = action.payload.data;
+        state.metrics = action.payload.metrics;
+        state.initialDeposit = action.payload.initialDeposit;
+      },
+      prepare: (results: { data: SimulatedDataPoint[], metrics: Metrics, initialDeposit: number }) => ({
+        payload: { ...results, data: serializeDates(results.data), metrics: serializeDates(results.metrics) }
+      })
     },
+    // The symbol filter lives in the App, which says when it changes
+    clearSimulationResults: clearResults,
     setLotSize: (state, action: PayloadAction<number>) => {
+      // The same lot again (e.g. "0.10" after "0.1") does not rerun the simulation, so keep its results
+      if (state.lotSize === action.payload) return;
       state.lotSize = action.payload;
+      clearResults(state);
+    },
+    setSizing: (state, action: PayloadAction<Partial<SizingParams>>) => {
+      state.sizing = { ...state.sizing, ...action.payload };
+      clearResults(state);
+    },
+    setCosts: (state, action: PayloadAction<Partial<CostSettings>>) => {
+      state.costs = { ...state.costs, ...action.payload };
+      clearResults(state);
+    },
+    restoreSimulation: (state, action: PayloadAction<{ lotSize: number; sizing: SizingParams; costs: CostSettings }>) => {
+      state.lotSize = action.payload.lotSize;
+      state.sizing = { ...DEFAULT_SIZING, ...action.payload.sizing };
+      state.costs = { ...DEFAULT_COSTS, ...action.payload.costs };
+      clearResults(state);
     },
     clearSimulation: (state) => {
-      state.data = [];
-      state.meta = { totalTrades: 0 };
+      clearResults(state);
       state.lotSize = 0;
+      state.sizing = DEFAULT_SIZING;
+      state.costs = DEFAULT_COSTS;
       state.initialDeposit = 0;
     }
+  },
+  extraReducers: (builder) => {
+    // Another report on screen: start again from its own lot size
+    builder.addMatcher(isAnyOf(addReport, removeReport, setActiveReport), (state) => {
+      state.lotSize = 0;
+      clearResults(state);
+    });
+    builder.addMatcher(isAnyOf(setDateRange, clearDateRange), clearResults);
   }
 });
 
-export const { setSimulationResults, setLotSize, clearSimulation } = simulationSlice.actions;
+export const selectSimulationData = createSelector(
+  (state: { simulation: SimulationState }) => state.simulation.data,
+  data => reviveDates<SimulatedDataPoint[]>(data)
+);
+
+export const { setSimulationResults, clearSimulationResults, setLotSize, setSizing, setCosts, restoreSimulation, clearSimulation } = simulationSlice.actions;
 export default simulationSlice.reducer;
 export type { SimulatedDataPoint };
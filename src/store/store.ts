@@ -1,14 +1,18 @@
 import { configureStore } from '@reduxjs/toolkit';
 import simulationReducer from './simulationSlice';
+import settingsReducer from './settingsSlice';
+import reportsReducer from './reportsSlice';
+import uiReducer from './uiSlice';
+import optimizationReducer from './optimizationSlice';
 
 export const store = configureStore({
   reducer: {
     simulation: simulationReducer,
-  },
-  middleware: (getDefaultMiddleware) =>
-    getDefaultMiddleware({
-      serializableCheck: false, // Dates in DataPoint might cause issues, disable check or serialize dates
-    }),
+    settings: settingsReducer,
+    reports: reportsReducer,
+    ui: uiReducer,
+    optimization: optimizationReducer,
+  }
 });
 
 export type RootState = ReturnType<typeof store.getState>;
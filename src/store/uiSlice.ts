@@ -0,0 +1,38 @@
+import { createSlice, isAnyOf, type PayloadAction } from '@reduxjs/toolkit';
+import { type DateRange } from '../utils/dateRange';
+import { addReport, removeReport, setActiveReport } from './reportsSlice';
+
+interface UiState {
+  activeTab: string;
+  dateRange: DateRange | null; // the period every per-report view is narrowed to; null for the whole report
+}
+
+const initialState: UiState = {
+  activeTab: 'dashboard',
+  dateRange: null
+};
+
+const uiSlice = createSlice({
+  name: 'ui',
+  initialState,
+  reducers: {
+    setActiveTab: (state, action: PayloadAction<string>) => {
+      state.activeTab = action.payload;
+    },
+    setDateRange: (state, action: PayloadAction<DateRange>) => {
+      state.dateRange = action.payload;
+    },
+    clearDateRange: (state) => {
+      state.dateRange = null;
+    }
+  },
+  extraReducers: (builder) => {
+    // A range picked on one report rarely fits another
+    builder.addMatcher(isAnyOf(addReport, removeReport, setActiveReport), (state) => {
+      state.dateRange = null;
+    });
+  }
+});
+
+export const { setActiveTab, setDateRange, clearDateRange } = uiSlice.actions;
+export default uiSlice.reducer;
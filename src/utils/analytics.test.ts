@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRMultiples, histogram, holdingTimes, statsByHour, statsByMonth, statsByWeekday } from './analytics';
+import { day, row } from './testFixtures';
+
+describe('histogram', () => {
+  it('spreads the values over at least five equal-width bins', () => {
+    const bins = histogram([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+    expect(bins.map(b => b.count)).toEqual([2, 2, 2, 2, 2]);
+    expect(bins.map(b => b.label)).toEqual(['0', '2', '4', '5', '7']);
+  });
+
+  it('puts identical values in a single bin', () => {
+    expect(histogram([3, 3, 3])).toEqual([{ from: 3, to: 4, label: '3', count: 3 }]);
+    expect(histogram([])).toEqual([]);
+  });
+
+  it('bins series too long to spread into a function call', () => {
+    const bins = histogram(Array.from({ length: 500_000 }, (_, i) => i % 100));
+
+    expect(bins).toHaveLength(30);
+    expect(bins[0].from).toBe(0);
+    expect(bins.at(-1)?.to).toBeCloseTo(99);
+  });
+});
+
+describe('calculateRMultiples', () => {
+  it('measures trades against their stop, or against the average loss', () => {
+    const r = calculateRMultiples([
+      row(1, 1000, 1000, 0),
+      // Risked 0.0050 of a 0.0100 move that made 100
+      row(2, 100, 1100, 1, { entryPrice: 1.1, price: 1.11, stopLoss: 1.095, rawProfit: 100 }),
+      row(3, -75, 1025),
+      row(4, 150, 1175),
+    ]);
+
+    expect(r.values.map(v => Number(v.toFixed(6)))).toEqual([2, -1, 2]);
+    expect(r.average).toBeCloseTo(1);
+    expect(r.fromStops).toBe(1);
+  });
+});
+
+describe('time-based breakdowns', () => {
+  // 1 January 2024 is a Monday
+  const data = [
+    row(1, 1000, 1000, 0),
+    row(1, 100, 1100, 1, { entryDate: day(1, 9) }),
+    row(2, -40, 1060),
+    row(8, 0, 1060),
+  ];
+
+  it('buckets trades by the weekday they were opened, counting break-even as a win', () => {
+    const [monday, tuesday, wednesday] = statsByWeekday(data);
+
+    expect(monday).toEqual({ label: 'Mon', trades: 2, winRate: 100, netProfit: 100, expectancy: 50 });
+    expect(tuesday).toEqual({ label: 'Tue', trades: 1, winRate: 0, netProfit: -40, expectancy: -40 });
+    expect(wednesday.trades).toBe(0);
+  });
+
+  it('buckets trades by the hour and the month they were opened', () => {
+    const hours = statsByHour(data);
+
+    expect(hours).toHaveLength(24);
+    expect([hours[9].trades, hours[12].trades]).toEqual([1, 2]);
+    expect(statsByMonth(data)[0]).toMatchObject({ label: 'Jan', trades: 3, netProfit: 60 });
+  });
+
+  it('reads holding times from the trades that carry an entry date', () => {
+    expect(holdingTimes(data)).toEqual([{ hours: 3, profit: 100, symbol: undefined }]);
+  });
+});
@@ -0,0 +1,110 @@
+import { type DataPoint } from './parser';
+import { MONTH_LABELS } from './returns';
+import { profitPerLot, riskPerLot } from './sizing';
+
+const HOUR = 60 * 60 * 1000;
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  label: string;
+  count: number;
+}
+
+export interface BucketStats {
+  label: string;
+  trades: number;
+  winRate: number;
+  netProfit: number;
+  expectancy: number; // average net P&L per trade
+}
+
+export interface RMultiples {
+  values: number[];
+  average: number;
+  fromStops: number; // trades whose risk came from a known S/L rather than the average loss
+}
+
+export interface HoldingPoint {
+  hours: number;
+  profit: number;
+  symbol?: string;
+}
+
+const isTrade = (d: DataPoint) => d.volume > 0;
+
+// Trades are bucketed by the time they were opened, falling back to the close
+const openedAt = (d: DataPoint) => d.entryDate ?? d.date;
+
+/**
+ * Equal-width bins over the range of the values, about √n of them (at most `maxBins`).
+ */
+export const histogram = (values: number[], maxBins = 30, digits = 0): HistogramBin[] => {
+  if (values.length === 0) return [];
+  // One pass rather than spreading the values into Math.min / Math.max, which overflows the stack on long series
+  const { min, max } = values.reduce(
+    (range, v) => ({ min: Math.min(range.min, v), max: Math.max(range.max, v) }),
+    { min: Infinity, max: -Infinity }
+  );
+  const count = max > min ? Math.min(maxBins, Math.max(5, Math.ceil(Math.sqrt(values.length)))) : 1;
+  const width = (max - min) / count || 1;
+
+  const bins = Array.from({ length: count }, (_, i) => {
+    const from = min + i * width;
+    return { from, to: from + width, label: from.toFixed(digits), count: 0 };
+  });
+  values.forEach(v => bins[Math.min(count - 1, Math.floor((v - min) / width))].count++);
+  return bins;
+};
+
+/**
+ * Result of each trade in units of its initial risk: the S/L distance when known,
+ * otherwise the average loss per lot, as the sizing engine prices risk.
+ */
+export const calculateRMultiples = (data: DataPoint[]): RMultiples => {
+  const trades = data.filter(isTrade);
+  const losses = trades.map(profitPerLot).filter(p => p < 0);
+  const averageLoss = losses.length > 0 ? Math.abs(losses.reduce((a, b) => a + b, 0) / losses.length) : 0;
+
+  const values: number[] = [];
+  let fromStops = 0;
+  trades.forEach(d => {
+    const risk = riskPerLot(d, averageLoss);
+    if (risk <= 0) return;
+    if (d.stopLoss && d.entryPrice) fromStops++;
+    values.push(profitPerLot(d) / risk);
+  });
+
+  return { values, average: values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0, fromStops };
+};
+
+const bucketStats = (data: DataPoint[], labels: string[], bucketOf: (date: Date) => number): BucketStats[] => {
+  const buckets = labels.map(label => ({ label, trades: 0, wins: 0, netProfit: 0 }));
+  data.filter(isTrade).forEach(d => {
+    const bucket = buckets[bucketOf(openedAt(d))];
+    bucket.trades++;
+    bucket.netProfit += d.profit;
+    if (d.profit >= 0) bucket.wins++;
+  });
+
+  return buckets.map(({ wins, ...b }) => ({
+    ...b,
+    winRate: b.trades > 0 ? (wins / b.trades) * 100 : 0,
+    expectancy: b.trades > 0 ? b.netProfit / b.trades : 0,
+  }));
+};
+
+export const statsByHour = (data: DataPoint[]) =>
+  bucketStats(data, Array.from({ length: 24 }, (_, h) => `${h.toString().padStart(2, '0')}:00`), date => date.getHours());
+
+export const statsByWeekday = (data: DataPoint[]) => bucketStats(data, WEEKDAY_LABELS, date => (date.getDay() + 6) % 7);
+
+export const statsByMonth = (data: DataPoint[]) => bucketStats(data, MONTH_LABELS, date => date.getMonth());
+
+// Holding time needs the entry date, which only reconstructed positions carry
+export const holdingTimes = (data: DataPoint[]): HoldingPoint[] =>
+  data
+    .filter(d => isTrade(d) && d.entryDate)
+    .map(d => ({ hours: (d.date.getTime() - (d.entryDate as Date).getTime()) / HOUR, profit: d.profit, symbol: d.symbol }));
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { groupByPeriod, startingBalance } from './balance';
+import { row } from './testFixtures';
+
+const byDay = (date: Date) => date.getDate();
+
+describe('startingBalance', () => {
+  it('starts from zero when the history opens with its own deposit', () => {
+    expect(startingBalance([row(1, 1000, 1000, 0), row(2, 100, 1100)], 1000)).toBe(0);
+  });
+
+  it('starts from the deposit when the history opens on a trade', () => {
+    expect(startingBalance([row(2, 100, 1100)], 1000)).toBe(1000);
+  });
+
+  it('starts a period from the balance brought forward, even when a later deposit opens it', () => {
+    expect(startingBalance([row(10, 500, 1630, 0), row(11, -200, 1430)], { broughtForward: 1130 })).toBe(1130);
+  });
+
+  it('starts a period from an empty account that is funded again', () => {
+    expect(startingBalance([row(10, 500, 500, 0), row(11, -200, 300)], { broughtForward: 0 })).toBe(0);
+  });
+});
+
+describe('groupByPeriod', () => {
+  it('measures the first period against the opening deposit', () => {
+    const periods = groupByPeriod([row(1, 1000, 1000, 0), row(1, 100, 1100), row(2, -50, 1050)], 1000, byDay);
+
+    expect(periods).toEqual([
+      { start: 1, startBalance: 1000, profit: 100, trades: 1 },
+      { start: 2, startBalance: 1100, profit: -50, trades: 1 },
+    ]);
+  });
+
+  it('leaves a later deposit out of the result and in the next period\'s balance', () => {
+    const periods = groupByPeriod([row(10, 500, 1630, 0), row(10, -200, 1430), row(11, 100, 1530)], { broughtForward: 1130 }, byDay);
+
+    expect(periods).toEqual([
+      { start: 10, startBalance: 1130, profit: -200, trades: 1 },
+      { start: 11, startBalance: 1430, profit: 100, trades: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { type DataPoint } from './parser';
+
+// The balance a period cut out of a longer history starts from: the account's balance just before it
+export interface BroughtForward {
+  broughtForward: number;
+}
+
+// What a history's balance starts from: a report's initial deposit, or the balance brought forward into a period of one
+export type OpeningBalance = number | BroughtForward;
+
+// The opening balance as an amount, for display and for returns measured against it
+export const openingAmount = (opening: OpeningBalance) => (typeof opening === 'number' ? opening : opening.broughtForward);
+
+/**
+ * The balance ahead of the first point. A period starts from the balance brought forward into it. A report
+ * that opens with its deposit row starts from zero and takes the deposit from that row; any other report
+ * starts at its initial deposit.
+ */
+export const startingBalance = (data: DataPoint[], opening: OpeningBalance) => {
+  if (typeof opening !== 'number') return opening.broughtForward;
+  return data.length > 0 && data[0].volume === 0 ? 0 : opening;
+};
+
+export interface PeriodTotals {
+  start: number; // the period's key, as returned by `periodOf`
+  startBalance: number; // the balance the period's result is measured against
+  profit: number; // trading result, deposits and withdrawals excluded
+  trades: number;
+}
+
+/**
+ * Trading results per period in time order, for the periods with activity. `periodOf` maps a date
+ * to the start of its period. Deposits and withdrawals move the balance a period starts with, not its result.
+ */
+export const groupByPeriod = (data: DataPoint[], initialDeposit: OpeningBalance, periodOf: (date: Date) => number): PeriodTotals[] => {
+  const rows: (PeriodTotals & { flows: number })[] = [];
+  let balance = startingBalance(data, initialDeposit);
+
+  data.forEach(d => {
+    const start = periodOf(d.date);
+    if (rows.length === 0 || rows[rows.length - 1].start !== start) {
+      rows.push({ start, startBalance: balance, profit: 0, trades: 0, flows: 0 });
+    }
+    const row = rows[rows.length - 1];
+
+    if (d.volume > 0) {
+      row.profit += d.profit;
+      row.trades++;
+    } else {
+      row.flows += d.profit;
+    }
+    balance += d.profit;
+  });
+
+  // The opening deposit falls inside the first period: measure against it
+  return rows.map(({ flows, ...row }) => ({ ...row, startBalance: row.startBalance > 0 ? row.startBalance : row.startBalance + flows }));
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COSTS, applyCosts, calculateBreakEvenCost, estimatePointValues, type CostSettings } from './costs';
+import { DEFAULT_SIZING, simulateSizing } from './sizing';
+import { day, history, row } from './testFixtures';
+
+// Two lots held from day 1 to day 3 that made 0.00100, i.e. 100 points worth 1 each per lot
+const trade = row(3, 190, 1190, 2, {
+  symbol: 'EURUSD', entryDate: day(1), entryPrice: 1.10005, price: 1.10105, rawProfit: 200, commission: -8, swap: -2,
+});
+const data = [row(1, 1000, 1000, 0), trade];
+
+const costs = (fields: Partial<CostSettings>): CostSettings => ({ ...DEFAULT_COSTS, ...fields });
+
+describe('estimatePointValues', () => {
+  it('reads the value of a point per lot from the realised price moves', () => {
+    const values = estimatePointValues(data);
+
+    expect(Object.keys(values)).toEqual(['EURUSD']);
+    expect(values.EURUSD).toBeCloseTo(1);
+  });
+});
+
+describe('applyCosts', () => {
+  it('leaves the report alone without overrides', () => {
+    expect(applyCosts(data, DEFAULT_COSTS)).toBe(data);
+  });
+
+  it('replaces commission and swap and takes spread and slippage off the gross result', () => {
+    const [deposit, costed] = applyCosts(data, costs({ commissionPerLot: 7, swapPerLotPerNight: 3, spreadPoints: 10, slippage: 2 }));
+
+    expect(deposit).toBe(data[0]);
+    expect(costed.commission).toBe(-14);
+    expect(costed.swap).toBe(-12);
+    expect(costed.rawProfit).toBeCloseTo(176);
+    expect(costed.profit).toBeCloseTo(150);
+  });
+
+  it('keeps the report’s commission and swap when only execution costs change', () => {
+    const [, costed] = applyCosts(data, costs({ slippage: 5, slippageUnit: 'points' }));
+
+    expect(costed).toMatchObject({ commission: -8, swap: -2 });
+    expect(costed.profit).toBeCloseTo(180);
+  });
+
+  it('draws random slippage from the seed', () => {
+    const random = costs({ slippage: 2, slippageMode: 'random', seed: 9 });
+    const [, first] = applyCosts(data, random);
+    const [, again] = applyCosts(data, random);
+
+    expect(again.profit).toBe(first.profit);
+    expect(first.profit).toBeLessThanOrEqual(190);
+    expect(first.profit).toBeGreaterThanOrEqual(182);
+  });
+});
+
+describe('calculateBreakEvenCost', () => {
+  it('spreads the net profit over the traded lots', () => {
+    const simulated = simulateSizing(history([[1, 1000, 0], [2, 100], [3, -40]]), 1000, { ...DEFAULT_SIZING, lotSize: 1 });
+
+    expect(calculateBreakEvenCost(simulated, { '': 2 })).toEqual({ perLot: 30, perTrade: 30, points: 15 });
+    expect(calculateBreakEvenCost(simulated, {}).points).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import { type DataPoint } from './parser';
+import { type SimulatedDataPoint } from './sizing';
+import { createRandom } from './monteCarlo';
+
+export type CostUnit = 'money' | 'points';
+export type SlippageMode = 'fixed' | 'random';
+
+// Every cost is entered as a charge: positive values reduce profit
+export interface CostSettings {
+  commissionPerLot: number | null; // round turn; null keeps the report's commission
+  swapPerLotPerNight: number | null; // null keeps the report's swap
+  spreadPoints: number; // extra spread paid once per trade
+  slippage: number; // per trade, in money per lot or in points
+  slippageUnit: CostUnit;
+  slippageMode: SlippageMode; // random draws between 0 and twice the value, with the same average
+  seed: number;
+}
+
+export interface BreakEvenCost {
+  perLot: number; // extra round-turn cost per lot that takes net profit to zero
+  perTrade: number;
+  points: number | null; // the same in points, when the point value can be read from the trades
+}
+
+export const DEFAULT_COSTS: CostSettings = {
+  commissionPerLot: null,
+  swapPerLotPerNight: null,
+  spreadPoints: 0,
+  slippage: 0,
+  slippageUnit: 'money',
+  slippageMode: 'fixed',
+  seed: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isTrade = (d: DataPoint) => d.volume > 0;
+
+export const hasCostOverrides = (costs: CostSettings) =>
+  costs.commissionPerLot !== null || costs.swapPerLotPerNight !== null || costs.spreadPoints !== 0 || costs.slippage !== 0;
+
+// Rollovers a position was held over: the midnights between its entry and exit
+const nightsHeld = (d: DataPoint) => {
+  if (!d.entryDate) return 0;
+  const day = (date: Date) => Math.floor((date.getTime() - date.getTimezoneOffset() * 60000) / DAY_MS);
+  return Math.max(0, day(d.date) - day(d.entryDate));
+};
+
+const decimals = (value: number) => {
+  const text = value.toString();
+  return text.includes('.') ? text.length - text.indexOf('.') - 1 : 0;
+};
+
+/**
+ * Money one point is worth for one lot, per symbol, read from the trades' realised price moves.
+ * The point is the smallest price increment seen for the symbol (0.00001 for a 5-digit quote).
+ */
+export const estimatePointValues = (data: DataPoint[]): Record<string, number> => {
+  const bySymbol: Record<string, { digits: number; perPrice: number[] }> = {};
+
+  data.filter(isTrade).forEach(d => {
+    const s = (bySymbol[d.symbol || ''] ??= { digits: 0, perPrice: [] });
+    [d.price, d.entryPrice].forEach(p => {
+      if (p !== undefined) s.digits = Math.max(s.digits, decimals(p));
+    });
+    const move = d.price !== undefined && d.entryPrice !== undefined ? Math.abs(d.price - d.entryPrice) : 0;
+    if (move > 0 && d.rawProfit) s.perPrice.push(Math.abs(d.rawProfit) / move / d.volume);
+  });
+
+  const values: Record<string, number> = {};
+  Object.entries(bySymbol).forEach(([symbol, s]) => {
+    if (s.perPrice.length === 0) return;
+    const perPrice = s.perPrice.reduce((a, b) => a + b, 0) / s.perPrice.length;
+    values[symbol] = perPrice * Math.pow(10, -s.digits);
+  });
+  return values;
+};
+
+/**
+ * Re-prices every trade under a broker cost model. Commission and swap overrides replace the
+ * report's figures; spread and slippage come off the trade's gross result, so they scale with size.
+ * Points are converted with `estimatePointValues` and cost nothing for symbols without a known point value.
+ */
+export const applyCosts = (data: DataPoint[], costs: CostSettings): DataPoint[] => {
+  if (!hasCostOverrides(costs)) return data;
+
+  const pointValues = estimatePointValues(data);
+  const random = createRandom(costs.seed);
+
+  return data.map(d => {
+    if (!isTrade(d)) return d;
+
+    const pointValue = pointValues[d.symbol || ''] ?? 0;
+    const draw = costs.slippageMode === 'random' ? random() * 2 : 1;
+    const slippagePerLot = costs.slippage * draw * (costs.slippageUnit === 'points' ? pointValue : 1);
+    const executionCost = (costs.spreadPoints * pointValue + slippagePerLot) * d.volume;
+
+    const commission = costs.commissionPerLot !== null ? -costs.commissionPerLot * d.volume : d.commission || 0;
+    const swap = costs.swapPerLotPerNight !== null ? -costs.swapPerLotPerNight * d.volume * nightsHeld(d) : d.swap || 0;
+    const rawProfit = (d.rawProfit ?? d.profit - (d.commission || 0) - (d.swap || 0)) - executionCost;
+
+    return { ...d, rawProfit, commission, swap, profit: rawProfit + commission + swap };
+  });
+};
+
+/**
+ * The additional cost per traded lot (and in points) the simulated run could absorb before
+ * its net profit reaches zero. Negative when the run already loses.
+ */
+export const calculateBreakEvenCost = (simulated: SimulatedDataPoint[], pointValues: Record<string, number>): BreakEvenCost => {
+  const trades = simulated.filter(d => d.simulatedVolume > 0);
+  const net = trades.reduce((sum, d) => sum + d.simulatedProfit, 0);
+  const lots = trades.reduce((sum, d) => sum + d.simulatedVolume, 0);
+  const pointMoney = trades.reduce((sum, d) => sum + d.simulatedVolume * (pointValues[d.symbol || ''] ?? 0), 0);
+
+  return {
+    perLot: lots > 0 ? net / lots : 0,
+    perTrade: trades.length > 0 ? net / trades.length : 0,
+    points: pointMoney > 0 ? net / pointMoney : null,
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createTableImport, guessMapping, importTable, parseCSV } from './csv';
+
+describe('parseCSV', () => {
+  it('sniffs the delimiter and honours quoted fields', () => {
+    expect(parseCSV('\uFEFFTime;Symbol;Comment\r\n2024.01.02;EURUSD;"a; ""quoted"" note"\r\n\r\n')).toEqual([
+      ['Time', 'Symbol', 'Comment'],
+      ['2024.01.02', 'EURUSD', 'a; "quoted" note'],
+    ]);
+  });
+});
+
+describe('guessMapping', () => {
+  it('maps the opening columns apart from the closing ones', () => {
+    const mapping = guessMapping(['Symbol', 'Opening Direction', 'Opening Time', 'Closing Time', 'Entry price', 'Closing Price', 'Closing Quantity', 'Net $', 'Balance $']);
+
+    expect(mapping).toMatchObject({ symbol: 0, type: 1, openTime: 2, time: 3, openPrice: 4, price: 5, volume: 6, profit: 7, balance: 8, swap: -1 });
+  });
+});
+
+describe('importTable', () => {
+  it('takes round trips from rows with an open time and the deposit from the balance column', () => {
+    const table = createTableImport('ctrader', parseCSV([
+      'Symbol,Opening Direction,Opening Time,Closing Time,Closing Quantity,Net $,Balance $',
+      'EURUSD,Buy,02/01/2024 10:00:00,02/01/2024 12:00:00,1,100,10100',
+      'EURUSD,Sell,03/01/2024 10:00:00,03/01/2024 12:00:00,1,-40,10060',
+    ].join('\n')));
+
+    expect(table.initialDeposit).toBe(10000);
+    const result = importTable(table);
+    expect(result.positions.map(p => [p.direction, p.profit])).toEqual([['buy', 100], ['sell', -40]]);
+    expect(result.metrics.netProfit).toBe(60);
+  });
+
+  it('reads the deposit from the earliest trade of a newest-first file', () => {
+    const table = createTableImport('ctrader', parseCSV([
+      'Symbol,Opening Direction,Opening Time,Closing Time,Closing Quantity,Net $,Balance $',
+      'EURUSD,Sell,03/01/2024 10:00:00,03/01/2024 12:00:00,1,-40,5060',
+      'EURUSD,Buy,02/01/2024 10:00:00,02/01/2024 12:00:00,1,100,5100',
+    ].join('\n')));
+
+    expect(table).toMatchObject({ initialDeposit: 5000, depositAssumed: false });
+    expect(importTable(table).data.map(d => d.balance)).toEqual([5100, 5060]);
+  });
+
+  it('pairs TradingView entry and exit rows by trade number', () => {
+    const table = createTableImport('tradingview', parseCSV([
+      'Trade #,Type,Date/Time,Price,Contracts,Profit USD',
+      '1,Entry Long,2024-01-02 10:00,100,2,',
+      '1,Exit Long,2024-01-02 15:00,105,2,10',
+      '2,Entry Short,2024-01-03 10:00,105,1,',
+      '2,Exit Short,2024-01-03 15:00,107,1,-2',
+    ].join('\n')));
+
+    const { positions, initialDeposit, diagnostics } = importTable(table);
+    // Without a balance column the deposit is assumed, and the diagnostics say so
+    expect(initialDeposit).toBe(10000);
+    expect(diagnostics.some(d => d.code === 'assumed-deposit')).toBe(true);
+    expect(positions.map(p => [p.direction, p.entryPrice, p.exitPrice, p.profit])).toEqual([['buy', 100, 105, 10], ['sell', 105, 107, -2]]);
+  });
+
+  it('skips rows without a readable time and says so', () => {
+    const table = createTableImport('csv', parseCSV('Time,Type,Volume,Profit\n2024.01.02 10:00,buy,1,50\nTotal,,,50'));
+    const { data, diagnostics } = importTable(table);
+
+    expect(data.filter(d => d.volume > 0)).toHaveLength(1);
+    expect(diagnostics.some(d => d.code === 'skipped-rows')).toBe(true);
+  });
+});
@@ -0,0 +1,251 @@
+import { buildResult, type DataPoint, type ParsedResult, type ReportFormat } from './parser';
+import { createNumberReader, type Diagnostic } from './diagnostics';
+import { cleanVal, formatTime, parseFlexibleDate } from './tables';
+
+export type MappedField =
+  | 'time' | 'type' | 'volume' | 'profit' | 'swap' | 'commission' | 'balance'
+  | 'openTime' | 'symbol' | 'price' | 'openPrice' | 'id' | 'mae' | 'mfe';
+
+// Column index per field, -1 when the file has no such column
+export type ColumnMapping = Record<MappedField, number>;
+
+export const MAPPED_FIELDS: { field: MappedField; label: string; required?: boolean }[] = [
+  { field: 'time', label: 'Time (close)', required: true },
+  { field: 'type', label: 'Type / Direction', required: true },
+  { field: 'volume', label: 'Volume', required: true },
+  { field: 'profit', label: 'Profit', required: true },
+  { field: 'swap', label: 'Swap' },
+  { field: 'commission', label: 'Commission' },
+  { field: 'balance', label: 'Balance' },
+  { field: 'openTime', label: 'Open Time' },
+  { field: 'symbol', label: 'Symbol' },
+  { field: 'price', label: 'Price (close)' },
+  { field: 'openPrice', label: 'Open Price' },
+  { field: 'id', label: 'Trade / Position ID' },
+  { field: 'mae', label: 'Drawdown / MAE' },
+  { field: 'mfe', label: 'Run-up / MFE' },
+];
+
+// Header synonyms seen in cTrader, TradingView and MT exports, most specific first
+const FIELD_KEYWORDS: Record<MappedField, string[]> = {
+  time: ['closing time', 'close time', 'date/time', 'date and time', 'time', 'date'],
+  type: ['opening direction', 'direction', 'side', 'type', 'action'],
+  volume: ['closing quantity', 'quantity', 'contracts', 'position size', 'volume', 'size', 'lots', 'qty', 'amount'],
+  profit: ['gross $', 'gross usd', 'gross', 'profit usd', 'net p&l', 'profit', 'p&l', 'pnl', 'net $', 'net usd'],
+  swap: ['swap'],
+  commission: ['commissions', 'commission', 'fee', 'taxes'],
+  balance: ['balance'],
+  openTime: ['opening time', 'open time', 'entry time'],
+  symbol: ['symbol', 'instrument', 'ticker', 'market'],
+  price: ['closing price', 'close price', 'exit price', 'price'],
+  openPrice: ['entry price', 'opening price', 'open price'],
+  id: ['trade #', 'position id', 'ticket', 'id'],
+  mae: ['drawdown usd', 'mae', 'max adverse excursion'],
+  mfe: ['run-up usd', 'mfe', 'max favorable excursion'],
+};
+
+/**
+ * A tabular trade history waiting for the user to confirm its column mapping.
+ */
+export interface TableImport {
+  format: ReportFormat;
+  header: string[];
+  rows: string[][];
+  mapping: ColumnMapping;
+  initialDeposit: number;
+  depositAssumed: boolean; // no balance to read the deposit from, so it is DEFAULT_DEPOSIT until the user sets one
+}
+
+// What a history without a balance column is taken to start from
+export const DEFAULT_DEPOSIT = 10000;
+
+export const isTableImport = (value: ParsedResult | TableImport): value is TableImport => 'mapping' in value;
+
+// Splits CSV text into rows, honouring quotes and sniffing the delimiter from the first line
+export const parseCSV = (text: string): string[][] => {
+  const clean = text.replace(/^\uFEFF/, '');
+  const firstLine = clean.split(/\r?\n/, 1)[0];
+  const delimiter = [';', '\t', ','].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < clean.length; i++) {
+    const ch = clean[i];
+    if (quoted) {
+      if (ch === '"' && clean[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && clean[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(c => c !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(c => c !== '')) rows.push(row);
+
+  return rows;
+};
+
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const lower = header.map(h => h.trim().toLowerCase());
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  // Open time / price first so "opening time" is not taken as the close time
+  const order: MappedField[] = ['openTime', 'openPrice', 'id', 'time', 'type', 'volume', 'profit', 'swap', 'commission', 'balance', 'symbol', 'price', 'mae', 'mfe'];
+  order.forEach(field => {
+    const keywords = FIELD_KEYWORDS[field];
+    let idx = lower.findIndex((h, i) => !used.has(i) && keywords.includes(h));
+    if (idx === -1) idx = lower.findIndex((h, i) => !used.has(i) && keywords.some(k => h.startsWith(k)));
+    if (idx !== -1) used.add(idx);
+    mapping[field] = idx;
+  });
+
+  return mapping;
+};
+
+export const createTableImport = (format: ReportFormat, table: string[][]): TableImport => {
+  const [header = [], ...rows] = table;
+  const mapping = guessMapping(header);
+
+  // With a balance column the deposit is the balance before the earliest trade, wherever the file lists it
+  let first: string[] | undefined;
+  let firstTime = Infinity;
+  if (mapping.balance !== -1 && mapping.time !== -1) {
+    rows.forEach(row => {
+      const time = parseFlexibleDate(row[mapping.time] ?? '')?.getTime() ?? Infinity;
+      if (time < firstTime) {
+        first = row;
+        firstTime = time;
+      }
+    });
+  }
+  if (!first) return { format, header, rows, mapping, initialDeposit: DEFAULT_DEPOSIT, depositAssumed: true };
+
+  const row = first;
+  const value = (field: MappedField) => (mapping[field] !== -1 ? cleanVal(stripUnits(row[mapping[field]])) : 0);
+  const initialDeposit = value('balance') - value('profit') - value('swap') + Math.abs(value('commission'));
+  return { format, header, rows, mapping, initialDeposit, depositAssumed: false };
+};
+
+// Strips currency symbols and units before the shared number parser
+const stripUnits = (text: string | undefined) => text?.replace(/[^\d.,\-−–]/g, '');
+
+const direction = (text: string) => {
+  const t = text.toLowerCase();
+  if (/(buy|long)/.test(t)) return 'buy';
+  if (/(sell|short)/.test(t)) return 'sell';
+  return t;
+};
+
+/**
+ * Converts a mapped trade history into deals and runs them through the shared result builder.
+ * Rows with an open time are full round trips; TradingView-style "Entry"/"Exit" rows are paired by ID;
+ * anything else is treated as one closed trade per row.
+ */
+export const importTable = ({ format, header, rows, mapping, initialDeposit, depositAssumed }: TableImport): ParsedResult => {
+  const cell = (row: string[], field: MappedField) => (mapping[field] !== -1 ? row[mapping[field]] ?? '' : '');
+  const has = (field: MappedField) => mapping[field] !== -1;
+  const deals: DataPoint[] = [];
+  const numbers = createNumberReader();
+  const number = (row: string[], field: MappedField) =>
+    numbers.read(stripUnits(cell(row, field)), header[mapping[field]] ?? field);
+  let skipped = 0;
+
+  rows.forEach((row, i) => {
+    const date = parseFlexibleDate(cell(row, 'time'));
+    if (!date) {
+      skipped++;
+      return;
+    }
+
+    const rawType = cell(row, 'type');
+    const type = direction(rawType);
+    const volume = Math.abs(number(row, 'volume'));
+    const rawProfit = number(row, 'profit');
+    const swap = has('swap') ? number(row, 'swap') : 0;
+    const commission = has('commission') ? -Math.abs(number(row, 'commission')) : 0;
+    const balance = has('balance') ? number(row, 'balance') : NaN;
+    const symbol = cell(row, 'symbol') || undefined;
+    const id = cell(row, 'id') || undefined;
+    const common = { symbol, positionId: id, volume };
+    // Excursions are exported unsigned by some platforms; MAE is a loss, MFE a gain
+    const excursion = {
+      mae: has('mae') ? -Math.abs(number(row, 'mae')) : undefined,
+      mfe: has('mfe') ? Math.abs(number(row, 'mfe')) : undefined,
+    };
+
+    // Non-trade rows (deposits, withdrawals) carry no direction
+    if (type !== 'buy' && type !== 'sell') {
+      deals.push({ time: formatTime(date), date, balance, profit: rawProfit, volume: 0, type: rawType.toLowerCase() || 'balance', rawProfit });
+      return;
+    }
+
+    const openDate = has('openTime') ? parseFlexibleDate(cell(row, 'openTime')) : null;
+    const marker = rawType.toLowerCase();
+    const closeType = type === 'buy' ? 'sell' : 'buy';
+
+    if (openDate) {
+      // Each row is a whole round trip, so its two deals always pair up
+      const positionId = id ?? `row-${i}`;
+      deals.push({
+        ...common, positionId, time: formatTime(openDate), date: openDate, balance: NaN, profit: 0, type, entry: 'in',
+        price: number(row, 'openPrice'), swap: 0, commission: 0, rawProfit: 0
+      });
+      deals.push({
+        ...common, ...excursion, positionId, time: formatTime(date), date, balance, profit: rawProfit + swap + commission, type: closeType, entry: 'out',
+        price: number(row, 'price'), swap, commission, rawProfit
+      });
+    } else if (marker.includes('entry')) {
+      deals.push({ ...common, time: formatTime(date), date, balance: NaN, profit: 0, type, entry: 'in', price: number(row, 'price'), swap: 0, commission: 0, rawProfit: 0 });
+    } else if (marker.includes('exit')) {
+      // "Exit Long" closes a long position, i.e. a sell deal
+      deals.push({ ...common, ...excursion, time: formatTime(date), date, balance, profit: rawProfit + swap + commission, type: closeType, entry: 'out', price: number(row, 'price'), swap, commission, rawProfit });
+    } else {
+      deals.push({ ...common, ...excursion, time: formatTime(date), date, balance, profit: rawProfit + swap + commission, type, price: number(row, 'price'), swap, commission, rawProfit });
+    }
+  });
+
+  // Fill balances the file does not carry from the running total
+  deals.sort((a, b) => a.date.getTime() - b.date.getTime());
+  let running = initialDeposit;
+  deals.forEach(d => {
+    running = isNaN(d.balance) ? running + d.profit : d.balance;
+    d.balance = running;
+  });
+
+  const detected = MAPPED_FIELDS.filter(f => mapping[f.field] !== -1).map(f => `${f.field} → "${header[mapping[f.field]]}"`);
+  const diagnostics: Diagnostic[] = [{ level: 'info', code: 'columns', message: `Mapped columns: ${detected.join(', ')}.` }];
+  if (skipped > 0) {
+    diagnostics.push({ level: 'warning', code: 'skipped-rows', message: `${skipped} row(s) had no readable time and were skipped.` });
+  }
+  if (depositAssumed) {
+    diagnostics.push({
+      level: 'warning',
+      code: 'assumed-deposit',
+      message: `The file has no balance column, so an initial deposit of ${initialDeposit} was assumed. Returns and drawdown percentages are measured against it.`,
+    });
+  }
+  diagnostics.push(...numbers.diagnostics());
+
+  return buildResult(format, { deals, orders: [], initialDeposit, diagnostics });
+};
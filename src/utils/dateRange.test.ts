@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStats } from './statistics';
+import { calculateReturnTables } from './returns';
+import { filterByDateRange, fromDateInput, toDateInput } from './dateRange';
+import { day, report } from './testFixtures';
+
+describe('filterByDateRange', () => {
+  it('returns the report as it is for a range covering all of it', () => {
+    const data = report();
+    const ranged = filterByDateRange(data, 1000, { start: day(1).getTime() - 1, end: day(31).getTime() });
+
+    expect(ranged).toEqual({ data, initialDeposit: 1000 });
+    expect(calculateStats(ranged.data, ranged.initialDeposit)).toEqual(calculateStats(data, 1000));
+    expect(calculateReturnTables(ranged.data, ranged.initialDeposit)).toEqual(calculateReturnTables(data, 1000));
+  });
+
+  it('starts a range that opens on a deposit from the balance before it', () => {
+    const data = report();
+    const ranged = filterByDateRange(data, 1000, { start: day(10).getTime(), end: day(12).getTime() });
+
+    expect(ranged).toEqual({ data: data.slice(4, 7), initialDeposit: { broughtForward: 1130 } });
+    const [january] = calculateReturnTables(ranged.data, ranged.initialDeposit).monthly;
+    expect(january).toMatchObject({ profit: -100, startBalance: 1130 });
+    expect(january.percent).toBeCloseTo((-100 / 1130) * 100);
+  });
+
+  it('returns no deals for a range after the last one', () => {
+    expect(filterByDateRange(report(), 1000, { start: day(21).getTime(), end: day(31).getTime() })).toEqual({ data: [], initialDeposit: 1000 });
+  });
+});
+
+describe('date inputs', () => {
+  it('covers every deal closed on the chosen days', () => {
+    expect(fromDateInput(toDateInput(day(10).getTime()))).toBe(new Date(2024, 0, 10).getTime());
+    expect(fromDateInput('2024-01-10', true)).toBe(new Date(2024, 0, 11).getTime() - 1);
+  });
+
+  it('ends a day of a DST change at the next midnight', () => {
+    expect(fromDateInput('2024-03-31', true)).toBe(new Date(2024, 3, 1).getTime() - 1);
+    expect(fromDateInput('2024-10-27', true)).toBe(new Date(2024, 9, 28).getTime() - 1);
+  });
+});
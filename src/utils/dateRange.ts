@@ -0,0 +1,36 @@
+import { type DataPoint } from './parser';
+import { formatTime } from './tables';
+import { type OpeningBalance } from './balance';
+
+export interface DateRange {
+  start: number; // epoch milliseconds, inclusive
+  end: number;
+}
+
+// Dates as the "YYYY-MM-DD" a date input expects, in local time
+export const toDateInput = (ms: number) => formatTime(new Date(ms)).slice(0, 10).replace(/\./g, '-');
+
+// The start or the end of the chosen day, so a range of whole days takes in every deal closed on them.
+// The end is the next local midnight less a millisecond, which keeps days of a DST change whole
+export const fromDateInput = (value: string, endOfDay = false) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return endOfDay ? new Date(y, m - 1, d + 1).getTime() - 1 : new Date(y, m - 1, d).getTime();
+};
+
+/**
+ * Keeps the deals closed inside the range with their running balances. A range that opens after the first
+ * deal starts from the balance brought forward into it.
+ */
+export const filterByDateRange = (
+  data: DataPoint[],
+  initialDeposit: OpeningBalance,
+  range: DateRange
+): { data: DataPoint[]; initialDeposit: OpeningBalance } => {
+  const from = data.findIndex(d => d.date.getTime() >= range.start);
+  if (from === -1) return { data: [], initialDeposit };
+
+  return {
+    data: data.slice(from).filter(d => d.date.getTime() <= range.end),
+    initialDeposit: from > 0 ? { broughtForward: data[from - 1].balance } : initialDeposit,
+  };
+};
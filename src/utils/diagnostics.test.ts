@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createNumberReader, reconcile } from './diagnostics';
+import { history, row } from './testFixtures';
+
+describe('createNumberReader', () => {
+  it('counts unreadable cells as 0 and reports them once per column', () => {
+    const numbers = createNumberReader();
+
+    expect(numbers.read('1 234,5', 'Profit')).toBe(1234.5);
+    expect(numbers.read('n/a', 'Profit')).toBe(0);
+    expect(numbers.read('--', 'Profit')).toBe(0);
+    expect(numbers.read('', 'Swap')).toBe(0);
+    expect(numbers.diagnostics()).toEqual([
+      expect.objectContaining({ code: 'unparsable-number', message: expect.stringContaining('2 value(s) in "Profit"') }),
+    ]);
+  });
+});
+
+describe('reconcile', () => {
+  const deals = history([[1, 1000, 0], [2, 100], [3, -50]]);
+
+  it('confirms a summary that matches the deals', () => {
+    const diagnostics = reconcile(deals, deals, [], { totalNetProfit: '50.00', totalTrades: '2' });
+
+    expect(diagnostics).toEqual([expect.objectContaining({ level: 'info', code: 'net-profit-mismatch', delta: 0 })]);
+  });
+
+  it('flags a net profit, trade count or balance that does not add up', () => {
+    const broken = [...deals, row(4, 20, 1100)];
+    const codes = reconcile(broken, broken, [], { totalNetProfit: '90.00', totalTrades: '4' }).map(d => [d.code, d.level, d.delta]);
+
+    expect(codes).toEqual([
+      ['net-profit-mismatch', 'error', 20],
+      ['trade-count-mismatch', 'warning', 1],
+      ['balance-mismatch', 'warning', 30],
+    ]);
+  });
+
+  it('reports a file without deals as an error', () => {
+    expect(reconcile([], [], [])).toEqual([expect.objectContaining({ level: 'error', code: 'skipped-rows' })]);
+  });
+});
@@ -0,0 +1,108 @@
+import { type DataPoint, type ReportMeta } from './parser';
+import { type Position } from './positions';
+import { parseNumber } from './tables';
+
+export type DiagnosticLevel = 'info' | 'warning' | 'error';
+
+export type DiagnosticCode =
+  | 'format'
+  | 'columns'
+  | 'column-fallback'
+  | 'missing-label'
+  | 'skipped-rows'
+  | 'assumed-deposit'
+  | 'unparsable-number'
+  | 'net-profit-mismatch'
+  | 'balance-mismatch'
+  | 'trade-count-mismatch';
+
+export interface Diagnostic {
+  level: DiagnosticLevel;
+  code: DiagnosticCode;
+  message: string;
+  delta?: number; // scraped minus recomputed, for reconciliation checks
+}
+
+const TOLERANCE = 0.01;
+
+const isTrade = (d: DataPoint) =>
+  d.type ? !['balance', 'deposit', 'withdrawal', 'credit'].some(t => d.type?.includes(t)) : d.volume > 0;
+
+// Collects unparsable cells per column instead of emitting one diagnostic per cell
+export const createNumberReader = () => {
+  const failures: Record<string, { count: number; sample: string }> = {};
+
+  const read = (text: string | null | undefined, column: string) => {
+    const value = parseNumber(text);
+    if (value === null && text?.trim()) {
+      failures[column] ??= { count: 0, sample: text.trim() };
+      failures[column].count++;
+    }
+    return value ?? 0;
+  };
+
+  const diagnostics = (): Diagnostic[] => Object.entries(failures).map(([column, { count, sample }]) => ({
+    level: 'warning',
+    code: 'unparsable-number',
+    message: `${count} value(s) in "${column}" could not be read as numbers (e.g. "${sample}") and were counted as 0.`,
+  }));
+
+  return { read, diagnostics };
+};
+
+/**
+ * Checks the scraped summary against what the deals add up to:
+ * net profit, balance continuity from row to row, and the number of closed trades.
+ */
+export const reconcile = (deals: DataPoint[], data: DataPoint[], positions: Position[], meta?: ReportMeta): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = [];
+  if (deals.length === 0) {
+    diagnostics.push({ level: 'error', code: 'skipped-rows', message: 'No deal rows were found in the file.' });
+    return diagnostics;
+  }
+
+  if (meta) {
+    const recomputed = data.reduce((sum, d) => (isTrade(d) ? sum + d.profit : sum), 0);
+    const scraped = parseNumber(meta.totalNetProfit);
+    if (scraped === null) {
+      diagnostics.push({ level: 'warning', code: 'net-profit-mismatch', message: 'Total Net Profit could not be read from the summary, so it was not verified.' });
+    } else {
+      const delta = scraped - recomputed;
+      diagnostics.push(Math.abs(delta) > TOLERANCE
+        ? { level: 'error', code: 'net-profit-mismatch', message: `Summary reports ${scraped.toFixed(2)} net profit but the deals add up to ${recomputed.toFixed(2)}.`, delta }
+        : { level: 'info', code: 'net-profit-mismatch', message: `Total Net Profit ${scraped.toFixed(2)} matches the deals.`, delta });
+    }
+
+    const closed = positions.length > 0 ? positions.length : data.filter(d => d.volume > 0).length;
+    const reported = parseNumber(meta.totalTrades) ?? 0;
+    if (reported > 0 && reported !== closed) {
+      diagnostics.push({
+        level: 'warning',
+        code: 'trade-count-mismatch',
+        message: `Summary reports ${reported} trades but ${closed} closed trades were reconstructed.`,
+        delta: reported - closed,
+      });
+    }
+  }
+
+  // Each row's balance should be the previous balance plus that row's profit
+  let breaks = 0;
+  let worst = 0;
+  for (let i = 1; i < deals.length; i++) {
+    const delta = deals[i].balance - (deals[i - 1].balance + deals[i].profit);
+    if (Math.abs(delta) > TOLERANCE) {
+      breaks++;
+      if (Math.abs(delta) > Math.abs(worst)) worst = delta;
+    }
+  }
+  if (breaks > 0) {
+    diagnostics.push({
+      level: 'warning',
+      code: 'balance-mismatch',
+      message: `${breaks} row(s) have a balance that does not follow from the previous balance plus profit (largest gap ${worst.toFixed(2)}).`,
+      delta: worst,
+    });
+  }
+
+  return diagnostics;
+};
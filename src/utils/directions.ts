@@ -0,0 +1,54 @@
+import { type DataPoint } from './parser';
+
+export type Direction = 'long' | 'short';
+
+export interface DirectionBreakdown {
+  direction: Direction;
+  trades: number;
+  wins: number;
+  winRate: number;
+  netProfit: number;
+  grossProfit: number;
+  grossLoss: number;
+  profitFactor: number;
+  avgTrade: number;
+  volume: number;
+}
+
+// Trade points carry the position direction: a buy opens a long, a sell a short
+export const tradeDirection = (d: DataPoint): Direction | null => {
+  const type = d.type?.toLowerCase() ?? '';
+  if (type.startsWith('buy')) return 'long';
+  if (type.startsWith('sell')) return 'short';
+  return null;
+};
+
+export const calculateDirectionBreakdown = (data: DataPoint[]): DirectionBreakdown[] => {
+  const rows: Record<Direction, DirectionBreakdown> = {
+    long: { direction: 'long', trades: 0, wins: 0, winRate: 0, netProfit: 0, grossProfit: 0, grossLoss: 0, profitFactor: 0, avgTrade: 0, volume: 0 },
+    short: { direction: 'short', trades: 0, wins: 0, winRate: 0, netProfit: 0, grossProfit: 0, grossLoss: 0, profitFactor: 0, avgTrade: 0, volume: 0 },
+  };
+
+  data.forEach(d => {
+    const direction = tradeDirection(d);
+    if (d.volume <= 0 || !direction) return;
+    const row = rows[direction];
+
+    row.trades++;
+    row.volume += d.volume;
+    row.netProfit += d.profit;
+    if (d.profit >= 0) {
+      row.wins++;
+      row.grossProfit += d.profit;
+    } else {
+      row.grossLoss += Math.abs(d.profit);
+    }
+  });
+
+  return [rows.short, rows.long].map(row => ({
+    ...row,
+    winRate: row.trades > 0 ? (row.wins / row.trades) * 100 : 0,
+    profitFactor: row.grossLoss === 0 ? row.grossProfit : row.grossProfit / row.grossLoss,
+    avgTrade: row.trades > 0 ? row.netProfit / row.trades : 0,
+  }));
+};
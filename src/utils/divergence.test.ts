@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDivergence, readLiveTrades } from './divergence';
+import { type DataPoint } from './parser';
+import { row } from './testFixtures';
+
+// A trade opened at 10:00 plus `delay` minutes on day `d` and closed at noon
+const trade = (d: number, profit: number, volume: number, fields: Partial<DataPoint> = {}, delay = 0) =>
+  row(d, profit, 0, volume, { symbol: 'EURUSD', entryDate: new Date(2024, 0, d, 10, delay), ...fields });
+
+const backtest = [
+  trade(2, 100, 1, { entryPrice: 1.1, price: 1.105 }),
+  trade(3, -50, 1),
+  trade(4, 80, 1),
+  trade(5, -30, 1),
+  trade(6, 60, 1),
+  trade(7, 40, 1),
+];
+
+// A tenth of the size on a suffixed symbol, five minutes late, plus a sell the backtest never took
+const live = [
+  trade(2, 9, 0.1, { symbol: 'EURUSD.r', entryPrice: 1.1002, price: 1.1048 }, 5),
+  trade(3, -6, 0.1, { symbol: 'EURUSD.r' }, 5),
+  trade(4, 8, 0.1, { symbol: 'EURUSD.r' }, 5),
+  trade(5, 5, 0.1, { symbol: 'EURUSD.r', type: 'sell' }, 5),
+];
+
+describe('analyzeDivergence', () => {
+  it('pairs live trades with the nearest backtest entry of the same direction and symbol', () => {
+    const report = analyzeDivergence(backtest, live);
+
+    expect(report.matches.map(m => m.backtest.date.getDate())).toEqual([2, 3, 4]);
+    expect(report.missing.map(d => d.date.getDate())).toEqual([5]);
+    expect(report.extra.map(d => d.type)).toEqual(['sell']);
+    expect(report.volumeRatio).toBeCloseTo(0.1);
+  });
+
+  it('measures delay, slippage and the profit difference at the live volume', () => {
+    const [first] = analyzeDivergence(backtest, live).matches;
+
+    expect(first.entryDelay).toBe(5);
+    expect(first.entrySlippage).toBeCloseTo(0.0002);
+    expect(first.exitSlippage).toBeCloseTo(0.0002);
+    expect(first.scaledBacktestProfit).toBeCloseTo(10);
+    expect(first.profitDifference).toBeCloseTo(-1);
+  });
+
+  it('accumulates both sides over the period the live account covers', () => {
+    const { curve } = analyzeDivergence(backtest, live);
+
+    expect(curve[0]).toEqual({ time: new Date(2024, 0, 2, 10, 5).getTime(), backtest: 0, live: 0, divergence: 0 });
+    expect(curve.at(-1)).toMatchObject({ backtest: expect.closeTo(10), live: expect.closeTo(16), divergence: expect.closeTo(6) });
+  });
+
+  it('finds no reason to doubt live results drawn from the backtest distribution', () => {
+    const same = [10, 20, 30, 40, 50, 60].map((profit, i) => trade(i + 2, profit, 1));
+    const test = analyzeDivergence(same, same).test;
+
+    expect(test).toMatchObject({ liveTrades: 6, ksStatistic: 0, ksPValue: 1, consistent: true });
+  });
+
+  it('flags live results that fall outside the backtest distribution', () => {
+    const expected = [10, 20, 30, 40, 50, 60].map((profit, i) => trade(i + 2, profit, 1));
+    const losing = [-100, -90, -80, -70, -60].map((profit, i) => trade(i + 2, profit, 1));
+    const test = analyzeDivergence(expected, losing).test;
+
+    expect(test).toMatchObject({ ksStatistic: 1, percentile: 0, consistent: false });
+    expect(test?.ksPValue).toBeLessThan(0.01);
+  });
+
+  it('skips the distribution test without enough trades', () => {
+    expect(analyzeDivergence(backtest.slice(0, 4), live).test).toBeNull();
+    expect(analyzeDivergence(backtest, [])).toMatchObject({ matches: [], curve: [], test: null });
+  });
+});
+
+describe('readLiveTrades', () => {
+  it('reads a trades CSV with its columns guessed from the header', () => {
+    const result = readLiveTrades({ name: 'live.csv', content: 'Time,Type,Volume,Profit\n2024.01.02 12:00:00,buy,0.1,9\n2024.01.03 12:00:00,sell,0.1,-6' });
+
+    expect(result.data.filter(d => d.volume > 0).map(d => [d.type, d.profit])).toEqual([['buy', 9], ['sell', -6]]);
+  });
+
+  it('names the columns a CSV is missing', () => {
+    expect(() => readLiveTrades({ name: 'live.csv', content: 'Time,Type,Volume\n2024.01.02 12:00:00,buy,0.1' }))
+      .toThrow('live.csv has no column for: Profit.');
+  });
+});
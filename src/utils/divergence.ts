@@ -0,0 +1,225 @@
+import { processData, type DataPoint, type ParsedResult } from './parser';
+import { MAPPED_FIELDS, createTableImport, importTable, parseCSV } from './csv';
+import { createRandom } from './monteCarlo';
+import { type ImportFile } from './importers';
+
+const MINUTE = 60 * 1000;
+const BOOTSTRAP_RUNS = 2000;
+
+export interface DivergenceSettings {
+  windowMinutes: number; // how far apart a live and a backtest entry may be and still match
+  seed: number;
+}
+
+export const DEFAULT_DIVERGENCE_SETTINGS: DivergenceSettings = { windowMinutes: 30, seed: 1 };
+
+export interface TradeMatch {
+  backtest: DataPoint;
+  live: DataPoint;
+  entryDelay: number; // minutes the live entry came after the backtest's
+  entrySlippage: number | null; // in price, positive when the live fill was worse
+  exitSlippage: number | null;
+  scaledBacktestProfit: number; // the backtest result at the live volume
+  profitDifference: number; // live minus the scaled backtest result
+}
+
+export interface DivergencePoint {
+  time: number; // epoch milliseconds
+  backtest: number; // cumulative P&L, scaled to the live volume
+  live: number;
+  divergence: number; // live minus backtest
+}
+
+export interface DistributionTest {
+  liveTrades: number;
+  liveMean: number; // per-lot P&L
+  backtestMean: number;
+  percentile: number; // where the live total falls among bootstrapped backtest totals of as many trades
+  ksStatistic: number;
+  ksPValue: number;
+  consistent: boolean;
+}
+
+export interface DivergenceReport {
+  matches: TradeMatch[];
+  missing: DataPoint[]; // backtest trades inside the live period the account never took
+  extra: DataPoint[]; // live trades without a backtest counterpart
+  volumeRatio: number; // median live / backtest volume of the matched trades
+  curve: DivergencePoint[];
+  test: DistributionTest | null;
+}
+
+const isTrade = (d: DataPoint) => d.volume > 0 && (d.type === 'buy' || d.type === 'sell');
+const openedAt = (d: DataPoint) => d.entryDate ?? d.date;
+
+// Broker suffixes differ between accounts ("EURUSD" against "EURUSD.r"), so one name may extend the other
+const sameSymbol = (a?: string, b?: string) => {
+  if (!a || !b) return true;
+  const [x, y] = [a, b].map(s => s.toUpperCase().replace(/[^A-Z0-9]/g, ''));
+  return x.startsWith(y) || y.startsWith(x);
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+/**
+ * Reads the live side: an MT5 account statement through the report parser, or a plain trades CSV
+ * with its columns guessed from the header.
+ */
+export const readLiveTrades = (file: ImportFile): ParsedResult => {
+  if (/<html|<table/i.test(file.content.slice(0, 4096))) return processData(file.content);
+
+  const table = createTableImport('csv', parseCSV(file.content));
+  const missing = MAPPED_FIELDS.filter(f => f.required && table.mapping[f.field] === -1).map(f => f.label);
+  if (missing.length > 0) throw new Error(`${file.name} has no column for: ${missing.join(', ')}.`);
+  return importTable(table);
+};
+
+/**
+ * Kolmogorov distribution tail Q(lambda), as in Numerical Recipes' probks. Near lambda = 0 the series
+ * does not converge in its 100 terms; the p-value there is 1.
+ */
+const ksProbability = (lambda: number) => {
+  let sign = 1;
+  let sum = 0;
+  let previous = 0;
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * sign * Math.exp(-2 * k * k * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) <= 1e-3 * previous || Math.abs(term) <= 1e-8 * sum) return Math.min(1, Math.max(0, sum));
+    sign = -sign;
+    previous = Math.abs(term);
+  }
+  return 1;
+};
+
+// Two-sample Kolmogorov-Smirnov statistic with its asymptotic p-value
+const kolmogorovSmirnov = (a: number[], b: number[]) => {
+  const x = [...a].sort((p, q) => p - q);
+  const y = [...b].sort((p, q) => p - q);
+  let i = 0;
+  let j = 0;
+  let d = 0;
+  while (i < x.length && j < y.length) {
+    const value = Math.min(x[i], y[j]);
+    while (i < x.length && x[i] <= value) i++;
+    while (j < y.length && y[j] <= value) j++;
+    d = Math.max(d, Math.abs(i / x.length - j / y.length));
+  }
+
+  const en = Math.sqrt((x.length * y.length) / (x.length + y.length));
+  const lambda = (en + 0.12 + 0.11 / en) * d;
+  return { statistic: d, pValue: ksProbability(lambda) };
+};
+
+/**
+ * Checks the live per-lot results against the backtest's: the live total is placed among
+ * bootstrapped totals of as many backtest trades, and the two distributions are compared with a KS test.
+ */
+const testDistribution = (backtest: DataPoint[], live: DataPoint[], seed: number): DistributionTest | null => {
+  const expected = backtest.map(d => d.profit / d.volume);
+  const observed = live.map(d => d.profit / d.volume);
+  if (expected.length < 5 || observed.length < 2) return null;
+
+  const random = createRandom(seed);
+  const total = observed.reduce((a, b) => a + b, 0);
+  let below = 0;
+  for (let run = 0; run < BOOTSTRAP_RUNS; run++) {
+    let sum = 0;
+    for (let k = 0; k < observed.length; k++) sum += expected[Math.floor(random() * expected.length)];
+    if (sum <= total) below++;
+  }
+  const percentile = (below / BOOTSTRAP_RUNS) * 100;
+  const ks = kolmogorovSmirnov(expected, observed);
+
+  return {
+    liveTrades: observed.length,
+    liveMean: mean(observed),
+    backtestMean: mean(expected),
+    percentile,
+    ksStatistic: ks.statistic,
+    ksPValue: ks.pValue,
+    consistent: percentile >= 2.5 && percentile <= 97.5 && ks.pValue >= 0.05,
+  };
+};
+
+/**
+ * Pairs live trades with backtest trades of the same direction and symbol whose entries lie within
+ * the window, nearest first, and measures how far the live account drifted from the backtest over
+ * the period both cover. Backtest results are scaled to the live volume.
+ */
+export const analyzeDivergence = (
+  backtestData: DataPoint[],
+  liveData: DataPoint[],
+  settings: DivergenceSettings = DEFAULT_DIVERGENCE_SETTINGS
+): DivergenceReport => {
+  const backtest = backtestData.filter(isTrade);
+  const live = liveData.filter(isTrade).sort((a, b) => openedAt(a).getTime() - openedAt(b).getTime());
+  const window = settings.windowMinutes * MINUTE;
+
+  if (live.length === 0) return { matches: [], missing: [], extra: [], volumeRatio: 1, curve: [], test: null };
+
+  const start = openedAt(live[0]).getTime() - window;
+  const end = Math.max(...live.map(d => d.date.getTime())) + window;
+  const inPeriod = backtest.filter(d => openedAt(d).getTime() >= start && openedAt(d).getTime() <= end);
+
+  const taken = new Set<DataPoint>();
+  const matches: { backtest: DataPoint; live: DataPoint }[] = [];
+  const extra: DataPoint[] = [];
+  live.forEach(l => {
+    const entry = openedAt(l).getTime();
+    let best: DataPoint | null = null;
+    inPeriod.forEach(b => {
+      if (taken.has(b) || b.type !== l.type || !sameSymbol(b.symbol, l.symbol)) return;
+      const gap = Math.abs(openedAt(b).getTime() - entry);
+      if (gap <= window && (!best || gap < Math.abs(openedAt(best).getTime() - entry))) best = b;
+    });
+    if (best) {
+      taken.add(best);
+      matches.push({ backtest: best, live: l });
+    } else {
+      extra.push(l);
+    }
+  });
+  const missing = inPeriod.filter(b => !taken.has(b));
+
+  const volumeRatio = median(matches.map(m => m.live.volume / m.backtest.volume)) || mean(live.map(d => d.volume)) / (mean(backtest.map(d => d.volume)) || 1);
+  const matchRatio = new Map(matches.map(m => [m.backtest, m.live.volume / m.backtest.volume]));
+  const scaled = (b: DataPoint) => b.profit * (matchRatio.get(b) ?? volumeRatio);
+
+  const tradeMatches: TradeMatch[] = matches.map(({ backtest: b, live: l }) => {
+    const sign = l.type === 'buy' ? 1 : -1;
+    const price = (x?: number, y?: number) => (x !== undefined && y !== undefined && x > 0 && y > 0 ? (x - y) * sign : null);
+    return {
+      backtest: b,
+      live: l,
+      entryDelay: (openedAt(l).getTime() - openedAt(b).getTime()) / MINUTE,
+      entrySlippage: price(l.entryPrice, b.entryPrice),
+      exitSlippage: price(b.price, l.price),
+      scaledBacktestProfit: scaled(b),
+      profitDifference: l.profit - scaled(b),
+    };
+  });
+
+  // Both sides accumulate in close order over the shared period
+  const events = [
+    ...inPeriod.map(d => ({ time: d.date.getTime(), backtest: scaled(d), live: 0 })),
+    ...live.map(d => ({ time: d.date.getTime(), backtest: 0, live: d.profit })),
+  ].sort((a, b) => a.time - b.time);
+  let cumulativeBacktest = 0;
+  let cumulativeLive = 0;
+  const curve: DivergencePoint[] = [{ time: start + window, backtest: 0, live: 0, divergence: 0 }];
+  events.forEach(e => {
+    cumulativeBacktest += e.backtest;
+    cumulativeLive += e.live;
+    curve.push({ time: e.time, backtest: cumulativeBacktest, live: cumulativeLive, divergence: cumulativeLive - cumulativeBacktest });
+  });
+
+  return { matches: tradeMatches, missing, extra, volumeRatio, curve, test: testDistribution(backtest, live, settings.seed) };
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDrawdowns, buildUnderwaterCurve } from './drawdowns';
+import { buildEquityCurve } from './equity';
+import { day, history, report } from './testFixtures';
+
+describe('analyzeDrawdowns', () => {
+  it('runs each episode from a high until the balance regains it, deepest first', () => {
+    const analysis = analyzeDrawdowns(report(), 1000);
+
+    expect(analysis.count).toBe(2);
+    expect(analysis.longestUnderwater).toBe(16);
+    expect(analysis.episodes).toEqual([
+      // The top-up on day 10 raised the high to 1630 before the loss
+      { peakDate: day(4), troughDate: day(11), recoveryDate: null, depth: 200, depthPct: (200 / 1630) * 100, duration: 16, timeToRecover: null },
+      { peakDate: day(2), troughDate: day(3), recoveryDate: day(4), depth: 50, depthPct: (50 / 1100) * 100, duration: 2, timeToRecover: 1 },
+    ]);
+  });
+
+  it('does not count a withdrawal as a drawdown', () => {
+    expect(analyzeDrawdowns(history([[1, 1000, 0], [2, 100], [3, -300, 0], [4, 50]]), 1000).count).toBe(0);
+  });
+
+  it('moves the trough of an open drawdown by a withdrawal inside it', () => {
+    const [episode] = analyzeDrawdowns(history([[1, 1000, 0], [2, -100], [3, -300, 0], [4, 50]]), 1000).episodes;
+
+    expect(episode).toMatchObject({ depth: 100, troughDate: day(2), recoveryDate: null });
+  });
+
+  it('keeps only the deepest episodes', () => {
+    expect(analyzeDrawdowns(report(), 1000, 1).episodes.map(e => e.depth)).toEqual([200]);
+    expect(analyzeDrawdowns([], 1000)).toEqual({ episodes: [], longestUnderwater: 0, count: 0 });
+  });
+});
+
+describe('buildUnderwaterCurve', () => {
+  it('measures every point under the running high, raised by the top-up', () => {
+    const underwater = buildUnderwaterCurve(buildEquityCurve(report(), 1000));
+
+    expect(underwater.map(p => Number(p.drawdown.toFixed(2)))).toEqual([0, 0, 0, 0, -4.55, -4.55, 0, 0, 0, -12.27, -12.27, -6.13, -6.13, -2.45]);
+  });
+});
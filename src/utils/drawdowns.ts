@@ -0,0 +1,89 @@
+import { type DataPoint } from './parser';
+import { startingBalance, type OpeningBalance } from './balance';
+import { type EquityPoint } from './equity';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface UnderwaterPoint {
+  time: string;
+  drawdown: number; // % below the highest balance so far, zero or negative
+}
+
+export interface DrawdownEpisode {
+  peakDate: Date;
+  troughDate: Date;
+  recoveryDate: Date | null; // null while the balance is still below the peak
+  depth: number; // money lost from the peak to the trough
+  depthPct: number; // the same, in % of the peak balance
+  duration: number; // days from the peak to the recovery, or to the end of the report
+  timeToRecover: number | null; // days from the trough back to the peak
+}
+
+export interface DrawdownAnalysis {
+  episodes: DrawdownEpisode[]; // deepest first
+  longestUnderwater: number; // days, the longest stretch spent below a prior high
+  count: number;
+}
+
+/**
+ * Drawdown in % under the running balance high, point for point with the equity curve
+ * so both charts share one x axis. Deposits and withdrawals move the high with them.
+ */
+export const buildUnderwaterCurve = (curve: EquityPoint[]): UnderwaterPoint[] => {
+  let peak = 0;
+  return curve.map(p => {
+    peak = Math.max(peak + (p.flow ?? 0), p.balance);
+    return { time: p.time, drawdown: peak > 0 ? ((p.balance - peak) / peak) * 100 : 0 };
+  });
+};
+
+/**
+ * Splits the balance history into drawdown episodes, each running from a high until the balance
+ * regains it. Returns the deepest `top` episodes by percent. Only trades start or end an episode:
+ * a deposit or withdrawal moves the high and the low by its amount.
+ */
+export const analyzeDrawdowns = (data: DataPoint[], initialDeposit: OpeningBalance, top = 5): DrawdownAnalysis => {
+  const episodes: DrawdownEpisode[] = [];
+  if (data.length === 0) return { episodes, longestUnderwater: 0, count: 0 };
+
+  let peak = startingBalance(data, initialDeposit);
+  let peakDate = data[0].date;
+  let open: { trough: number; troughDate: Date } | null = null;
+
+  const close = (recoveryDate: Date | null, end: Date) => {
+    if (!open) return;
+    const depth = peak - open.trough;
+    episodes.push({
+      peakDate,
+      troughDate: open.troughDate,
+      recoveryDate,
+      depth,
+      depthPct: peak > 0 ? (depth / peak) * 100 : 0,
+      duration: (end.getTime() - peakDate.getTime()) / DAY,
+      timeToRecover: recoveryDate ? (recoveryDate.getTime() - open.troughDate.getTime()) / DAY : null,
+    });
+    open = null;
+  };
+
+  data.forEach(d => {
+    if (d.volume === 0) {
+      peak += d.profit;
+      if (open) open.trough += d.profit;
+      return;
+    }
+    if (d.balance >= peak) {
+      close(d.date, d.date);
+      peak = d.balance;
+      peakDate = d.date;
+    } else if (!open || d.balance < open.trough) {
+      open = { trough: d.balance, troughDate: d.date };
+    }
+  });
+  close(null, data[data.length - 1].date);
+
+  return {
+    episodes: [...episodes].sort((a, b) => b.depthPct - a.depthPct).slice(0, top),
+    longestUnderwater: Math.max(0, ...episodes.map(e => e.duration)),
+    count: episodes.length,
+  };
+};
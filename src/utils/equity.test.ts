@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { type Position } from './positions';
+import { buildEquityCurve, buildGrowthCurve, estimateExcursions } from './equity';
+import { calculateStats } from './statistics';
+import { day, history, report, row } from './testFixtures';
+
+const position = (fields: Partial<Position>): Position => ({
+  symbol: 'EURUSD', direction: 'buy', volume: 1, entryTime: '', exitTime: '', entryDate: day(1), exitDate: day(2),
+  entryPrice: 1.1, exitPrice: 1.11, holdingTime: 0, rawProfit: 1000, commission: 0, swap: 0, profit: 1000, balance: 0,
+  ...fields,
+});
+
+describe('estimateExcursions', () => {
+  it('keeps excursions the report gave', () => {
+    const [p] = estimateExcursions([position({ mae: -120, mfe: 1500 })]);
+
+    expect(p).toMatchObject({ mae: -120, mfe: 1500 });
+    expect(p.excursionEstimated).toBeUndefined();
+  });
+
+  it('takes the adverse excursion at the stop loss when one was set', () => {
+    // 1000 for 0.0100 in favour is 1000 per 0.01; the stop sat 0.0050 below the entry
+    const [p] = estimateExcursions([position({ stopLoss: 1.095, commission: -6, profit: 994 })]);
+
+    expect(p.mae).toBeCloseTo(-506);
+    expect(p).toMatchObject({ mfe: 994, excursionEstimated: true });
+  });
+
+  it('falls back to the realised loss without a stop', () => {
+    const [p] = estimateExcursions([position({ exitPrice: 1.09, rawProfit: -1000, profit: -1000 })]);
+
+    expect(p).toMatchObject({ mae: -1000, mfe: 0 });
+  });
+});
+
+describe('buildEquityCurve', () => {
+  it('adds the low-water equity of each trade ahead of its closing balance', () => {
+    const curve = buildEquityCurve([row(1, 1000, 1000, 0), row(2, 100, 1100, 1, { mae: -40 })], 1000);
+
+    expect(curve).toEqual([
+      { time: '2024.01.01 12:00:00', balance: 1000, equity: 1000, flow: 1000 },
+      { time: '2024.01.02 12:00:00', balance: 1000, equity: 960 },
+      { time: '2024.01.02 12:00:00', balance: 1100, equity: 1100 },
+    ]);
+  });
+});
+
+describe('equity drawdown', () => {
+  it('measures the deepest open loss below the equity high', () => {
+    const data = history([[1, 1000, 0], [2, 200], [3, 50]]);
+    data[1].mae = -300;
+    data[2].mae = -20;
+    const metrics = calculateStats(data, 1000);
+
+    expect(metrics.equityDDMax).toBe(300);
+    expect(metrics.equityDDMaxPct).toBeCloseTo(30);
+    expect(metrics.avgMAE).toBe(-160);
+  });
+});
+
+describe('buildGrowthCurve', () => {
+  it('tracks the trading result in % of the initial deposit, leaving the top-up out', () => {
+    const curve = buildGrowthCurve(report(), 1000);
+
+    expect(curve.map(p => Math.round(p.growth))).toEqual([10, 5, 13, -7, 3, 9]);
+    expect(curve[0].time).toBe(day(2).getTime());
+  });
+
+  it('takes the base from the balance before the first trade without a deposit', () => {
+    expect(buildGrowthCurve(history([[1, 100], [2, 100]], 500), 0).map(p => p.growth)).toEqual([20, 40]);
+  });
+});
@@ -0,0 +1,81 @@
+import { type DataPoint } from './parser';
+import { startingBalance, type OpeningBalance } from './balance';
+import { type Position } from './positions';
+
+export interface EquityPoint {
+  time: string;
+  balance: number;
+  equity: number;
+  flow?: number; // the deposit or withdrawal made at this point
+}
+
+// Money gained per unit of price movement in the position's favour, from its realised result
+const moneyPerPrice = (p: Position) => {
+  const move = (p.exitPrice - p.entryPrice) * (p.direction === 'buy' ? 1 : -1);
+  return move !== 0 && p.entryPrice > 0 ? p.rawProfit / move : null;
+};
+
+/**
+ * Fills MAE / MFE for positions the report gave no excursion data for.
+ * Without ticks the adverse excursion is taken at its worst case: the S/L distance when one was set
+ * (the trade could not have gone further without closing), otherwise the realised loss.
+ * The favourable excursion is at least the realised gain.
+ */
+export const estimateExcursions = (positions: Position[]): Position[] =>
+  positions.map(p => {
+    if (p.mae !== undefined && p.mfe !== undefined) return p;
+
+    const costs = p.commission + p.swap;
+    let mae = Math.min(0, p.profit);
+    const perPrice = moneyPerPrice(p);
+    if (perPrice !== null && perPrice > 0 && p.stopLoss) {
+      const stopMove = p.direction === 'buy' ? p.stopLoss - p.entryPrice : p.entryPrice - p.stopLoss;
+      if (stopMove < 0) mae = Math.min(mae, stopMove * perPrice + costs);
+    }
+
+    return { ...p, mae: p.mae ?? mae, mfe: p.mfe ?? Math.max(0, p.profit), excursionEstimated: true };
+  });
+
+/**
+ * Balance and equity curve for charting: each trade adds its low-water equity point
+ * (balance before the trade plus its MAE) ahead of the closing balance.
+ */
+export const buildEquityCurve = (data: DataPoint[], initialDeposit: OpeningBalance): EquityPoint[] => {
+  const curve: EquityPoint[] = [];
+  let previous = startingBalance(data, initialDeposit);
+
+  data.forEach(d => {
+    if (d.volume > 0) {
+      const mae = Math.min(0, d.mae ?? d.profit);
+      curve.push({ time: d.time, balance: previous, equity: previous + mae });
+    }
+    const point: EquityPoint = { time: d.time, balance: d.balance, equity: d.balance };
+    if (d.volume === 0) point.flow = d.profit;
+    curve.push(point);
+    previous = d.balance;
+  });
+
+  return curve;
+};
+
+export interface GrowthPoint {
+  time: number; // epoch milliseconds, so curves of different reports share one time axis
+  growth: number; // cumulative trading result in % of the initial deposit
+}
+
+/**
+ * Trading growth for overlaying reports of different sizes. Deposits and withdrawals are left out,
+ * so only the trades move the curve.
+ */
+export const buildGrowthCurve = (data: DataPoint[], initialDeposit: number): GrowthPoint[] => {
+  const first = data.find(d => d.volume > 0);
+  const base = initialDeposit || (first ? first.balance - first.profit : 0) || 1;
+  let profit = 0;
+
+  return data
+    .filter(d => d.volume > 0)
+    .map(d => {
+      profit += d.profit;
+      return { time: d.date.getTime(), growth: (profit / base) * 100 };
+    });
+};
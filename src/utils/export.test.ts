@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { exportDeals, exportMetrics, exportReturns } from './export';
+import { EMPTY_METRICS } from './metrics';
+import { calculateReturnTables } from './returns';
+import { history, row } from './testFixtures';
+
+describe('exportDeals', () => {
+  const deals = [
+    row(1, 1000, 1000, 0, { deal: '1' }),
+    row(2, -50, 950, 1, { deal: '2', symbol: 'EURUSD', comment: '=HYPERLINK("http://x")' }),
+    row(3, 20, 970, 1, { deal: '3', symbol: 'GER40,cash', comment: '-sl 1.2' }),
+  ];
+
+  it('quotes delimiters and neutralises cells that would run as spreadsheet formulas', () => {
+    const [header, ...lines] = exportDeals(deals, 'csv').split('\r\n');
+
+    expect(header).toBe('Time,Deal,Order,Position,Symbol,Type,Direction,Volume,Price,Commission,Swap,Profit,Balance,Comment');
+    expect(lines).toEqual([
+      '2024.01.01 12:00:00,1,,,,balance,,0,,,,1000,1000,',
+      `2024.01.02 12:00:00,2,,,EURUSD,buy,,1,,,,-50,950,"'=HYPERLINK(""http://x"")"`,
+      `2024.01.03 12:00:00,3,,,"GER40,cash",buy,,1,,,,20,970,'-sl 1.2`,
+    ]);
+  });
+
+  it('keeps only the deal columns in JSON', () => {
+    const [first] = JSON.parse(exportDeals(deals, 'json'));
+
+    expect(first).toEqual({ time: '2024.01.01 12:00:00', deal: '1', type: 'balance', volume: 0, profit: 1000, balance: 1000 });
+  });
+});
+
+describe('exportMetrics', () => {
+  it('lists the period ahead of every metric', () => {
+    const lines = exportMetrics({ ...EMPTY_METRICS, period: 'H1 (2024.01.01 - 2024.01.31)', netProfit: 125.5 }, 'csv').split('\r\n');
+
+    expect(lines.slice(0, 3)).toEqual(['Metric,Value', 'Period,H1 (2024.01.01 - 2024.01.31)', 'Total Net Profit,125.5']);
+  });
+});
+
+describe('exportReturns', () => {
+  it('numbers the months from 1 and follows them with the years', () => {
+    const tables = calculateReturnTables(history([[1, 1000, 0], [2, 100], [3, -50]]), 1000);
+
+    expect(exportReturns(tables, 'csv').split('\r\n')).toEqual([
+      'Period,Year,Month,Profit,Trades,Start Balance,Return %',
+      'month,2024,1,50,2,1000,5',
+      'year,2024,,50,2,1000,5',
+    ]);
+  });
+});
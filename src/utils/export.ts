@@ -0,0 +1,98 @@
+import { type DataPoint } from './parser';
+import { METRIC_FIELDS, type Metrics } from './metrics';
+import { type ReturnTables } from './returns';
+import { type SimulatedDataPoint } from './sizing';
+
+export type ExportFormat = 'csv' | 'json';
+
+interface Column<T> {
+  key: keyof T;
+  label: string;
+}
+
+const DEAL_COLUMNS: Column<DataPoint>[] = [
+  { key: 'time', label: 'Time' },
+  { key: 'deal', label: 'Deal' },
+  { key: 'order', label: 'Order' },
+  { key: 'positionId', label: 'Position' },
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'type', label: 'Type' },
+  { key: 'entry', label: 'Direction' },
+  { key: 'volume', label: 'Volume' },
+  { key: 'price', label: 'Price' },
+  { key: 'commission', label: 'Commission' },
+  { key: 'swap', label: 'Swap' },
+  { key: 'profit', label: 'Profit' },
+  { key: 'balance', label: 'Balance' },
+  { key: 'comment', label: 'Comment' },
+];
+
+const SIMULATION_COLUMNS: Column<SimulatedDataPoint>[] = [
+  { key: 'time', label: 'Time' },
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'type', label: 'Type' },
+  { key: 'volume', label: 'Original Volume' },
+  { key: 'profit', label: 'Original Profit' },
+  { key: 'balance', label: 'Original Balance' },
+  { key: 'simulatedVolume', label: 'Simulated Volume' },
+  { key: 'simulatedProfit', label: 'Simulated Profit' },
+  { key: 'simulatedBalance', label: 'Simulated Balance' },
+];
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Imported text (symbols, comments) starting like a formula would run in a spreadsheet; numbers stay numbers
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCSV = <T>(rows: T[], columns: Column<T>[]) =>
+  [columns.map(c => csvCell(c.label)).join(','), ...rows.map(row => columns.map(c => csvCell(row[c.key])).join(','))].join('\r\n');
+
+const toJSON = (value: unknown) => JSON.stringify(value, null, 2);
+
+export const exportDeals = (deals: DataPoint[], format: ExportFormat) =>
+  format === 'csv' ? toCSV(deals, DEAL_COLUMNS) : toJSON(deals.map(d => Object.fromEntries(DEAL_COLUMNS.map(c => [c.key, d[c.key]]))));
+
+export const exportMetrics = (metrics: Metrics, format: ExportFormat) => {
+  if (format === 'json') return toJSON(metrics);
+  const rows = [
+    { metric: 'Period', value: metrics.period },
+    ...METRIC_FIELDS.map(f => ({ metric: f.label, value: metrics[f.key] })),
+  ];
+  return toCSV(rows, [{ key: 'metric', label: 'Metric' }, { key: 'value', label: 'Value' }]);
+};
+
+export const exportReturns = (tables: ReturnTables, format: ExportFormat) => {
+  if (format === 'json') return toJSON(tables);
+  const rows = [
+    ...tables.monthly.map(r => ({ ...r, period: 'month', month: (r.month ?? 0) + 1 })),
+    ...tables.yearly.map(r => ({ ...r, period: 'year' })),
+  ];
+  return toCSV(rows, [
+    { key: 'period', label: 'Period' },
+    { key: 'year', label: 'Year' },
+    { key: 'month', label: 'Month' },
+    { key: 'profit', label: 'Profit' },
+    { key: 'trades', label: 'Trades' },
+    { key: 'startBalance', label: 'Start Balance' },
+    { key: 'percent', label: 'Return %' },
+  ]);
+};
+
+export const exportSimulation = (data: SimulatedDataPoint[], format: ExportFormat) =>
+  format === 'csv' ? toCSV(data, SIMULATION_COLUMNS) : toJSON(data.map(d => Object.fromEntries(SIMULATION_COLUMNS.map(c => [c.key, d[c.key]]))));
+
+// Firefox and Safari start the download after click() returns, so the URL has to outlive it
+const REVOKE_DELAY = 10000;
+
+export const downloadFile = (fileName: string, content: string, format: ExportFormat | 'html') => {
+  const mime = { csv: 'text/csv', json: 'application/json', html: 'text/html' }[format];
+  const url = URL.createObjectURL(new Blob([content], { type: `${mime};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+};
@@ -0,0 +1,71 @@
+import { type MetricKind, type Metrics } from './metrics';
+
+export const formatMoney = (value: number) => value.toFixed(2);
+
+export const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+// Days as "12.5 d", falling back to hours under a day
+export const formatDuration = (days: number) => (days >= 1 ? `${days.toFixed(1)} d` : `${(days * 24).toFixed(1)} h`);
+
+export const formatMetricValue = (value: number | undefined, kind: MetricKind) => {
+  if (value === undefined) return '—';
+  if (kind === 'percent') return formatPercent(value);
+  if (kind === 'count') return Number.isInteger(value) ? value.toString() : value.toFixed(1);
+  return value.toFixed(2);
+};
+
+// Heatmap shading: green for gains and red for losses, stronger with the size of the move
+export const returnColor = (value: number, scale: number) => {
+  const strength = scale > 0 ? Math.min(1, Math.abs(value) / scale) : 0;
+  const alpha = (0.12 + strength * 0.6).toFixed(2);
+  return value >= 0 ? `rgba(16, 185, 129, ${alpha})` : `rgba(244, 63, 94, ${alpha})`;
+};
+
+const share = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+
+/**
+ * Display strings for the Statistics and Dashboard cards, in the layout MT5 prints them.
+ */
+export const formatMetrics = (m: Metrics) => {
+  const est = m.equityEstimated ? ' est.' : '';
+
+  return {
+    totalNetProfit: formatMoney(m.netProfit),
+    grossProfit: formatMoney(m.grossProfit),
+    grossLoss: formatMoney(m.grossLoss),
+    profitFactor: m.profitFactor.toFixed(2),
+    expectedPayoff: formatMoney(m.expectedPayoff),
+    sharpeRatio: m.sharpeRatio.toFixed(2),
+    recoveryFactor: m.recoveryFactor.toFixed(2),
+
+    balanceDDMax: `${formatMoney(m.balanceDDMax)} (${formatPercent(m.balanceDDMaxPct)})`,
+    balanceDDRel: `${formatPercent(m.balanceDDRelPct)} (${formatMoney(m.balanceDDRel)})`,
+    equityDDMax: `${formatMoney(m.equityDDMax)} (${formatPercent(m.equityDDMaxPct)})${est}`,
+    equityDDRel: `${formatPercent(m.equityDDRelPct)} (${formatMoney(m.equityDDRel)})${est}`,
+
+    totalTrades: m.totalTrades.toString(),
+    shortTrades: `${m.shortTrades} (${formatPercent(m.shortWinRate)})`,
+    longTrades: `${m.longTrades} (${formatPercent(m.longWinRate)})`,
+    profitTrades: `${m.profitTrades} (${formatPercent(share(m.profitTrades, m.totalTrades))})`,
+    lossTrades: `${m.lossTrades} (${formatPercent(share(m.lossTrades, m.totalTrades))})`,
+
+    largestProfit: formatMoney(m.largestProfit),
+    largestLoss: formatMoney(m.largestLoss),
+    avgProfit: formatMoney(m.avgProfit),
+    avgLoss: formatMoney(m.avgLoss),
+    avgMAE: formatMoney(m.avgMAE),
+    avgMFE: formatMoney(m.avgMFE),
+
+    maxConsecWins: `${m.maxConsecWins} (${formatMoney(m.maxConsecWinsProfit)})`,
+    maxConsecLosses: `${m.maxConsecLosses} (${formatMoney(m.maxConsecLossesLoss)})`,
+    maxConsecProfit: `${formatMoney(m.maxConsecProfit)} (${m.maxConsecProfitCount})`,
+    maxConsecLoss: `${formatMoney(m.maxConsecLoss)} (${m.maxConsecLossCount})`,
+    avgConsecWins: formatMetricValue(m.avgConsecWins, 'count'),
+    avgConsecLosses: formatMetricValue(m.avgConsecLosses, 'count'),
+    medianConsecWins: formatMetricValue(m.medianConsecWins, 'count'),
+    medianConsecLosses: formatMetricValue(m.medianConsecLosses, 'count'),
+
+    fixedLotSize: m.fixedLotSize?.toString(),
+    period: m.period,
+  };
+};
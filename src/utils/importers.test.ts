@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { findImporter } from './importers';
+
+const label = (name: string, content: string) => findImporter({ name, content })?.label;
+
+describe('findImporter', () => {
+  it('recognises histories by their headers', () => {
+    expect(label('trades.csv', 'Trade #,Type,Signal,Date/Time,Price USD')).toBe('TradingView List of Trades (CSV)');
+    expect(label('history.csv', 'Symbol,Opening Direction,Closing Time,Net $')).toBe('cTrader History (CSV)');
+    expect(label('report.html', '<html><table><tr><td>Deals</td></tr></table></html>')).toBe('MetaTrader Tester Report or Account Statement (HTML)');
+  });
+
+  it('leaves the generic CSV importer to delimited text', () => {
+    expect(label('export', 'Time;Type;Volume;Profit\n2024.01.02;buy;1;50')).toBe('Generic CSV');
+    expect(label('settings.xml', '<?xml version="1.0"?><settings><lot>1</lot></settings>')).toBeUndefined();
+  });
+});
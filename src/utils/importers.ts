@@ -0,0 +1,84 @@
+import { processData, type ParsedResult, type ReportFormat } from './parser';
+import { createTableImport, parseCSV, type TableImport } from './csv';
+import { extractTable } from './tables';
+import { isOptimizationReport, parseOptimization, type OptimizationResult } from './optimization';
+
+export interface ImportFile {
+  name: string;
+  content: string;
+}
+
+export interface Importer {
+  format: ReportFormat;
+  label: string;
+  detect: (file: ImportFile) => boolean;
+  // Tabular histories return a TableImport so the user can confirm the column mapping first,
+  // optimisation exports their passes rather than trades
+  parse: (file: ImportFile) => ParsedResult | TableImport | OptimizationResult;
+}
+
+const extension = (file: ImportFile) => file.name.toLowerCase().split('.').pop() || '';
+const isHtml = (file: ImportFile) => ['htm', 'html'].includes(extension(file)) || /<html|<table/i.test(file.content.slice(0, 4096));
+const csvHeader = (file: ImportFile) => (parseCSV(file.content.split(/\r?\n/, 1)[0])[0] ?? []).map(h => h.toLowerCase());
+// Text whose first line splits into several columns, for CSV exports saved without a CSV extension
+const isDelimited = (file: ImportFile) => !/^\s*</.test(file.content) && csvHeader(file).length > 1;
+
+// cTrader history tables list one closed position per row with opening/closing columns
+const isCTraderHeader = (cells: string[]) =>
+  cells.some(c => c.startsWith('opening direction')) && cells.some(c => c.startsWith('closing time'));
+
+const parseHtml = (content: string) => new DOMParser().parseFromString(content, 'text/html');
+
+const importers: Importer[] = [
+  {
+    format: 'mt5',
+    label: 'MetaTrader Optimization Results (XML or HTML)',
+    detect: file => isOptimizationReport(file.content),
+    parse: file => parseOptimization(file.content),
+  },
+  {
+    format: 'ctrader',
+    label: 'cTrader History (HTML)',
+    detect: file => isHtml(file) && /opening direction/i.test(file.content),
+    parse: file => createTableImport('ctrader', extractTable(parseHtml(file.content), isCTraderHeader) ?? []),
+  },
+  {
+    format: 'mt5',
+    label: 'MetaTrader Tester Report or Account Statement (HTML)',
+    detect: isHtml,
+    parse: file => processData(file.content),
+  },
+  {
+    format: 'ctrader',
+    label: 'cTrader History (CSV)',
+    detect: file => isCTraderHeader(csvHeader(file)),
+    parse: file => createTableImport('ctrader', parseCSV(file.content)),
+  },
+  {
+    format: 'tradingview',
+    label: 'TradingView List of Trades (CSV)',
+    detect: file => csvHeader(file).includes('trade #'),
+    parse: file => createTableImport('tradingview', parseCSV(file.content)),
+  },
+  {
+    format: 'csv',
+    label: 'Generic CSV',
+    detect: file => ['csv', 'txt', 'tsv'].includes(extension(file)) || isDelimited(file),
+    parse: file => createTableImport('csv', parseCSV(file.content)),
+  },
+];
+
+/**
+ * Adds an importer ahead of the built-in ones, so more specific formats win the sniffing.
+ */
+export const registerImporter = (importer: Importer) => {
+  importers.unshift(importer);
+};
+
+export const findImporter = (file: ImportFile): Importer | undefined => importers.find(i => i.detect(file));
+
+export const importFile = (file: ImportFile): ParsedResult | TableImport | OptimizationResult => {
+  const importer = findImporter(file);
+  if (!importer) throw new Error(`Unsupported file: ${file.name}`);
+  return importer.parse(file);
+};
@@ -0,0 +1,47 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { deleteFromLibrary, listLibrary, loadFromLibrary, loadSession, renameInLibrary, saveSession, saveToLibrary } from './library';
+import { EMPTY_METRICS } from './metrics';
+import { type ParsedResult } from './parser';
+import { report } from './testFixtures';
+
+const parsed = (): ParsedResult => {
+  const data = report();
+  return {
+    format: 'mt5', kind: 'backtest', data, deals: data, orders: [], positions: [], symbols: ['EURUSD'], initialDeposit: 1000,
+    metrics: { ...EMPTY_METRICS, netProfit: 590, totalTrades: 6, period: 'H1 (2024.01.01 - 2024.01.31)', start: new Date(2024, 0, 1) },
+    diagnostics: [],
+  };
+};
+
+describe('library', () => {
+  it('stores a report and reads it back with its dates', async () => {
+    const entry = await saveToLibrary('a', 'ReportTester.html', '<html></html>', parsed());
+    const loaded = await loadFromLibrary('a');
+
+    expect(entry).toMatchObject({ id: 'a', name: 'ReportTester.html', format: 'mt5', kind: 'backtest', netProfit: 590, totalTrades: 6 });
+    expect(loaded?.entry).toEqual(entry);
+    expect(loaded?.result).toEqual(parsed());
+    expect(loaded?.result.data[1].date).toBeInstanceOf(Date);
+  });
+
+  it('lists the newest report first, renames and deletes', async () => {
+    vi.spyOn(Date, 'now').mockReturnValueOnce(Date.now() + 1000);
+    await saveToLibrary('b', 'Second.html', '', parsed());
+    await renameInLibrary('a', 'First.html');
+
+    expect((await listLibrary()).map(e => [e.id, e.name])).toEqual([['b', 'Second.html'], ['a', 'First.html']]);
+
+    await deleteFromLibrary('b');
+    expect((await listLibrary()).map(e => e.id)).toEqual(['a']);
+    expect(await loadFromLibrary('b')).toBeNull();
+  });
+
+  it('keeps the session under a single key', async () => {
+    expect(await loadSession()).toBeUndefined();
+
+    await saveSession({ order: ['a'], activeId: 'a' });
+    await saveSession({ order: ['a', 'c'], activeId: 'c' });
+    expect(await loadSession()).toEqual({ order: ['a', 'c'], activeId: 'c' });
+  });
+});
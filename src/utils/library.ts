@@ -0,0 +1,129 @@
+import { type ParsedResult, type ReportFormat, type ReportKind } from './parser';
+import { reviveDates, serializeDates, type Serialized } from './serialize';
+
+// What the library lists without loading the reports themselves
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  format: ReportFormat;
+  kind?: ReportKind; // missing on entries saved before statements were recognised
+  importedAt: number; // epoch milliseconds
+  period: string;
+  netProfit: number;
+  totalTrades: number;
+}
+
+interface LibraryPayload {
+  id: string;
+  content: string; // the file as uploaded, so it can be parsed again
+  result: Serialized<ParsedResult>;
+}
+
+const DB_NAME = 'q-audit';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const PAYLOADS = 'payloads';
+const SESSION = 'session';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(ENTRIES, { keyPath: 'id' });
+      db.createObjectStore(PAYLOADS, { keyPath: 'id' });
+      db.createObjectStore(SESSION);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+};
+
+const done = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const committed = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const listLibrary = async (): Promise<LibraryEntry[]> => {
+  const db = await openDatabase();
+  const entries = await done<LibraryEntry[]>(db.transaction(ENTRIES).objectStore(ENTRIES).getAll());
+  return entries.sort((a, b) => b.importedAt - a.importedAt);
+};
+
+export const saveToLibrary = async (id: string, name: string, content: string, result: ParsedResult): Promise<LibraryEntry> => {
+  const entry: LibraryEntry = {
+    id,
+    name,
+    format: result.format,
+    kind: result.kind,
+    importedAt: Date.now(),
+    period: result.metrics.period,
+    netProfit: result.metrics.netProfit,
+    totalTrades: result.metrics.totalTrades,
+  };
+  const payload: LibraryPayload = { id, content, result: serializeDates(result) };
+
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRIES, PAYLOADS], 'readwrite');
+  tx.objectStore(ENTRIES).put(entry);
+  tx.objectStore(PAYLOADS).put(payload);
+  await committed(tx);
+  return entry;
+};
+
+export const loadFromLibrary = async (id: string): Promise<{ entry: LibraryEntry; result: ParsedResult } | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRIES, PAYLOADS]);
+  const [entry, payload] = await Promise.all([
+    done<LibraryEntry | undefined>(tx.objectStore(ENTRIES).get(id)),
+    done<LibraryPayload | undefined>(tx.objectStore(PAYLOADS).get(id)),
+  ]);
+  if (!entry || !payload) return null;
+  const result = reviveDates<ParsedResult>(payload.result);
+  // Reports saved before statements were recognised carry no kind: they were all backtests
+  return { entry, result: { ...result, kind: result.kind ?? 'backtest' } };
+};
+
+export const renameInLibrary = async (id: string, name: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  const entry = await done<LibraryEntry | undefined>(store.get(id));
+  if (entry) store.put({ ...entry, name });
+  await committed(tx);
+};
+
+export const deleteFromLibrary = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRIES, PAYLOADS], 'readwrite');
+  tx.objectStore(ENTRIES).delete(id);
+  tx.objectStore(PAYLOADS).delete(id);
+  await committed(tx);
+};
+
+// UI state restored on reload, kept under a single key
+export const loadSession = async <T>(): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return done<T | undefined>(db.transaction(SESSION).objectStore(SESSION).get('current'));
+};
+
+export const saveSession = async <T>(session: T) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION, 'readwrite');
+  tx.objectStore(SESSION).put(session, 'current');
+  await committed(tx);
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_METRICS, diffMetrics, fromReportMeta } from './metrics';
+import { formatDuration, formatMetricValue } from './format';
+
+describe('fromReportMeta', () => {
+  it('reads both figures of the bracketed MT5 summary values', () => {
+    const m = fromReportMeta({
+      totalNetProfit: '1 234.56',
+      balanceDDMax: '300.00 (2.50%)',
+      balanceDDRel: '3.10% (280.00)',
+      shortTrades: '12 (58.33%)',
+      maxConsecWins$: '5 (420.00)',
+      maxConsecProfitCount: '610.00 (4)',
+      period: 'H1 (2024.01.01 - 2024.06.30)',
+    }, EMPTY_METRICS);
+
+    expect(m).toMatchObject({
+      netProfit: 1234.56,
+      balanceDDMax: 300, balanceDDMaxPct: 2.5, balanceDDRel: 280, balanceDDRelPct: 3.1,
+      shortTrades: 12, shortWinRate: 58.33,
+      maxConsecWins: 5, maxConsecWinsProfit: 420, maxConsecProfit: 610, maxConsecProfitCount: 4,
+    });
+    expect(m.start).toEqual(new Date('2024-01-01'));
+    expect(m.end).toEqual(new Date('2024-06-30'));
+  });
+
+  it('keeps the computed figures the report does not carry', () => {
+    const computed = { ...EMPTY_METRICS, balanceDDMax: 80, avgMAE: -12, equityDDMax: 95, equityEstimated: true };
+    const m = fromReportMeta({ totalNetProfit: '10.00', balanceDDMax: 'n/a' }, computed);
+
+    expect(m).toMatchObject({ netProfit: 10, balanceDDMax: 80, avgMAE: -12, equityDDMax: 95, equityEstimated: true });
+  });
+});
+
+describe('diffMetrics', () => {
+  it('lists every metric with its change from the first set to the second', () => {
+    const diff = diffMetrics({ ...EMPTY_METRICS, netProfit: 100 }, { ...EMPTY_METRICS, netProfit: 250 });
+
+    expect(diff.find(d => d.key === 'netProfit')).toEqual({ key: 'netProfit', label: 'Total Net Profit', kind: 'money', a: 100, b: 250, delta: 150 });
+    expect(diff.some(d => d.key === 'fixedLotSize')).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  it('formats values by their kind', () => {
+    expect(formatMetricValue(12.345, 'percent')).toBe('12.35%');
+    expect(formatMetricValue(3, 'count')).toBe('3');
+    expect(formatMetricValue(2.25, 'count')).toBe('2.3');
+    expect(formatMetricValue(undefined, 'money')).toBe('—');
+    expect(formatDuration(0.5)).toBe('12.0 h');
+    expect(formatDuration(3.25)).toBe('3.3 d');
+  });
+});
@@ -0,0 +1,217 @@
+import { type ReportMeta } from './parser';
+import { parseNumber } from './tables';
+
+/**
+ * One schema for every summary: scraped from a report or computed from trades.
+ * Money values are in account currency, percentages are 0-100, losses are negative.
+ */
+export interface Metrics {
+  // Performance
+  netProfit: number;
+  grossProfit: number;
+  grossLoss: number;
+  profitFactor: number;
+  expectedPayoff: number;
+  sharpeRatio: number;
+  recoveryFactor: number;
+
+  // Drawdowns: "maximal" is the deepest in money, "relative" the deepest in percent
+  balanceDDMax: number;
+  balanceDDMaxPct: number;
+  balanceDDRel: number;
+  balanceDDRelPct: number;
+  equityDDMax: number;
+  equityDDMaxPct: number;
+  equityDDRel: number;
+  equityDDRelPct: number;
+  equityEstimated: boolean; // derived from estimated MAE rather than reported
+
+  // Trades
+  totalTrades: number;
+  shortTrades: number;
+  shortWinRate: number;
+  longTrades: number;
+  longWinRate: number;
+  profitTrades: number;
+  lossTrades: number;
+  largestProfit: number;
+  largestLoss: number;
+  avgProfit: number;
+  avgLoss: number;
+  avgMAE: number;
+  avgMFE: number;
+
+  // Streaks: the longest run with its money, and the costliest run with its length
+  maxConsecWins: number;
+  maxConsecWinsProfit: number;
+  maxConsecLosses: number;
+  maxConsecLossesLoss: number;
+  maxConsecProfit: number;
+  maxConsecProfitCount: number;
+  maxConsecLoss: number;
+  maxConsecLossCount: number;
+  avgConsecWins: number;
+  avgConsecLosses: number;
+  medianConsecWins: number;
+  medianConsecLosses: number;
+
+  fixedLotSize?: number;
+  period: string;
+  start?: Date;
+  end?: Date;
+}
+
+export type NumericMetric = { [K in keyof Metrics]-?: Metrics[K] extends number | undefined ? K : never }[keyof Metrics];
+
+export type MetricKind = 'money' | 'percent' | 'count' | 'ratio' | 'lots';
+
+// Labels and units for listing, diffing and exporting metrics generically.
+// `better` tells which way a metric improves; counts that only reflect activity have none.
+export const METRIC_FIELDS: { key: NumericMetric; label: string; kind: MetricKind; better?: 'higher' | 'lower' }[] = [
+  { key: 'netProfit', label: 'Total Net Profit', kind: 'money', better: 'higher' },
+  { key: 'grossProfit', label: 'Gross Profit', kind: 'money', better: 'higher' },
+  { key: 'grossLoss', label: 'Gross Loss', kind: 'money', better: 'higher' },
+  { key: 'profitFactor', label: 'Profit Factor', kind: 'ratio', better: 'higher' },
+  { key: 'expectedPayoff', label: 'Expected Payoff', kind: 'money', better: 'higher' },
+  { key: 'sharpeRatio', label: 'Sharpe Ratio', kind: 'ratio', better: 'higher' },
+  { key: 'recoveryFactor', label: 'Recovery Factor', kind: 'ratio', better: 'higher' },
+  { key: 'balanceDDMax', label: 'Balance Drawdown Maximal', kind: 'money', better: 'lower' },
+  { key: 'balanceDDMaxPct', label: 'Balance Drawdown Maximal %', kind: 'percent', better: 'lower' },
+  { key: 'balanceDDRelPct', label: 'Balance Drawdown Relative %', kind: 'percent', better: 'lower' },
+  { key: 'equityDDMax', label: 'Equity Drawdown Maximal', kind: 'money', better: 'lower' },
+  { key: 'equityDDMaxPct', label: 'Equity Drawdown Maximal %', kind: 'percent', better: 'lower' },
+  { key: 'equityDDRelPct', label: 'Equity Drawdown Relative %', kind: 'percent', better: 'lower' },
+  { key: 'totalTrades', label: 'Total Trades', kind: 'count' },
+  { key: 'shortTrades', label: 'Short Trades', kind: 'count' },
+  { key: 'shortWinRate', label: 'Short Win Rate', kind: 'percent', better: 'higher' },
+  { key: 'longTrades', label: 'Long Trades', kind: 'count' },
+  { key: 'longWinRate', label: 'Long Win Rate', kind: 'percent', better: 'higher' },
+  { key: 'profitTrades', label: 'Profit Trades', kind: 'count' },
+  { key: 'lossTrades', label: 'Loss Trades', kind: 'count' },
+  { key: 'largestProfit', label: 'Largest Profit Trade', kind: 'money', better: 'higher' },
+  { key: 'largestLoss', label: 'Largest Loss Trade', kind: 'money', better: 'higher' },
+  { key: 'avgProfit', label: 'Average Profit Trade', kind: 'money', better: 'higher' },
+  { key: 'avgLoss', label: 'Average Loss Trade', kind: 'money', better: 'higher' },
+  { key: 'avgMAE', label: 'Average MAE', kind: 'money', better: 'higher' },
+  { key: 'avgMFE', label: 'Average MFE', kind: 'money', better: 'higher' },
+  { key: 'maxConsecWins', label: 'Max Consecutive Wins', kind: 'count', better: 'higher' },
+  { key: 'maxConsecWinsProfit', label: 'Max Consecutive Wins ($)', kind: 'money', better: 'higher' },
+  { key: 'maxConsecLosses', label: 'Max Consecutive Losses', kind: 'count', better: 'lower' },
+  { key: 'maxConsecLossesLoss', label: 'Max Consecutive Losses ($)', kind: 'money', better: 'higher' },
+  { key: 'maxConsecProfit', label: 'Maximal Consecutive Profit', kind: 'money', better: 'higher' },
+  { key: 'maxConsecLoss', label: 'Maximal Consecutive Loss', kind: 'money', better: 'higher' },
+  { key: 'avgConsecWins', label: 'Average Consecutive Wins', kind: 'count', better: 'higher' },
+  { key: 'avgConsecLosses', label: 'Average Consecutive Losses', kind: 'count', better: 'lower' },
+  { key: 'medianConsecWins', label: 'Median Consecutive Wins', kind: 'count', better: 'higher' },
+  { key: 'medianConsecLosses', label: 'Median Consecutive Losses', kind: 'count', better: 'lower' },
+  { key: 'fixedLotSize', label: 'Fixed Lot Size', kind: 'lots' },
+];
+
+export interface MetricDiff {
+  key: NumericMetric;
+  label: string;
+  kind: MetricKind;
+  a: number;
+  b: number;
+  delta: number;
+}
+
+export const diffMetrics = (a: Metrics, b: Metrics): MetricDiff[] =>
+  METRIC_FIELDS.filter(f => a[f.key] !== undefined && b[f.key] !== undefined).map(({ key, label, kind }) => ({
+    key, label, kind, a: a[key] as number, b: b[key] as number, delta: (b[key] as number) - (a[key] as number),
+  }));
+
+// "123.45 (4.56%)", "4.56% (123.45)", "12 (58.33%)": the number outside and the one inside the brackets
+const pair = (text: string | undefined): [number | null, number | null] => {
+  const match = text?.match(/^([^(]*)(?:\(([^)]*)\))?/);
+  if (!match) return [null, null];
+  return [parseNumber(match[1].replace('%', '')), parseNumber(match[2]?.replace('%', ''))];
+};
+
+const parsePeriod = (label: string | undefined) => {
+  const [start, end] = (label?.match(/\d{4}\.\d{2}\.\d{2}/g) ?? []).map(d => new Date(d.replace(/\./g, '-')));
+  return start && end ? { start, end } : {};
+};
+
+/**
+ * Reads a scraped summary into the shared schema. Figures the report does not carry
+ * (MT4 balance drawdowns, MAE, medians) come from the metrics computed from the trades.
+ */
+export const fromReportMeta = (meta: ReportMeta, computed: Metrics): Metrics => {
+  const m: Metrics = { ...computed, equityEstimated: false };
+  const set = (key: NumericMetric, value: number | null) => {
+    if (value !== null) m[key] = value;
+  };
+  const first = (text: string | undefined) => pair(text)[0];
+
+  set('netProfit', first(meta.totalNetProfit));
+  set('grossProfit', first(meta.grossProfit));
+  set('grossLoss', first(meta.grossLoss));
+  set('profitFactor', first(meta.profitFactor));
+  set('expectedPayoff', first(meta.expectedPayoff));
+  set('sharpeRatio', first(meta.sharpeRatio));
+  set('recoveryFactor', first(meta.recoveryFactor));
+
+  const [balanceDDMax, balanceDDMaxPct] = pair(meta.balanceDDMax);
+  const [balanceDDRelPct, balanceDDRel] = pair(meta.balanceDDRel);
+  const [equityDDMax, equityDDMaxPct] = pair(meta.equityDDMax);
+  const [equityDDRelPct, equityDDRel] = pair(meta.equityDDRel);
+  set('balanceDDMax', balanceDDMax);
+  set('balanceDDMaxPct', balanceDDMaxPct);
+  set('balanceDDRel', balanceDDRel);
+  set('balanceDDRelPct', balanceDDRelPct);
+  set('equityDDMax', equityDDMax);
+  set('equityDDMaxPct', equityDDMaxPct);
+  set('equityDDRel', equityDDRel);
+  set('equityDDRelPct', equityDDRelPct);
+  if (equityDDMax === null) m.equityEstimated = computed.equityEstimated;
+
+  const [shortTrades, shortWinRate] = pair(meta.shortTrades);
+  const [longTrades, longWinRate] = pair(meta.longTrades);
+  set('totalTrades', first(meta.totalTrades));
+  set('shortTrades', shortTrades);
+  set('shortWinRate', shortWinRate);
+  set('longTrades', longTrades);
+  set('longWinRate', longWinRate);
+  set('profitTrades', first(meta.profitTrades));
+  set('lossTrades', first(meta.lossTrades));
+  set('largestProfit', first(meta.largestProfit));
+  set('largestLoss', first(meta.largestLoss));
+  set('avgProfit', first(meta.avgProfit));
+  set('avgLoss', first(meta.avgLoss));
+
+  // "5 (123.45)" for the longest runs, "123.45 (5)" for the costliest
+  const [maxConsecWins, maxConsecWinsProfit] = pair(meta.maxConsecWins$);
+  const [maxConsecLosses, maxConsecLossesLoss] = pair(meta.maxConsecLosses$);
+  const [maxConsecProfit, maxConsecProfitCount] = pair(meta.maxConsecProfitCount);
+  const [maxConsecLoss, maxConsecLossCount] = pair(meta.maxConsecLossCount);
+  set('maxConsecWins', maxConsecWins);
+  set('maxConsecWinsProfit', maxConsecWinsProfit);
+  set('maxConsecLosses', maxConsecLosses);
+  set('maxConsecLossesLoss', maxConsecLossesLoss);
+  set('maxConsecProfit', maxConsecProfit);
+  set('maxConsecProfitCount', maxConsecProfitCount);
+  set('maxConsecLoss', maxConsecLoss);
+  set('maxConsecLossCount', maxConsecLossCount);
+  set('avgConsecWins', first(meta.avgConsecWins));
+  set('avgConsecLosses', first(meta.avgConsecLosses));
+
+  if (meta.period) {
+    m.period = meta.period;
+    Object.assign(m, parsePeriod(meta.period));
+  }
+
+  return m;
+};
+
+export const EMPTY_METRICS: Metrics = {
+  netProfit: 0, grossProfit: 0, grossLoss: 0, profitFactor: 0, expectedPayoff: 0, sharpeRatio: 0, recoveryFactor: 0,
+  balanceDDMax: 0, balanceDDMaxPct: 0, balanceDDRel: 0, balanceDDRelPct: 0,
+  equityDDMax: 0, equityDDMaxPct: 0, equityDDRel: 0, equityDDRelPct: 0, equityEstimated: false,
+  totalTrades: 0, shortTrades: 0, shortWinRate: 0, longTrades: 0, longWinRate: 0, profitTrades: 0, lossTrades: 0,
+  largestProfit: 0, largestLoss: 0, avgProfit: 0, avgLoss: 0, avgMAE: 0, avgMFE: 0,
+  maxConsecWins: 0, maxConsecWinsProfit: 0, maxConsecLosses: 0, maxConsecLossesLoss: 0,
+  maxConsecProfit: 0, maxConsecProfitCount: 0, maxConsecLoss: 0, maxConsecLossCount: 0,
+  avgConsecWins: 0, avgConsecLosses: 0, medianConsecWins: 0, medianConsecLosses: 0,
+  period: '',
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_MONTE_CARLO_RUNS, createRandom, runMonteCarlo } from './monteCarlo';
+
+const profits = [100, -50, 80, -120, 60, -30, 40, 90, -70, 20];
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const values = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(values);
+    values.forEach(v => expect(v).toBeGreaterThanOrEqual(0));
+    values.forEach(v => expect(v).toBeLessThan(1));
+  });
+});
+
+describe('runMonteCarlo', () => {
+  it('reproduces a seeded run', () => {
+    const options = { runs: 200, method: 'bootstrap' as const, blockSize: 5, seed: 7 };
+
+    expect(runMonteCarlo(profits, 1000, options)).toEqual(runMonteCarlo(profits, 1000, options));
+  });
+
+  it('only reorders the trades when shuffling', () => {
+    const result = runMonteCarlo(profits, 1000, { runs: 100, method: 'shuffle', blockSize: 5, seed: 1 });
+
+    expect(result.finalBalance).toEqual({ p5: 1120, p50: 1120, p95: 1120 });
+    expect(result.maxDrawdown.p5).toBeGreaterThanOrEqual(0);
+    expect(result.longestLosingStreak.p95).toBeLessThanOrEqual(4);
+  });
+
+  it('follows the original trade order in the actual band', () => {
+    const result = runMonteCarlo(profits, 1000, { runs: 10, method: 'block', blockSize: 3, seed: 3 });
+
+    expect(result.bands).toHaveLength(profits.length + 1);
+    expect(result.bands[0]).toEqual({ trade: 0, p5: 1000, p50: 1000, p95: 1000, actual: 1000 });
+    expect(result.bands.map(b => b.actual)).toEqual([1000, 1100, 1050, 1130, 1010, 1070, 1040, 1080, 1170, 1100, 1120]);
+  });
+
+  it('caps the number of runs and reports progress', () => {
+    const progress: number[] = [];
+    const result = runMonteCarlo([10], 0, { runs: MAX_MONTE_CARLO_RUNS * 2, method: 'bootstrap', blockSize: 1, seed: 1 }, done => progress.push(done));
+
+    expect(result.runs).toBe(MAX_MONTE_CARLO_RUNS);
+    expect(progress).toHaveLength(20);
+    expect(progress.at(-1)).toBe(1);
+  });
+});
@@ -0,0 +1,176 @@
+export type ResampleMethod = 'shuffle' | 'bootstrap' | 'block';
+
+export interface MonteCarloOptions {
+  runs: number;
+  method: ResampleMethod;
+  blockSize: number; // trades per block, for the block bootstrap
+  seed?: number;
+}
+
+export interface Percentiles {
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+export interface MonteCarloBand extends Percentiles {
+  trade: number;
+  actual: number; // the balance of the original trade order at the same point
+}
+
+export interface MonteCarloResult {
+  runs: number;
+  trades: number;
+  bands: MonteCarloBand[];
+  finalBalance: Percentiles;
+  maxDrawdown: Percentiles;
+  maxDrawdownPct: Percentiles;
+  longestLosingStreak: Percentiles;
+}
+
+// Messages exchanged with the Monte Carlo worker
+export interface MonteCarloRequest {
+  profits: number[];
+  initialDeposit: number;
+  options: MonteCarloOptions;
+}
+
+export type MonteCarloMessage =
+  | { type: 'progress'; done: number }
+  | { type: 'result'; result: MonteCarloResult };
+
+export const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloOptions = { runs: 1000, method: 'bootstrap', blockSize: 5 };
+
+// Every run keeps a value per checkpoint, so the count is capped to keep the worker's memory bounded
+export const MAX_MONTE_CARLO_RUNS = 20000;
+
+// Balance paths are kept at this many checkpoints so memory stays flat for long reports
+const BAND_POINTS = 200;
+
+// Small seeded PRNG (mulberry32) so a run can be reproduced
+export const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const percentile = (sorted: ArrayLike<number>, p: number) => {
+  if (sorted.length === 0) return 0;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+};
+
+const percentiles = (values: Float64Array): Percentiles => {
+  const sorted = values.slice().sort();
+  return { p5: percentile(sorted, 0.05), p50: percentile(sorted, 0.5), p95: percentile(sorted, 0.95) };
+};
+
+/**
+ * Fills `out` with a resampled trade sequence:
+ * - shuffle: a permutation, so only the order (and thus the path) changes
+ * - bootstrap: trades drawn with replacement
+ * - block: consecutive blocks drawn with replacement, keeping streaks and clustering intact
+ */
+const resample = (profits: number[], out: Float64Array, options: MonteCarloOptions, random: () => number) => {
+  const n = profits.length;
+  if (options.method === 'shuffle') {
+    for (let i = 0; i < n; i++) out[i] = profits[i];
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [out[i], out[j]] = [out[j], out[i]];
+    }
+  } else if (options.method === 'bootstrap') {
+    for (let i = 0; i < n; i++) out[i] = profits[Math.floor(random() * n)];
+  } else {
+    const block = Math.max(1, Math.min(options.blockSize, n));
+    for (let i = 0; i < n; ) {
+      const start = Math.floor(random() * n);
+      for (let k = 0; k < block && i < n; k++, i++) out[i] = profits[(start + k) % n];
+    }
+  }
+};
+
+/**
+ * Replays resampled trade sequences from the initial deposit and summarises the spread of
+ * outcomes. `onProgress` receives the share of runs done, for long simulations in a worker.
+ */
+export const runMonteCarlo = (
+  profits: number[],
+  initialDeposit: number,
+  options: MonteCarloOptions = DEFAULT_MONTE_CARLO_OPTIONS,
+  onProgress?: (done: number) => void
+): MonteCarloResult => {
+  const n = profits.length;
+  const runs = Math.min(MAX_MONTE_CARLO_RUNS, Math.max(1, Math.floor(options.runs)));
+  const random = createRandom(options.seed ?? Date.now());
+
+  const checkpoints = Array.from({ length: Math.min(n, BAND_POINTS) }, (_, i) =>
+    Math.round(((i + 1) * n) / Math.min(n, BAND_POINTS)) - 1);
+  const paths = checkpoints.map(() => new Float64Array(runs));
+  const finals = new Float64Array(runs);
+  const drawdowns = new Float64Array(runs);
+  const drawdownPcts = new Float64Array(runs);
+  const streaks = new Float64Array(runs);
+  const sequence = new Float64Array(n);
+  const progressStep = Math.max(1, Math.floor(runs / 20));
+
+  for (let r = 0; r < runs; r++) {
+    resample(profits, sequence, options, random);
+
+    let balance = initialDeposit;
+    let peak = balance;
+    let maxDD = 0;
+    let maxDDPct = 0;
+    let streak = 0;
+    let longest = 0;
+    let c = 0;
+
+    for (let i = 0; i < n; i++) {
+      balance += sequence[i];
+      peak = Math.max(peak, balance);
+      const dd = peak - balance;
+      maxDD = Math.max(maxDD, dd);
+      if (peak > 0) maxDDPct = Math.max(maxDDPct, (dd / peak) * 100);
+      streak = sequence[i] < 0 ? streak + 1 : 0;
+      longest = Math.max(longest, streak);
+      if (i === checkpoints[c]) paths[c++][r] = balance;
+    }
+
+    finals[r] = balance;
+    drawdowns[r] = maxDD;
+    drawdownPcts[r] = maxDDPct;
+    streaks[r] = longest;
+    if (onProgress && (r + 1) % progressStep === 0) onProgress((r + 1) / runs);
+  }
+
+  let actual = initialDeposit;
+  let c = 0;
+  const actualAt: number[] = [];
+  profits.forEach((p, i) => {
+    actual += p;
+    if (i === checkpoints[c]) {
+      actualAt.push(actual);
+      c++;
+    }
+  });
+
+  return {
+    runs,
+    trades: n,
+    bands: [
+      { trade: 0, p5: initialDeposit, p50: initialDeposit, p95: initialDeposit, actual: initialDeposit },
+      ...checkpoints.map((trade, i) => ({ trade: trade + 1, ...percentiles(paths[i]), actual: actualAt[i] })),
+    ],
+    finalBalance: percentiles(finals),
+    maxDrawdown: percentiles(drawdowns),
+    maxDrawdownPct: percentiles(drawdownPcts),
+    longestLosingStreak: percentiles(streaks),
+  };
+};
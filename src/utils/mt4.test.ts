@@ -0,0 +1,45 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { processData } from './parser';
+
+const tr = (cells: string[]) => `<tr>${cells.map(c => `<td>${c}</td>`).join('')}</tr>`;
+
+// An MT4 tester report: colon-less summary labels and one trades row per order event
+const mt4Report = () => `<html><body><table>
+  ${tr(['Symbol', 'EURUSD (Euro vs US Dollar)'])}
+  ${tr(['Initial deposit', '10000.00'])}
+  ${tr(['Total net profit', '150.00'])}
+  ${tr(['Bars in test', '1200'])}
+  ${tr(['#', 'Time', 'Type', 'Order', 'Size', 'Price', 'S / L', 'T / P', 'Profit', 'Balance'])}
+  ${tr(['1', '2024.01.02 10:00', 'buy', '1', '1.00', '1.1000', '0.0000', '0.0000', '', ''])}
+  ${tr(['2', '2024.01.02 11:00', 'modify', '1', '1.00', '1.1000', '1.0950', '1.1100', '', ''])}
+  ${tr(['3', '2024.01.03 10:00', 't/p', '1', '1.00', '1.1100', '1.0950', '1.1100', '200.00', '10200.00'])}
+  ${tr(['4', '2024.01.04 10:00', 'sell', '2', '0.50', '1.1050', '1.1100', '0.0000', '', ''])}
+  ${tr(['5', '2024.01.05 10:00', 's/l', '2', '0.50', '1.1100', '1.1100', '0.0000', '-50.00', '10150.00'])}
+</table></body></html>`;
+
+describe('MT4 reports', () => {
+  it('is detected by its colon-less labels', () => {
+    expect(processData(mt4Report()).format).toBe('mt4');
+  });
+
+  it('turns order events into in/out deals after the opening deposit', () => {
+    const { deals, initialDeposit } = processData(mt4Report());
+
+    expect(initialDeposit).toBe(10000);
+    expect(deals.map(d => [d.type, d.entry, d.profit, d.balance])).toEqual([
+      ['balance', undefined, 10000, 10000],
+      ['buy', 'in', 0, 10000],
+      ['sell', 'out', 200, 10200],
+      ['sell', 'in', 0, 10200],
+      ['buy', 'out', -50, 10150],
+    ]);
+  });
+
+  it('keeps the first stop loss set on an order and takes the symbol from the summary', () => {
+    const { positions, orders } = processData(mt4Report());
+
+    expect(orders[0]).toMatchObject({ order: '1', symbol: 'EURUSD', stopLoss: 1.095, takeProfit: 1.11 });
+    expect(positions.map(p => [p.direction, p.profit, p.stopLoss])).toEqual([['buy', 200, 1.095], ['sell', -50, 1.11]]);
+  });
+});
@@ -0,0 +1,165 @@
+import { type DataPoint, type Order, type RawReport, type ReportMeta } from './parser';
+import { createNumberReader, type Diagnostic } from './diagnostics';
+import { DATE_PATTERN, cleanVal, columnFinder, parseDate } from './tables';
+
+const CLOSE_TYPES = ['close', 't/p', 's/l', 'close at stop', 'close by'];
+
+/**
+ * Parses an MT4 Strategy Tester report.
+ * The summary uses colon-less labels, and the trades table lists one row per order event
+ * (open, modify, close...) keyed by order number, which is used as the position ID.
+ */
+export const parseMT4 = (doc: Document): RawReport => {
+  const cells = Array.from(doc.querySelectorAll('td'));
+  const rows = Array.from(doc.querySelectorAll('tr'));
+  const diagnostics: Diagnostic[] = [];
+  const missingLabels: string[] = [];
+
+  const getVal = (label: string) => {
+    const idx = cells.findIndex(c => c.textContent?.trim() === label);
+    if (idx === -1) missingLabels.push(label);
+    return idx !== -1 ? cells[idx + 1]?.textContent?.trim() : undefined;
+  };
+
+  // "Largest" / "Average" / "Maximum" / "Maximal" rows repeat the same sub-labels, so look them up within the row
+  const getRowVal = (rowLabel: string, label: string, occurrence = 0) => {
+    const row = rows.filter(r => r.querySelector('td')?.textContent?.trim() === rowLabel)[occurrence];
+    const rowCells = row ? Array.from(row.querySelectorAll('td')) : [];
+    const idx = rowCells.findIndex(c => c.textContent?.trim() === label);
+    if (idx === -1) missingLabels.push(`${rowLabel} ${label}`);
+    return idx !== -1 ? rowCells[idx + 1]?.textContent?.trim() : undefined;
+  };
+
+  // MT4 drawdowns are measured on equity
+  const meta: ReportMeta = {
+    // Performance
+    totalNetProfit: getVal('Total net profit'),
+    grossProfit: getVal('Gross profit'),
+    grossLoss: getVal('Gross loss'),
+    profitFactor: getVal('Profit factor'),
+    expectedPayoff: getVal('Expected payoff'),
+
+    // Drawdowns
+    equityDDMax: getVal('Maximal drawdown'),
+    equityDDRel: getVal('Relative drawdown'),
+
+    // Trade Stats
+    totalTrades: getVal('Total trades'),
+    shortTrades: getVal('Short positions (won %)'),
+    longTrades: getVal('Long positions (won %)'),
+    profitTrades: getVal('Profit trades (% of total)'),
+    lossTrades: getVal('Loss trades (% of total)'),
+
+    // Averages
+    largestProfit: getRowVal('Largest', 'profit trade'),
+    largestLoss: getRowVal('Largest', 'loss trade'),
+    avgProfit: getRowVal('Average', 'profit trade'),
+    avgLoss: getRowVal('Average', 'loss trade'),
+
+    // Streaks
+    maxConsecWins$: getRowVal('Maximum', 'consecutive wins (profit in money)'),
+    maxConsecLosses$: getRowVal('Maximum', 'consecutive losses (loss in money)'),
+    maxConsecProfitCount: getRowVal('Maximal', 'consecutive profit (count of wins)'),
+    maxConsecLossCount: getRowVal('Maximal', 'consecutive loss (count of losses)'),
+    avgConsecWins: getRowVal('Average', 'consecutive wins', 1),
+    avgConsecLosses: getRowVal('Average', 'consecutive losses', 1),
+
+    period: getVal('Period'),
+  };
+
+  const initialDeposit = cleanVal(getVal('Initial deposit'));
+  const symbol = getVal('Symbol')?.split(' ')[0] || '';
+
+  if (missingLabels.length > 0) {
+    diagnostics.push({
+      level: 'warning',
+      code: 'missing-label',
+      message: `Summary labels not found, computed from the trades instead: ${missingLabels.join(', ')}.`,
+    });
+  }
+
+  // --- TRADES TABLE ---
+  const deals: DataPoint[] = [];
+  const orders: Order[] = [];
+  const openOrders: Record<string, Order> = {};
+
+  const headerRow = rows.find(row => {
+    const text = row.textContent?.toLowerCase() || '';
+    return text.includes('time') && text.includes('order') && text.includes('profit');
+  });
+  if (!headerRow) {
+    diagnostics.push({ level: 'error', code: 'column-fallback', message: 'No trades table header (Time / Order / Profit) found.' });
+    return { deals, orders, initialDeposit, reportMeta: meta, diagnostics };
+  }
+
+  const col = columnFinder(headerRow);
+  const timeIdx = col(['time']);
+  const typeIdx = col(['type']);
+  const orderIdx = col(['order']);
+  const sizeIdx = col(['size', 'lots', 'volume']);
+  const priceIdx = col(['price']);
+  const slIdx = col(['s / l', 's/l']);
+  const tpIdx = col(['t / p', 't/p']);
+  const profitIdx = col(['profit']);
+  const balIdx = col(['balance']);
+
+  const missing = ([['Time', timeIdx], ['Type', typeIdx], ['Order', orderIdx], ['Size', sizeIdx], ['Profit', profitIdx]] as [string, number][])
+    .filter(([, idx]) => idx === -1)
+    .map(([name]) => name);
+  if (missing.length > 0) {
+    diagnostics.push({ level: 'warning', code: 'column-fallback', message: `Trades table columns not found: ${missing.join(', ')}.` });
+  }
+
+  const numbers = createNumberReader();
+  let balance = initialDeposit;
+
+  rows.slice(rows.indexOf(headerRow) + 1).forEach(row => {
+    const c = Array.from(row.querySelectorAll('td'));
+    const text = (idx: number) => (idx !== -1 ? c[idx]?.textContent?.trim() || '' : '');
+    const time = text(timeIdx);
+    if (!DATE_PATTERN.test(time)) return;
+
+    const type = text(typeIdx).toLowerCase();
+    const orderId = text(orderIdx);
+    const volume = numbers.read(text(sizeIdx), 'Size');
+    const price = numbers.read(text(priceIdx), 'Price');
+    const stopLoss = numbers.read(text(slIdx), 'S / L');
+    const takeProfit = numbers.read(text(tpIdx), 'T / P');
+    const date = parseDate(time);
+
+    if (type === 'buy' || type === 'sell') {
+      const order: Order = {
+        openTime: time, openDate: date, order: orderId, symbol, type, volume, filledVolume: volume,
+        price, stopLoss, takeProfit, time, date, state: 'filled', comment: ''
+      };
+      orders.push(order);
+      openOrders[orderId] = order;
+      deals.push({
+        time, date, balance, profit: 0, volume, type, entry: 'in', symbol, price,
+        positionId: orderId, order: orderId, swap: 0, commission: 0, rawProfit: 0
+      });
+    } else if (type === 'modify') {
+      // Keep the first protective levels set on the order, the ones a trade's risk is judged by
+      const order = openOrders[orderId];
+      if (order && !order.stopLoss) order.stopLoss = stopLoss;
+      if (order && !order.takeProfit) order.takeProfit = takeProfit;
+    } else if (CLOSE_TYPES.includes(type)) {
+      const order = openOrders[orderId];
+      const profit = numbers.read(text(profitIdx), 'Profit');
+      balance = text(balIdx) ? numbers.read(text(balIdx), 'Balance') : balance + profit;
+      deals.push({
+        time, date, balance, profit, volume, type: order?.type === 'sell' ? 'buy' : 'sell', entry: 'out', symbol, price,
+        positionId: orderId, order: orderId, comment: type, swap: 0, commission: 0, rawProfit: profit
+      });
+    }
+  });
+
+  // MT4 has no deposit row, so add the balance operation MT5 reports start with
+  if (deals.length > 0 && initialDeposit > 0) {
+    deals.unshift({ time: deals[0].time, date: deals[0].date, balance: initialDeposit, profit: initialDeposit, volume: 0, type: 'balance' });
+  }
+
+  diagnostics.push(...numbers.diagnostics());
+
+  return { deals, orders, initialDeposit, reportMeta: meta, diagnostics };
+};
@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import {
+  buildHeatmap, calculateRobustness, isOptimizationReport, isOptimizationResult, lowerIsBetter, parseFilter, parseOptimization,
+} from './optimization';
+import { findImporter, importFile } from './importers';
+
+const cell = (value: string | number, index?: number) =>
+  `<Cell${index ? ` ss:Index="${index}"` : ''}><Data ss:Type="${typeof value === 'number' ? 'Number' : 'String'}">${value}</Data></Cell>`;
+
+// Rows of [pass, result, profit, drawdown %, X, Y, Mode]; an empty profit is left out with ss:Index
+const workbook = (rows: (string | number)[][]) => `<?xml version="1.0"?>
+<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">
+  <Worksheet ss:Name="Tester Optimizator Results"><Table>
+    ${rows.map(r => `<Row>${r.map((v, i) => (v === '' ? '' : cell(v, r[i - 1] === '' ? i + 1 : undefined))).join('')}</Row>`).join('\n')}
+  </Table></Worksheet>
+</Workbook>`;
+
+const xml = workbook([
+  ['Pass', 'Result', 'Profit', 'Drawdown %', 'X', 'Y', 'Mode'],
+  [0, 100, 100, 5, 1, 10, 'a'],
+  [1, 300, 300, 4, 2, 10, 'a'],
+  [2, 120, 120, 6, 3, 10, 'a'],
+  [3, 80, 80, 3, 1, 20, 'a'],
+  [4, 250, 250, 8, 2, 20, 'a'],
+  [5, 50, '', 7, 3, 20, 'a'],
+  [6, 140, 140, 2, 1, 10, 'b'],
+]);
+
+describe('parseOptimization', () => {
+  it('reads the metric columns by name and takes the rest as parameters', () => {
+    const result = parseOptimization(xml);
+
+    expect(result.metrics).toEqual(['result', 'profit', 'drawdownPct']);
+    expect(result.parameters).toEqual(['X', 'Y', 'Mode']);
+    expect(result.passes).toHaveLength(7);
+    expect(result.passes[5]).toEqual({ pass: 5, metrics: { result: 50, drawdownPct: 7 }, params: { X: 3, Y: 20, Mode: 'a' } });
+  });
+
+  it('fails without a pass table', () => {
+    expect(() => parseOptimization('<html><table><tr><td>Deals</td></tr></table></html>')).toThrow(/No optimisation pass table/);
+  });
+});
+
+describe('importing', () => {
+  it('is offered optimisation exports by the importer registry', () => {
+    const html = '<html><title>Optimization</title><table><tr><th>Pass</th><th>Profit</th><th>X</th></tr><tr><td>0</td><td>10</td><td>1</td></tr></table></html>';
+
+    expect(isOptimizationReport(xml)).toBe(true);
+    expect(isOptimizationReport(html)).toBe(true);
+    expect(findImporter({ name: 'ReportOptimizer.xml', content: xml })?.label).toBe('MetaTrader Optimization Results (XML or HTML)');
+  });
+
+  it('returns a result the app can tell from a report', () => {
+    const imported = importFile({ name: 'ReportOptimizer.xml', content: xml });
+
+    expect(isOptimizationResult(imported)).toBe(true);
+  });
+});
+
+describe('parseFilter', () => {
+  it('compares numbers, with a bare number matching exactly', () => {
+    const matches = (filter: string) => [5, 15, 50, 'fast'].filter(v => parseFilter(filter)(v));
+
+    expect(matches('5')).toEqual([5]);
+    expect(matches('>=15')).toEqual([15, 50]);
+    expect(matches('10-50')).toEqual([15, 50]);
+    expect(matches('1..10')).toEqual([5]);
+    expect(matches('AS')).toEqual(['fast']);
+    expect(matches(' ')).toEqual([5, 15, 50, 'fast']);
+  });
+});
+
+describe('lowerIsBetter', () => {
+  it('ranks drawdowns lowest first and everything else highest first', () => {
+    expect(lowerIsBetter('drawdown')).toBe(true);
+    expect(lowerIsBetter('drawdownPct')).toBe(true);
+    expect(lowerIsBetter('profit')).toBe(false);
+    expect(lowerIsBetter('trades')).toBe(false);
+  });
+});
+
+describe('buildHeatmap', () => {
+  const { passes } = parseOptimization(xml);
+
+  it('shows the best pass of each cell, null where none ran', () => {
+    const heatmap = buildHeatmap(passes, 'X', 'Y', 'profit');
+
+    expect(heatmap.xs).toEqual([1, 2, 3]);
+    expect(heatmap.ys).toEqual([10, 20]);
+    expect(heatmap.cells).toEqual([[140, 300, 120], [80, 250, null]]);
+    expect(heatmap.smoothed[0][0]).toBe((140 + 300 + 80 + 250) / 4);
+    expect(heatmap.smoothed[1][2]).toBeNull();
+  });
+
+  it('takes the lowest drawdown as the best, or averages the passes', () => {
+    expect(buildHeatmap(passes, 'X', 'Y', 'drawdownPct').cells[0][0]).toBe(2);
+    expect(buildHeatmap(passes, 'X', 'Y', 'profit', 'mean').cells[0][0]).toBe(120);
+  });
+});
+
+describe('calculateRobustness', () => {
+  const { passes, parameters } = parseOptimization(xml);
+
+  it('averages each pass with its grid neighbours', () => {
+    const robustness = calculateRobustness(passes, parameters, 'profit');
+
+    expect(robustness.get(0)).toEqual({ neighbours: 5, mean: 174, worst: 80 });
+    expect(robustness.get(1)).toEqual({ neighbours: 6, mean: 165, worst: 80 });
+    expect(robustness.has(5)).toBe(true);
+  });
+
+  it('takes the highest drawdown around a pass as its worst', () => {
+    expect(calculateRobustness(passes, parameters, 'drawdownPct').get(0)?.worst).toBe(8);
+  });
+});
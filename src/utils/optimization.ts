@@ -0,0 +1,241 @@
+import { parseNumber } from './tables';
+
+export type OptimizationMetric =
+  | 'result' | 'forwardResult' | 'backResult' | 'profit' | 'expectedPayoff' | 'profitFactor'
+  | 'recoveryFactor' | 'sharpeRatio' | 'custom' | 'drawdown' | 'drawdownPct' | 'trades';
+
+export const OPTIMIZATION_METRICS: { key: OptimizationMetric; label: string; headers: string[]; better?: 'higher' | 'lower' }[] = [
+  { key: 'result', label: 'Result', headers: ['result'], better: 'higher' },
+  { key: 'forwardResult', label: 'Forward Result', headers: ['forward result'], better: 'higher' },
+  { key: 'backResult', label: 'Back Result', headers: ['back result'], better: 'higher' },
+  { key: 'profit', label: 'Profit', headers: ['profit'], better: 'higher' },
+  { key: 'expectedPayoff', label: 'Expected Payoff', headers: ['expected payoff'], better: 'higher' },
+  { key: 'profitFactor', label: 'Profit Factor', headers: ['profit factor'], better: 'higher' },
+  { key: 'recoveryFactor', label: 'Recovery Factor', headers: ['recovery factor'], better: 'higher' },
+  { key: 'sharpeRatio', label: 'Sharpe Ratio', headers: ['sharpe ratio'], better: 'higher' },
+  { key: 'custom', label: 'Custom', headers: ['custom', 'ontester result'], better: 'higher' },
+  { key: 'drawdown', label: 'Drawdown', headers: ['drawdown $', 'drawdown', 'equity dd'], better: 'lower' },
+  { key: 'drawdownPct', label: 'Drawdown %', headers: ['equity dd %', 'drawdown %', 'balance dd %'], better: 'lower' },
+  { key: 'trades', label: 'Trades', headers: ['trades', 'total trades'] },
+];
+
+export type ParameterValue = number | string;
+
+export interface OptimizationPass {
+  pass: number;
+  metrics: Partial<Record<OptimizationMetric, number>>;
+  params: Record<string, ParameterValue>;
+}
+
+export interface OptimizationResult {
+  metrics: OptimizationMetric[]; // the metric columns the export has, in its order
+  parameters: string[]; // input names, in column order
+  passes: OptimizationPass[];
+}
+
+export type HeatmapAggregate = 'best' | 'mean';
+
+export interface Heatmap {
+  xs: ParameterValue[];
+  ys: ParameterValue[];
+  cells: (number | null)[][]; // [y][x]; null where no pass ran
+  smoothed: (number | null)[][]; // each cell averaged with its defined neighbours
+}
+
+export interface PassRobustness {
+  neighbours: number; // passes one grid step or less away in every parameter, itself included
+  mean: number; // the metric averaged over that neighbourhood
+  worst: number;
+}
+
+const metricFor = (header: string) => OPTIMIZATION_METRICS.find(m => m.headers.includes(header.trim().toLowerCase()))?.key;
+
+// Drawdowns rank best when lowest; every other metric, and one without a direction, when highest
+export const lowerIsBetter = (metric: OptimizationMetric) => OPTIMIZATION_METRICS.find(m => m.key === metric)?.better === 'lower';
+
+// Excel 2003 XML (SpreadsheetML), which is what the MT5 tester saves; cells may skip columns with ss:Index
+const spreadsheetRows = (doc: Document): string[][] =>
+  Array.from(doc.getElementsByTagName('Row')).map(row => {
+    const cells: string[] = [];
+    Array.from(row.getElementsByTagName('Cell')).forEach(cell => {
+      const index = Number(cell.getAttribute('ss:Index') ?? cell.getAttribute('Index'));
+      if (index > 0) while (cells.length < index - 1) cells.push('');
+      cells.push(cell.textContent?.trim() ?? '');
+    });
+    return cells;
+  });
+
+const htmlRows = (doc: Document): string[][] =>
+  Array.from(doc.querySelectorAll('tr')).map(row => Array.from(row.querySelectorAll('th, td')).map(c => c.textContent?.trim() ?? ''));
+
+const isPassHeader = (cells: string[]) => {
+  const lower = cells.map(c => c.toLowerCase());
+  return lower.includes('pass') && cells.some(c => metricFor(c) !== undefined);
+};
+
+// Cheap sniffing for the importer: the pass table has a "Pass" column next to result columns
+export const isOptimizationReport = (content: string) => {
+  const head = content.slice(0, 20000);
+  return /<Workbook/i.test(head) ? />\s*Pass\s*</i.test(head) : /<t[hd][^>]*>\s*Pass\s*<\/t[hd]>/i.test(head) && /optimi[sz]ation/i.test(head);
+};
+
+// Tells parsed optimisation results apart from the reports and tables the other importers return
+export const isOptimizationResult = (value: object): value is OptimizationResult => 'passes' in value;
+
+/**
+ * Reads an MT5 optimisation export (XML or HTML): one pass per row, metric columns
+ * recognised by name and every other column taken as an input parameter.
+ */
+export const parseOptimization = (content: string): OptimizationResult => {
+  const isXml = /<Workbook/i.test(content.slice(0, 4096));
+  const doc = new DOMParser().parseFromString(content, isXml ? 'application/xml' : 'text/html');
+  const rows = isXml ? spreadsheetRows(doc) : htmlRows(doc);
+
+  const headerIndex = rows.findIndex(isPassHeader);
+  if (headerIndex === -1) throw new Error('No optimisation pass table (a "Pass" column with results) was found.');
+  const header = rows[headerIndex];
+  const passIdx = header.findIndex(h => h.toLowerCase() === 'pass');
+
+  const columns = header.map((name, i) => ({ name, i, metric: metricFor(name) }));
+  const metricColumns = columns.filter(c => c.metric !== undefined);
+  const paramColumns = columns.filter(c => c.metric === undefined && c.i !== passIdx && c.name !== '');
+
+  const passes: OptimizationPass[] = [];
+  rows.slice(headerIndex + 1).forEach(cells => {
+    const pass = parseNumber(cells[passIdx]);
+    if (pass === null) return;
+
+    const metrics: Partial<Record<OptimizationMetric, number>> = {};
+    metricColumns.forEach(c => {
+      const value = parseNumber(cells[c.i]);
+      if (value !== null) metrics[c.metric as OptimizationMetric] = value;
+    });
+    const params = Object.fromEntries(paramColumns.map(c => {
+      const text = cells[c.i] ?? '';
+      const value = parseNumber(text);
+      return [c.name, value ?? text];
+    }));
+    passes.push({ pass, metrics, params });
+  });
+
+  return { metrics: metricColumns.map(c => c.metric as OptimizationMetric), parameters: paramColumns.map(c => c.name), passes };
+};
+
+const sortValues = (values: ParameterValue[]) =>
+  values.sort((a, b) => (typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b))));
+
+export const parameterValues = (passes: OptimizationPass[], parameter: string): ParameterValue[] =>
+  sortValues(Array.from(new Set(passes.map(p => p.params[parameter]))));
+
+/**
+ * Parses a column filter such as ">1.5", "<=20", "10-50" or "5"; a bare number matches exactly and any
+ * other text matches as a substring. Empty text keeps every row.
+ */
+export const parseFilter = (text: string): ((value: ParameterValue | undefined) => boolean) => {
+  const t = text.trim();
+  if (!t) return () => true;
+
+  const comparison = t.match(/^(>=|<=|>|<|=)\s*(-?[\d.]+)$/);
+  if (comparison) {
+    const limit = Number(comparison[2]);
+    const test = { '>=': (v: number) => v >= limit, '<=': (v: number) => v <= limit, '>': (v: number) => v > limit, '<': (v: number) => v < limit, '=': (v: number) => v === limit }[comparison[1]];
+    return v => typeof v === 'number' && test !== undefined && test(v);
+  }
+  const range = t.match(/^(-?[\d.]+)\s*(?:-|\.\.)\s*(-?[\d.]+)$/);
+  if (range) return v => typeof v === 'number' && v >= Number(range[1]) && v <= Number(range[2]);
+  if (/^-?[\d.]+$/.test(t)) return v => typeof v === 'number' && v === Number(t);
+  return v => v !== undefined && String(v).toLowerCase().includes(t.toLowerCase());
+};
+
+/**
+ * Metric over a grid of two parameters. Passes that differ only in other parameters share a cell,
+ * which shows their best or mean value.
+ */
+export const buildHeatmap = (
+  passes: OptimizationPass[],
+  xParam: string,
+  yParam: string,
+  metric: OptimizationMetric,
+  aggregate: HeatmapAggregate = 'best'
+): Heatmap => {
+  const xs = parameterValues(passes, xParam);
+  const ys = parameterValues(passes, yParam);
+  const groups = ys.map(() => xs.map(() => [] as number[]));
+  passes.forEach(p => {
+    const value = p.metrics[metric];
+    if (value === undefined) return;
+    groups[ys.indexOf(p.params[yParam])][xs.indexOf(p.params[xParam])].push(value);
+  });
+
+  const lower = lowerIsBetter(metric);
+  const cells = groups.map(row => row.map(values => {
+    if (values.length === 0) return null;
+    if (aggregate === 'mean') return values.reduce((a, b) => a + b, 0) / values.length;
+    return lower ? Math.min(...values) : Math.max(...values);
+  }));
+
+  const smoothed = cells.map((row, y) => row.map((value, x) => {
+    if (value === null) return null;
+    const around: number[] = [];
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const v = cells[y + dy]?.[x + dx];
+        if (v !== null && v !== undefined) around.push(v);
+      }
+    }
+    return around.reduce((a, b) => a + b, 0) / around.length;
+  }));
+
+  return { xs, ys, cells, smoothed };
+};
+
+/**
+ * Robustness of every pass: how the metric holds up across the passes next to it on the parameter grid.
+ * A pass on a plateau keeps a high neighbourhood mean; an isolated peak does not.
+ */
+export const calculateRobustness = (
+  passes: OptimizationPass[],
+  parameters: string[],
+  metric: OptimizationMetric
+): Map<number, PassRobustness> => {
+  // Inputs held fixed during the run do not span a grid
+  const varying = parameters.filter(name => parameterValues(passes, name).length > 1);
+  const grids = varying.map(name => parameterValues(passes, name));
+  const positions = passes.map(p => varying.map((name, i) => grids[i].indexOf(p.params[name])));
+  const lower = lowerIsBetter(metric);
+  const robustness = new Map<number, PassRobustness>();
+
+  // Passes indexed by grid position, so a neighbourhood is looked up rather than scanned for,
+  // unless the neighbourhood has more cells than there are passes
+  const byPosition = new Map<string, number[]>();
+  passes.forEach((p, i) => {
+    const value = p.metrics[metric];
+    if (value === undefined) return;
+    const key = positions[i].join(',');
+    byPosition.set(key, [...(byPosition.get(key) ?? []), value]);
+  });
+  const lookup = Math.pow(3, varying.length) <= passes.length;
+  const offsets = lookup ? varying.reduce<number[][]>(acc => acc.flatMap(o => [-1, 0, 1].map(d => [...o, d])), [[]]) : [];
+
+  const neighbourValues = (i: number) => {
+    if (lookup) return offsets.flatMap(o => byPosition.get(positions[i].map((pos, k) => pos + o[k]).join(',')) ?? []);
+    const values: number[] = [];
+    passes.forEach((q, j) => {
+      const value = q.metrics[metric];
+      if (value !== undefined && positions[i].every((pos, k) => Math.abs(pos - positions[j][k]) <= 1)) values.push(value);
+    });
+    return values;
+  };
+
+  passes.forEach((p, i) => {
+    const values = neighbourValues(i);
+    if (values.length === 0) return;
+    robustness.set(p.pass, {
+      neighbours: values.length,
+      mean: values.reduce((a, b) => a + b, 0) / values.length,
+      worst: lower ? Math.max(...values) : Math.min(...values),
+    });
+  });
+
+  return robustness;
+};
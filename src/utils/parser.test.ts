@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { detectKind, processData } from './parser';
+import { filterBySymbol } from './symbols';
+
+const tr = (cells: string[]) => `<tr>${cells.map(c => `<td>${c}</td>`).join('')}</tr>`;
+const title = (text: string) => `<tr><th colspan="13">${text}</th></tr>`;
+
+// A tester report cut down to its deposit, the Orders and Deals tables and one summary label
+const mt5Report = () => `<html><body><table>
+  ${tr(['Initial Deposit:', '10 000.00'])}
+  ${tr(['Total Net Profit:', '150.00'])}
+  ${title('Orders')}
+  ${tr(['Open Time', 'Order', 'Symbol', 'Type', 'Volume', 'Price', 'S / L', 'T / P', 'Time', 'State', 'Comment'])}
+  ${tr(['2024.01.02 10:00:00', '2', 'EURUSD', 'buy', '1.00 / 1.00', '1.1000', '1.0950', '0', '2024.01.02 10:00:00', 'filled', ''])}
+  ${tr(['2024.01.03 10:00:00', '3', 'EURUSD', 'sell', '1.00 / 1.00', '1.1100', '', '', '2024.01.03 10:00:00', 'filled', 'tp'])}
+  ${title('Deals')}
+  ${tr(['Time', 'Deal', 'Symbol', 'Type', 'Direction', 'Volume', 'Price', 'Order', 'Commission', 'Swap', 'Profit', 'Balance', 'Comment'])}
+  ${tr(['2024.01.01 00:00:00', '1', '', 'balance', '', '', '', '', '0.00', '0.00', '10 000.00', '10 000.00', ''])}
+  ${tr(['2024.01.02 10:00:00', '2', 'EURUSD', 'buy', 'in', '1.00', '1.1000', '2', '-3.00', '0.00', '0.00', '9 997.00', ''])}
+  ${tr(['2024.01.03 10:00:00', '3', 'EURUSD', 'sell', 'out', '1.00', '1.1100', '3', '-3.00', '-4.00', '1 000.00', '10 990.00', 'tp'])}
+  ${tr(['2024.01.04 10:00:00', '4', 'GBPUSD', 'sell', 'in', '0.50', '1.2700', '4', '0.00', '0.00', '0.00', '10 990.00', ''])}
+  ${tr(['2024.01.05 10:00:00', '5', 'GBPUSD', 'buy', 'out', '0.50', '1.2720', '5', '0.00', '0.00', '-100.00', '10 890.00', ''])}
+</table></body></html>`;
+
+describe('processData', () => {
+  it('reads the Orders table with requested and filled volume', () => {
+    const { orders } = processData(mt5Report());
+
+    expect(orders).toHaveLength(2);
+    expect(orders[0]).toMatchObject({ order: '2', symbol: 'EURUSD', type: 'buy', volume: 1, filledVolume: 1, price: 1.1, stopLoss: 1.095, state: 'filled' });
+  });
+
+  it('reads the Deals table by its header and nets costs into the profit', () => {
+    const { deals, initialDeposit } = processData(mt5Report());
+
+    expect(initialDeposit).toBe(10000);
+    expect(deals).toHaveLength(5);
+    expect(deals[2]).toMatchObject({ symbol: 'EURUSD', entry: 'out', rawProfit: 1000, swap: -4, commission: -3, profit: 993, balance: 10990 });
+  });
+
+  it('pairs the deals into positions and lists their symbols', () => {
+    const { positions, symbols, data } = processData(mt5Report());
+
+    expect(symbols).toEqual(['EURUSD', 'GBPUSD']);
+    expect(positions.map(p => [p.symbol, p.direction, p.profit])).toEqual([['EURUSD', 'buy', 990], ['GBPUSD', 'sell', -100]]);
+    expect(positions[0].stopLoss).toBe(1.095);
+    expect(data.filter(d => d.volume > 0)).toHaveLength(2);
+  });
+});
+
+// An account statement: no Initial Deposit or Period, an account block, and fees beside the commission
+const statement = () => `<html><head><title>123456: Trade History Report</title></head><body><table>
+  ${tr(['Name:', 'J. Smith'])}
+  ${tr(['Account:', '123456 (USD, Demo)'])}
+  ${tr(['Company:', 'Example Markets Ltd'])}
+  ${title('Deals')}
+  ${tr(['Time', 'Deal', 'Symbol', 'Type', 'Direction', 'Volume', 'Price', 'Order', 'Commission', 'Fee', 'Swap', 'Profit', 'Balance', 'Comment'])}
+  ${tr(['2024.01.01 00:00:00', '1', '', 'balance', '', '', '', '', '0.00', '0.00', '0.00', '5 000.00', '5 000.00', ''])}
+  ${tr(['2024.01.01 00:05:00', '2', '', 'balance', '', '', '', '', '0.00', '0.00', '0.00', '1 000.00', '6 000.00', ''])}
+  ${tr(['2024.01.02 10:00:00', '3', 'EURUSD', 'buy', 'in', '1.00', '1.1000', '3', '-3.00', '-1.00', '0.00', '0.00', '5 996.00', ''])}
+  ${tr(['2024.01.03 10:00:00', '4', 'EURUSD', 'sell', 'out', '1.00', '1.1050', '4', '-3.00', '-1.00', '0.00', '500.00', '6 492.00', ''])}
+  ${tr(['Balance:', '6 492.00'])}
+  ${tr(['Equity:', '6 510.50'])}
+  ${tr(['Floating P/L:', '18.50'])}
+</table></body></html>`;
+
+describe('account statements', () => {
+  const doc = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+  it('tells a statement from a tester report', () => {
+    expect(detectKind(doc(statement()))).toBe('statement');
+    expect(detectKind(doc(mt5Report()))).toBe('backtest');
+  });
+
+  it('opens the account with the balance operations ahead of the first trade', () => {
+    const result = processData(statement());
+
+    expect(result.kind).toBe('statement');
+    expect(result.initialDeposit).toBe(6000);
+    expect(result.account).toEqual({
+      name: 'J. Smith', account: '123456 (USD, Demo)', company: 'Example Markets Ltd', balance: 6492, equity: 6510.5, floatingPL: 18.5,
+    });
+  });
+
+  it('adds the fee to the commission', () => {
+    const { deals } = processData(statement());
+
+    expect(deals[3]).toMatchObject({ commission: -4, profit: 496 });
+  });
+
+  it('does not report the labels a statement never prints as missing', () => {
+    const missing = processData(statement()).diagnostics.find(d => d.code === 'missing-label');
+
+    expect(missing?.message).not.toMatch(/Period|Initial Deposit|Equity Drawdown/);
+    expect(processData(mt5Report()).diagnostics.find(d => d.code === 'missing-label')?.message).toMatch(/Period/);
+  });
+});
+
+describe('filterBySymbol', () => {
+  it('keeps one symbol and the balance operations, with the balance rebuilt', () => {
+    const { data, initialDeposit } = processData(mt5Report());
+    const gbp = filterBySymbol(data, initialDeposit, 'GBPUSD');
+
+    expect(gbp.map(d => [d.symbol ?? '', d.balance])).toEqual([['', 10000], ['GBPUSD', 9900]]);
+  });
+});
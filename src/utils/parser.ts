@@ -1,3 +1,12 @@
+import { attachOrders, reconstructPositions, toTradeTimeline, type Position } from './positions';
+import { listSymbols } from './symbols';
+import { parseMT4 } from './mt4';
+import { calculateStats } from './statistics';
+import { fromReportMeta, type Metrics } from './metrics';
+import { estimateExcursions } from './equity';
+import { createNumberReader, reconcile, type Diagnostic } from './diagnostics';
+import { DATE_PATTERN, cleanVal, columnFinder, parseDate, parseNumber, sectionRows } from './tables';
+
 export interface DataPoint {
   time: string;
   balance: number;
@@ -5,56 +14,168 @@ export interface DataPoint {
   volume: number;
   date: Date;
   type?: string;
+  entry?: string; // MT5 deal direction: in / out / inout / out_by
+  symbol?: string;
+  price?: number;
+  positionId?: string;
+  deal?: string;
+  order?: string;
+  comment?: string;
   swap?: number;
   commission?: number;
   rawProfit?: number;
+  mae?: number; // maximum adverse excursion of the trade closed here, in money
+  mfe?: number; // maximum favourable excursion, in money
+  excursionEstimated?: boolean;
+  entryPrice?: number; // on closed-position points, with price being the exit
+  entryDate?: Date;
+  stopLoss?: number;
+  strategy?: string; // ID of the report a trade came from, in a combined portfolio
+  strategyName?: string;
+}
+
+export interface Order {
+  openTime: string;
+  openDate: Date;
+  order: string;
+  symbol: string;
+  type: string; // buy, sell, buy limit, sell stop...
+  volume: number;
+  filledVolume: number;
+  price: number;
+  stopLoss: number; // 0 when not set
+  takeProfit: number; // 0 when not set
+  time: string; // fill / cancel time
+  date: Date;
+  state: string; // filled, canceled, expired...
+  comment: string;
 }
 
+// Summary values exactly as a report prints them; fromReportMeta reads them into Metrics
 export interface ReportMeta {
   totalNetProfit?: string;
   grossProfit?: string;
   grossLoss?: string;
   profitFactor?: string;
+  expectedPayoff?: string;
   sharpeRatio?: string;
+  recoveryFactor?: string;
   balanceDDMax?: string;
   equityDDMax?: string;
   balanceDDRel?: string;
   equityDDRel?: string;
-  totalTrades: number;
+  totalTrades?: string;
   shortTrades?: string;
   longTrades?: string;
   profitTrades?: string;
   lossTrades?: string;
   largestProfit?: string;
   largestLoss?: string;
-  largestProfitLoss?: string; // added to match similar structure if needed
   avgProfit?: string;
   avgLoss?: string;
-  maxConsecWins$?: string;
+  maxConsecWins$?: string; // "count (money)"
   maxConsecLosses$?: string;
-  maxConsecProfitCount?: string;
+  maxConsecProfitCount?: string; // "money (count)"
   maxConsecLossCount?: string;
   avgConsecWins?: string;
   avgConsecLosses?: string;
-  fixedLotSize?: number;
   period?: string;
-  [key: string]: any;
+}
+
+export type ReportFormat = 'mt5' | 'mt4' | 'ctrader' | 'tradingview' | 'csv';
+
+// Strategy Tester reports are backtests; account statements are the history of a demo or live account
+export type ReportKind = 'backtest' | 'statement';
+
+// The account block of a statement, as of the moment it was exported
+export interface AccountSummary {
+  name?: string;
+  account?: string;
+  company?: string;
+  balance?: number;
+  equity?: number;
+  floatingPL?: number;
 }
 
 export interface ParsedResult {
-  data: DataPoint[];
+  format: ReportFormat;
+  kind: ReportKind;
+  account?: AccountSummary;
+  data: DataPoint[]; // closed positions and balance operations, in time order
+  deals: DataPoint[]; // raw deal rows as they appear in the report
+  orders: Order[];
+  positions: Position[];
+  symbols: string[];
   initialDeposit: number;
-  reportMeta: ReportMeta;
+  metrics: Metrics;
+  diagnostics: Diagnostic[];
 }
 
-export const processData = (htmlContent: string): ParsedResult => {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(htmlContent, 'text/html');
+// What a dialect-specific parser scrapes before positions and the trade timeline are built
+export interface RawReport {
+  deals: DataPoint[];
+  orders: Order[];
+  initialDeposit: number;
+  reportMeta?: ReportMeta; // absent for plain trade histories, which have no summary block
+  diagnostics: Diagnostic[];
+  kind?: ReportKind; // backtest unless the parser recognised an account statement
+  account?: AccountSummary;
+}
+
+// MT4 labels are lower-case and colon-less ("Total net profit") and only MT4 reports "Bars in test"
+export const detectFormat = (doc: Document): ReportFormat => {
+  const isMT4 = Array.from(doc.querySelectorAll('td')).some(c => {
+    const text = c.textContent?.trim();
+    return text === 'Total net profit' || text === 'Bars in test';
+  });
+  return isMT4 ? 'mt4' : 'mt5';
+};
+
+// MT5 account statements are titled "Trade History Report"; tester reports are "Strategy Tester Report"
+export const detectKind = (doc: Document): ReportKind => {
+  const isStatement = doc.title.toLowerCase().includes('trade history report') ||
+    Array.from(doc.querySelectorAll('th, td')).some(c => c.textContent?.trim().toLowerCase() === 'trade history report');
+  return isStatement ? 'statement' : 'backtest';
+};
+
+// Labels a statement's summary never prints, so their absence is not worth a warning
+const STATEMENT_ABSENT_LABELS = ['Period:', 'Equity Drawdown Maximal:', 'Equity Drawdown Relative:'];
+
+// Statements have no "Initial Deposit": the account starts with the balance operations ahead of the first trade
+const openingBalance = (deals: DataPoint[]) => {
+  const firstTrade = deals.findIndex(d => d.volume > 0);
+  if (firstTrade === 0) return deals[0].balance - deals[0].profit;
+  return deals.slice(0, firstTrade === -1 ? deals.length : firstTrade).reduce((sum, d) => sum + d.profit, 0);
+};
+
+const parseAccountSummary = (doc: Document): AccountSummary => {
+  const cells = Array.from(doc.querySelectorAll('th, td'));
+  const text = (label: string) => {
+    const idx = cells.findIndex(c => c.textContent?.trim() === label);
+    return idx !== -1 ? cells[idx + 1]?.textContent?.trim() || undefined : undefined;
+  };
+  const number = (label: string) => parseNumber(text(label)) ?? undefined;
+
+  return {
+    name: text('Name:'),
+    account: text('Account:'),
+    company: text('Company:'),
+    balance: number('Balance:'),
+    equity: number('Equity:'),
+    floatingPL: number('Floating P/L:'),
+  };
+};
+
+const parseMT5 = (doc: Document): RawReport => {
+  const kind = detectKind(doc);
   const cells = Array.from(doc.querySelectorAll('td'));
+  const diagnostics: Diagnostic[] = [];
+  const missingLabels: string[] = [];
   
   const getVal = (label: string) => {
     const idx = cells.findIndex(c => c.textContent?.trim().startsWith(label));
-    return idx !== -1 ? cells[idx + 1]?.textContent?.trim() : '0';
+    if (idx === -1 && !(kind === 'statement' && STATEMENT_ABSENT_LABELS.includes(label))) missingLabels.push(label.replace(/:$/, ''));
+    return idx !== -1 ? cells[idx + 1]?.textContent?.trim() : undefined;
   };
 
   // --- SCRAPING ENGINE ---
@@ -64,7 +185,9 @@ export const processData = (htmlContent: string): ParsedResult => {
     grossProfit: getVal('Gross Profit:'),
     grossLoss: getVal('Gross Loss:'),
     profitFactor: getVal('Profit Factor:'),
+    expectedPayoff: getVal('Expected Payoff:'),
     sharpeRatio: getVal('Sharpe Ratio:'),
+    recoveryFactor: getVal('Recovery Factor:'),
     
     // Drawdowns
     balanceDDMax: getVal('Balance Drawdown Maximal:'),
@@ -73,7 +196,7 @@ export const processData = (htmlContent: string): ParsedResult => {
     equityDDRel: getVal('Equity Drawdown Relative:'),
     
     // Trade Stats
-    totalTrades: parseInt(getVal('Total Trades:') || '0') || 0,
+    totalTrades: getVal('Total Trades:'),
     shortTrades: getVal('Short Trades (won %):'),
     longTrades: getVal('Long Trades (won %):'),
     profitTrades: getVal('Profit Trades (% of total):'),
@@ -98,11 +221,68 @@ export const processData = (htmlContent: string): ParsedResult => {
   
   const depositIdx = cells.findIndex(td => td.textContent?.includes('Initial Deposit:'));
   const deposit = parseFloat(cells[depositIdx + 1]?.textContent?.replace(/\s/g, '') || "0") || 0;
-  
-  // Parse Deals for Graphs
-  const deals: DataPoint[] = [];
+  if (depositIdx === -1 && kind === 'backtest') missingLabels.push('Initial Deposit');
+
+  if (missingLabels.length > 0) {
+    diagnostics.push({
+      level: 'warning',
+      code: 'missing-label',
+      message: `Summary labels not found, computed from the trades instead: ${missingLabels.join(', ')}.`,
+    });
+  }
+
   const allRows = Array.from(doc.querySelectorAll('tr'));
-  
+
+  // --- ORDERS TABLE ---
+  const orders: Order[] = [];
+  const orderRows = sectionRows(allRows, 'orders');
+  if (orderRows && orderRows.length > 0) {
+    const col = columnFinder(orderRows[0]);
+    const openTimeIdx = col(['open time']);
+    const orderIdx = col(['order', 'ticket']);
+    const oSymbolIdx = col(['symbol']);
+    const oTypeIdx = col(['type']);
+    const oVolIdx = col(['volume']);
+    const oPriceIdx = col(['price']);
+    const slIdx = col(['s / l', 's/l', 'sl', 'stop loss']);
+    const tpIdx = col(['t / p', 't/p', 'tp', 'take profit']);
+    const doneIdx = col(['time']);
+    const stateIdx = col(['state']);
+    const oCommentIdx = col(['comment']);
+
+    orderRows.slice(1).forEach(row => {
+      const c = Array.from(row.querySelectorAll('td'));
+      const text = (idx: number) => (idx !== -1 ? c[idx]?.textContent?.trim() || '' : '');
+      const openTime = text(openTimeIdx);
+      if (!DATE_PATTERN.test(openTime)) return;
+
+      // Volume is reported as "requested / filled"
+      const [requested, filled] = text(oVolIdx).split('/');
+      const doneTime = text(doneIdx) || openTime;
+
+      orders.push({
+        openTime,
+        openDate: parseDate(openTime),
+        order: text(orderIdx),
+        symbol: text(oSymbolIdx),
+        type: text(oTypeIdx).toLowerCase(),
+        volume: cleanVal(requested),
+        filledVolume: filled !== undefined ? cleanVal(filled) : cleanVal(requested),
+        price: cleanVal(text(oPriceIdx)),
+        stopLoss: cleanVal(text(slIdx)),
+        takeProfit: cleanVal(text(tpIdx)),
+        time: doneTime,
+        date: parseDate(doneTime),
+        state: text(stateIdx).toLowerCase(),
+        comment: text(oCommentIdx),
+      });
+    });
+  }
+
+  // --- DEALS TABLE ---
+  const deals: DataPoint[] = [];
+  const dealSection = sectionRows(allRows, 'deals');
+
   // Dynamic Column Detection
   let volIdx = 5;
   let profitIdx = 10;
@@ -111,18 +291,25 @@ export const processData = (htmlContent: string): ParsedResult => {
   let typeIdx = 2;
   let swapIdx = -1;
   let commIdx = -1;
+  let feeIdx = -1;
+  let entryIdx = -1;
+  let symbolIdx = -1;
+  let priceIdx = -1;
+  let posIdx = -1;
+  let dealIdx = -1;
+  let orderIdx = -1;
+  let commentIdx = -1;
 
-  // Strict check: Header MUST strictly contain 'profit' to target the deals/results table
-  const headerRow = allRows.find(row => {
+  // Prefer the titled "Deals" section; otherwise the header MUST strictly contain 'profit' to target the deals/results table
+  const headerRow = dealSection?.[0] ?? allRows.find(row => {
     const text = row.textContent?.toLowerCase() || '';
     return text.includes('time') && text.includes('profit');
   });
 
+  const fallbacks: string[] = [];
+
   if (headerRow) {
-    const hCells = Array.from(headerRow.querySelectorAll('th, td')).map(c => c.textContent?.trim().toLowerCase() || '');
-    
-    // Helper to find index with flexible matching
-    const findIdx = (keywords: string[]) => hCells.findIndex(h => keywords.some(k => h === k || h.includes(k)));
+    const findIdx = columnFinder(headerRow);
 
     const v = findIdx(['volume', 'size', 'lots', 'amount', 'qty']);
     const p = findIdx(['profit', 'gain']);
@@ -131,6 +318,14 @@ export const processData = (htmlContent: string): ParsedResult => {
     const ty = findIdx(['type', 'direction']);
     const s = findIdx(['swap']);
     const cm = findIdx(['commission', 'taxes', 'fee']);
+    const fe = findIdx(['fee']); // statements list fees next to the commission
+    const en = findIdx(['direction', 'entry']);
+    const sy = findIdx(['symbol', 'instrument']);
+    const pr = findIdx(['price']);
+    const po = findIdx(['position']);
+    const dl = findIdx(['deal', 'ticket']);
+    const or = findIdx(['order']);
+    const co = findIdx(['comment']);
 
     if (v !== -1) volIdx = v;
     if (p !== -1) profitIdx = p;
@@ -139,67 +334,122 @@ export const processData = (htmlContent: string): ParsedResult => {
     if (ty !== -1) typeIdx = ty;
     if (s !== -1) swapIdx = s;
     if (cm !== -1) commIdx = cm;
+    if (fe !== -1 && fe !== commIdx) feeIdx = fe;
+    if (en !== -1 && en !== typeIdx) entryIdx = en;
+    if (sy !== -1) symbolIdx = sy;
+    if (pr !== -1) priceIdx = pr;
+    if (po !== -1) posIdx = po;
+    if (dl !== -1) dealIdx = dl;
+    if (or !== -1) orderIdx = or;
+    if (co !== -1) commentIdx = co;
+
+    // Required columns missing from the header keep their hard-coded MT5 positions
+    ([['Volume', v], ['Profit', p], ['Balance', b], ['Time', t], ['Type', ty]] as [string, number][]).forEach(([name, idx]) => {
+      if (idx === -1) fallbacks.push(name);
+    });
+
+    const names = Array.from(headerRow.querySelectorAll('th, td')).map(c => c.textContent?.trim() || '');
+    const detected = ([['time', timeIdx], ['type', typeIdx], ['direction', entryIdx], ['symbol', symbolIdx], ['volume', volIdx], ['price', priceIdx], ['commission', commIdx], ['fee', feeIdx], ['swap', swapIdx], ['profit', profitIdx], ['balance', balIdx]] as [string, number][])
+      .filter(([, idx]) => idx !== -1)
+      .map(([field, idx]) => `${field} → "${names[idx] ?? `#${idx}`}"`);
+    diagnostics.push({ level: 'info', code: 'columns', message: `Deals columns: ${detected.join(', ')}.` });
+  } else {
+    diagnostics.push({ level: 'warning', code: 'column-fallback', message: 'No deals header row found; using the default MT5 column positions.' });
   }
 
-  allRows.forEach(row => {
+  if (fallbacks.length > 0) {
+    diagnostics.push({
+      level: 'warning',
+      code: 'column-fallback',
+      message: `Columns not found in the deals header, using default positions: ${fallbacks.join(', ')}.`,
+    });
+  }
+
+  const dealRows = dealSection ? dealSection.slice(1) : allRows;
+  const numbers = createNumberReader();
+  let skipped = 0;
+
+  dealRows.forEach(row => {
     const c = Array.from(row.querySelectorAll('td'));
     // Ensure row has enough columns for the indices we need
     if (c.length > Math.max(volIdx, profitIdx, balIdx, typeIdx)) {
       const timeStr = c[timeIdx].textContent?.trim();
-      if (timeStr && /^\d{4}\.\d{2}\.\d{2}/.test(timeStr)) {
-        // Robust parsing handling spaces, commas, and negative signs
-        const cleanVal = (txt: string | undefined) => {
-            if (!txt) return 0;
-            // Remove spaces and normalize minus signs (en-dash, em-dash, minus sign to hyphen)
-            let clean = txt.trim().replace(/\s/g, '').replace(/[\u2013\u2014\u2212]/g, '-');
-            
-            // Convert comma decimal separator (common in EU reports) to dot
-            if (clean.includes(',') && !clean.includes('.')) {
-                clean = clean.replace(',', '.');
-            } else {
-                clean = clean.replace(/,/g, '');
-            }
-            const val = parseFloat(clean);
-            return isFinite(val) ? val : 0;
-        };
-        
-        const volume = cleanVal(c[volIdx].textContent);
-        const rawProfit = cleanVal(c[profitIdx].textContent);
-        const balance = cleanVal(c[balIdx].textContent);
+      if (timeStr && DATE_PATTERN.test(timeStr)) {
+        const text = (idx: number) => (idx !== -1 ? c[idx]?.textContent?.trim() || undefined : undefined);
+
+        const volume = numbers.read(c[volIdx].textContent, 'Volume');
+        const rawProfit = numbers.read(c[profitIdx].textContent, 'Profit');
+        const balance = numbers.read(c[balIdx].textContent, 'Balance');
         const type = c[typeIdx].textContent?.trim().toLowerCase();
         
-        const swap = swapIdx !== -1 ? cleanVal(c[swapIdx].textContent) : 0;
-        const commission = commIdx !== -1 ? cleanVal(c[commIdx].textContent) : 0;
+        const swap = swapIdx !== -1 ? numbers.read(c[swapIdx].textContent, 'Swap') : 0;
+        const fee = feeIdx !== -1 ? numbers.read(c[feeIdx].textContent, 'Fee') : 0;
+        const commission = (commIdx !== -1 ? numbers.read(c[commIdx].textContent, 'Commission') : 0) + fee;
         
         // Add swap (can be negative) and commission (usually negative) to net profit
         // This ensures Total Net Profit matches the report exactly regardless of sign
         const profit = rawProfit + swap + commission;
         
-        deals.push({ time: timeStr, balance, profit, volume, date: new Date(timeStr.replace(/\./g, '-')), type, swap, commission, rawProfit });
+        const entry = text(entryIdx)?.toLowerCase();
+        const price = priceIdx !== -1 ? cleanVal(c[priceIdx]?.textContent) : undefined;
+
+        deals.push({
+          time: timeStr, balance, profit, volume, date: parseDate(timeStr), type, entry,
+          symbol: text(symbolIdx), price, positionId: text(posIdx), deal: text(dealIdx), order: text(orderIdx), comment: text(commentIdx),
+          swap, commission, rawProfit
+        });
+      } else if (dealSection && timeStr) {
+        // Inside the Deals section a filled first cell should be a deal time
+        skipped++;
       }
     }
   });
 
-  const data = deals.length > 0 ? deals.sort((a, b) => a.date.getTime() - b.date.getTime()) : [];
+  if (skipped > 0) {
+    diagnostics.push({ level: 'warning', code: 'skipped-rows', message: `${skipped} row(s) in the Deals table had no readable time and were skipped.` });
+  }
+  diagnostics.push(...numbers.diagnostics());
+
+  if (kind === 'statement') {
+    return { deals, orders, initialDeposit: openingBalance(deals), reportMeta: meta, diagnostics, kind, account: parseAccountSummary(doc) };
+  }
+  return { deals, orders, initialDeposit: deposit, reportMeta: meta, diagnostics };
+};
+
+export const processData = (htmlContent: string): ParsedResult => {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(htmlContent, 'text/html');
+  const format = detectFormat(doc);
+  return buildResult(format, format === 'mt4' ? parseMT4(doc) : parseMT5(doc));
+};
+
+/**
+ * Turns the scraped deals into the shared ParsedResult: positions, trade timeline and metrics.
+ * Every importer ends here so all formats feed the same views.
+ */
+export const buildResult = (format: ReportFormat, raw: RawReport): ParsedResult => {
+  const { deals, orders, initialDeposit } = raw;
 
-  // Calculate Net Profit from data (Sum of all profits excluding deposits/withdrawals)
-  data.reduce((sum, d) => {
-      const isNonTrade = d.type 
-         ? ['balance', 'deposit', 'withdrawal'].some(t => d.type?.includes(t))
-         : d.volume === 0;
-      return isNonTrade ? sum : sum + d.profit;
-  }, 0);
+  const sortedDeals = deals.length > 0 ? deals.sort((a, b) => a.date.getTime() - b.date.getTime()) : [];
 
+  // Pair in/out deals so each round trip counts as one trade
+  const positions = estimateExcursions(attachOrders(reconstructPositions(sortedDeals), orders));
+  const data = toTradeTimeline(sortedDeals, positions);
 
-  // Check for Fixed Lot Size
-  const trades = deals.filter(d => d.volume > 0);
-  if (trades.length > 0) {
-    const firstVol = trades[0].volume;
-    const isFixed = trades.every(d => d.volume === firstVol);
-    if (isFixed) {
-      meta.fixedLotSize = firstVol;
-    }
-  }
+  // Every statistic is computed from the trades; a scraped summary overrides what it reports
+  const computed = calculateStats(data, initialDeposit);
+  const metrics = raw.reportMeta ? fromReportMeta(raw.reportMeta, computed) : computed;
 
-  return { data, initialDeposit: deposit, reportMeta: meta };
+  // Verify the scraped summary against the deals before anything is derived from it
+  const kind = raw.kind ?? 'backtest';
+  const diagnostics: Diagnostic[] = [
+    { level: 'info', code: 'format', message: `Detected format: ${format.toUpperCase()}${kind === 'statement' ? ' account statement' : ''}.` },
+    ...raw.diagnostics,
+    ...reconcile(sortedDeals, data, positions, raw.reportMeta),
+  ];
+
+  return {
+    format, kind, account: raw.account, data, deals: sortedDeals, orders, positions, symbols: listSymbols(sortedDeals),
+    initialDeposit, metrics, diagnostics,
+  };
 };
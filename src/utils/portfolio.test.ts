@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { calculateContributions, calculateCorrelationMatrix, combinePortfolio, type PortfolioMember } from './portfolio';
+import { history, row } from './testFixtures';
+
+const member = (id: string, data: PortfolioMember['data'], weight = 1, initialDeposit = 1000): PortfolioMember =>
+  ({ id, name: 'ReportTester.html', data, initialDeposit, weight });
+
+// A deposit on 1 January, then one trade mid-month from January on
+const monthly = (deposit: number, profits: number[]) => {
+  let balance = deposit;
+  return [row(1, deposit, deposit, 0), ...profits.map((profit, month) => {
+    balance += profit;
+    return row(15, profit, balance, 1, { date: new Date(2024, month, 15) });
+  })];
+};
+
+describe('combinePortfolio', () => {
+  const a = member('a', history([[1, 1000, 0], [2, 100], [5, -40]]));
+  const b = member('b', history([[1, 500, 0], [3, 60, 2], [4, 200, 0]]), 0.5);
+
+  it('merges the weighted trades in time order on a fresh balance', () => {
+    const combined = combinePortfolio([a, b], 2000);
+
+    expect(combined.map(d => [d.date.getDate(), d.profit, d.volume, d.balance, d.strategy])).toEqual([
+      [2, 2000, 0, 2000, undefined],
+      [2, 100, 1, 2100, 'a'],
+      [3, 30, 1, 2130, 'b'],
+      [5, -40, 1, 2090, 'a'],
+    ]);
+  });
+
+  it('returns nothing without trades', () => {
+    expect(combinePortfolio([member('a', history([[1, 1000, 0]]))], 1000)).toEqual([]);
+  });
+
+  it('splits the net profit by strategy', () => {
+    expect(calculateContributions(combinePortfolio([a, b], 2000))).toEqual([
+      { id: 'a', name: 'ReportTester.html', trades: 2, netProfit: 60, share: expect.closeTo(200 / 3) },
+      { id: 'b', name: 'ReportTester.html', trades: 1, netProfit: 30, share: expect.closeTo(100 / 3) },
+    ]);
+  });
+});
+
+describe('calculateCorrelationMatrix', () => {
+  it('correlates the monthly returns over the months both strategies cover', () => {
+    const matrix = calculateCorrelationMatrix([
+      member('a', monthly(1000, [100, -50, 80, 20])),
+      // The same returns on twice the balance
+      member('b', monthly(2000, [200, -100, 160, 40]), 1, 2000),
+      member('c', monthly(1000, [-100, 50])),
+    ]);
+
+    expect(matrix.ids).toEqual(['a', 'b', 'c']);
+    expect(matrix.values[0][1]).toBeCloseTo(1);
+    expect(matrix.values[1][0]).toBeCloseTo(1);
+    expect(matrix.values[0][2]).toBeNull();
+    expect(matrix.values[2][2]).toBe(1);
+  });
+});
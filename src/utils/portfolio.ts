@@ -0,0 +1,110 @@
+import { type DataPoint } from './parser';
+import { returnSeries } from './riskMetrics';
+
+export interface PortfolioMember {
+  id: string; // the report's ID; file names repeat (MT5 saves every run as ReportTester-<login>.html)
+  name: string;
+  data: DataPoint[];
+  initialDeposit: number;
+  weight: number; // multiplies every trade of the strategy, e.g. 0.5 for half size
+}
+
+export interface StrategyContribution {
+  id: string;
+  name: string;
+  trades: number;
+  netProfit: number;
+  share: number; // % of the portfolio's net profit
+}
+
+export interface CorrelationMatrix {
+  ids: string[];
+  names: string[];
+  values: (number | null)[][]; // null when two strategies share fewer than three months
+}
+
+const MIN_OVERLAP = 3;
+
+/**
+ * Merges the trades of several strategies into one account history: each trade is scaled by its
+ * strategy's weight and the balance is rebuilt from the shared starting deposit.
+ * The reports' own deposits and withdrawals are left out.
+ */
+export const combinePortfolio = (members: PortfolioMember[], startingDeposit: number): DataPoint[] => {
+  const trades = members
+    .flatMap(m => m.data.filter(d => d.volume > 0).map(d => ({
+      ...d,
+      strategy: m.id,
+      strategyName: m.name,
+      profit: d.profit * m.weight,
+      volume: d.volume * m.weight,
+      rawProfit: d.rawProfit !== undefined ? d.rawProfit * m.weight : undefined,
+      commission: d.commission !== undefined ? d.commission * m.weight : undefined,
+      swap: d.swap !== undefined ? d.swap * m.weight : undefined,
+      mae: d.mae !== undefined ? d.mae * m.weight : undefined,
+      mfe: d.mfe !== undefined ? d.mfe * m.weight : undefined,
+    })))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  if (trades.length === 0) return [];
+
+  let balance = startingDeposit;
+  const deposit: DataPoint = {
+    time: trades[0].time, date: trades[0].date, balance, profit: startingDeposit, volume: 0, type: 'balance'
+  };
+
+  return [deposit, ...trades.map(d => {
+    balance += d.profit;
+    return { ...d, balance };
+  })];
+};
+
+export const calculateContributions = (combined: DataPoint[]): StrategyContribution[] => {
+  const rows: Record<string, StrategyContribution> = {};
+  let total = 0;
+
+  combined.forEach(d => {
+    if (d.volume <= 0 || !d.strategy) return;
+    const row = rows[d.strategy] ??= { id: d.strategy, name: d.strategyName ?? d.strategy, trades: 0, netProfit: 0, share: 0 };
+    row.trades++;
+    row.netProfit += d.profit;
+    total += d.profit;
+  });
+
+  return Object.values(rows).map(row => ({ ...row, share: total !== 0 ? (row.netProfit / Math.abs(total)) * 100 : 0 }));
+};
+
+const pearson = (a: number[], b: number[]) => {
+  const n = a.length;
+  const meanA = a.reduce((s, v) => s + v, 0) / n;
+  const meanB = b.reduce((s, v) => s + v, 0) / n;
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+};
+
+/**
+ * Pearson correlation of the strategies' monthly returns, each measured on its own report's balance
+ * (weights scale a strategy's returns and leave correlations unchanged). Pairs are compared over
+ * the months both reports cover.
+ */
+export const calculateCorrelationMatrix = (members: PortfolioMember[]): CorrelationMatrix => {
+  const series = members.map(m => new Map(
+    returnSeries(m.data, m.initialDeposit, 'monthly').map(r => [r.start.getTime(), r.value])
+  ));
+
+  const values = series.map((a, i) => series.map((b, j) => {
+    if (i === j) return 1;
+    const months = Array.from(a.keys()).filter(month => b.has(month));
+    if (months.length < MIN_OVERLAP) return null;
+    return pearson(months.map(month => a.get(month) as number), months.map(month => b.get(month) as number));
+  }));
+
+  return { ids: members.map(m => m.id), names: members.map(m => m.name), values };
+};
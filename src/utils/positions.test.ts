@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { type DataPoint } from './parser';
+import { reconstructPositions } from './positions';
+
+const deal = (day: number, fields: Partial<DataPoint>): DataPoint => ({
+  time: `2024.01.0${day} 10:00:00`,
+  date: new Date(2024, 0, day, 10),
+  balance: 0,
+  profit: 0,
+  volume: 1,
+  symbol: 'EURUSD',
+  ...fields,
+});
+
+describe('reconstructPositions', () => {
+  it('pairs an entry with its closing deal', () => {
+    const positions = reconstructPositions([
+      deal(1, { type: 'buy', entry: 'in', price: 1.1, commission: -3, positionId: '1' }),
+      deal(2, { type: 'sell', entry: 'out', price: 1.12, profit: 200, rawProfit: 200, commission: -3, positionId: '1' }),
+    ]);
+
+    expect(positions).toHaveLength(1);
+    expect(positions[0]).toMatchObject({ direction: 'buy', volume: 1, entryPrice: 1.1, exitPrice: 1.12, commission: -6, profit: 194 });
+  });
+
+  it('splits a partial close and its entry commission pro rata', () => {
+    const positions = reconstructPositions([
+      deal(1, { type: 'sell', entry: 'in', volume: 2, price: 1.1, commission: -4 }),
+      deal(2, { type: 'buy', entry: 'out', volume: 1, price: 1.09, profit: 100, rawProfit: 100 }),
+      deal(3, { type: 'buy', entry: 'out', volume: 1, price: 1.08, profit: 200, rawProfit: 200 }),
+    ]);
+
+    expect(positions.map(p => [p.direction, p.volume, p.commission, p.profit])).toEqual([
+      ['sell', 1, -2, 98],
+      ['sell', 1, -2, 198],
+    ]);
+  });
+
+  it('keeps the position ID on the remainder of an inout reversal', () => {
+    const positions = reconstructPositions([
+      deal(1, { type: 'buy', entry: 'in', price: 1.1, positionId: '7' }),
+      deal(2, { type: 'sell', entry: 'inout', volume: 2, price: 1.2, profit: 100, rawProfit: 100, positionId: '7' }),
+      deal(3, { type: 'buy', entry: 'out', price: 1.15, profit: 50, rawProfit: 50, positionId: '7' }),
+    ]);
+
+    expect(positions.map(p => [p.direction, p.volume, p.entryPrice, p.exitPrice])).toEqual([
+      ['buy', 1, 1.1, 1.2],
+      ['sell', 1, 1.2, 1.15],
+    ]);
+  });
+});
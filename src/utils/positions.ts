@@ -0,0 +1,180 @@
+import { type DataPoint, type Order } from './parser';
+
+export interface Position {
+  symbol: string;
+  direction: 'buy' | 'sell';
+  volume: number;
+  entryTime: string;
+  exitTime: string;
+  entryDate: Date;
+  exitDate: Date;
+  entryPrice: number;
+  exitPrice: number;
+  holdingTime: number; // milliseconds
+  rawProfit: number;
+  commission: number;
+  swap: number;
+  profit: number; // net of swap and commission (entry + exit)
+  balance: number; // account balance after the closing deal
+  entryOrder?: string;
+  exitOrder?: string;
+  stopLoss?: number; // from the entry order, when the Orders table is available
+  takeProfit?: number;
+  comment?: string; // closing deal comment ("sl 1.0850", "tp 1.0920"...)
+  mae?: number; // maximum adverse excursion in money (<= 0)
+  mfe?: number; // maximum favourable excursion in money (>= 0)
+  excursionEstimated?: boolean; // true when MAE / MFE were estimated rather than reported
+}
+
+// An open lot waiting for its closing deal
+interface OpenLot {
+  deal: DataPoint;
+  direction: 'buy' | 'sell';
+  remaining: number;
+  commission: number; // entry commission not yet attributed to a position
+}
+
+const isTradeDeal = (d: DataPoint) => d.volume > 0 && (d.type === 'buy' || d.type === 'sell');
+
+const round = (v: number) => Math.round(v * 1e8) / 1e8;
+
+/**
+ * Pairs MT5 "in" / "out" / "inout" deals into round-trip positions.
+ * Deals carrying a position ID are matched on it; the rest are matched FIFO per symbol and direction.
+ * A partial close yields one position per closing deal, with the entry commission split pro rata.
+ */
+export const reconstructPositions = (deals: DataPoint[]): Position[] => {
+  const positions: Position[] = [];
+  const queues: Record<string, OpenLot[]> = {};
+
+  const keyFor = (d: DataPoint, direction: string) =>
+    d.positionId ? `#${d.positionId}` : `${d.symbol || ''}:${direction}`;
+
+  const open = (deal: DataPoint, volume: number, commission: number) => {
+    const direction = deal.type as 'buy' | 'sell';
+    const key = keyFor(deal, direction);
+    (queues[key] ??= []).push({ deal, direction, remaining: volume, commission });
+  };
+
+  const close = (deal: DataPoint, volume: number) => {
+    // A sell deal closes a buy position and vice versa
+    const direction = deal.type === 'sell' ? 'buy' : 'sell';
+    const queue = queues[keyFor(deal, direction)] ?? [];
+    let left = volume;
+
+    const record = (entryDeal: DataPoint, qty: number, entryCommission: number) => {
+      // Profit and swap belong to the closed volume; the exit commission is charged on the whole deal volume
+      const closedShare = qty / volume;
+      const rawProfit = (deal.rawProfit ?? deal.profit) * closedShare;
+      const swap = (deal.swap ?? 0) * closedShare;
+      const commission = entryCommission + (deal.commission ?? 0) * (qty / deal.volume);
+
+      positions.push({
+        symbol: deal.symbol || entryDeal.symbol || '',
+        direction,
+        volume: round(qty),
+        entryTime: entryDeal.time,
+        exitTime: deal.time,
+        entryDate: entryDeal.date,
+        exitDate: deal.date,
+        entryPrice: entryDeal.price ?? 0,
+        exitPrice: deal.price ?? 0,
+        holdingTime: deal.date.getTime() - entryDeal.date.getTime(),
+        rawProfit,
+        commission,
+        swap,
+        profit: rawProfit + commission + swap,
+        balance: deal.balance,
+        entryOrder: entryDeal.order,
+        exitOrder: deal.order,
+        comment: deal.comment,
+        mae: deal.mae !== undefined ? deal.mae * closedShare : undefined,
+        mfe: deal.mfe !== undefined ? deal.mfe * closedShare : undefined,
+      });
+    };
+
+    while (left > 0 && queue.length > 0) {
+      const lot = queue[0];
+      const qty = Math.min(lot.remaining, left);
+      const entryCommission = lot.commission * (qty / lot.remaining);
+
+      record(lot.deal, qty, entryCommission);
+
+      lot.remaining = round(lot.remaining - qty);
+      lot.commission -= entryCommission;
+      if (lot.remaining <= 0) queue.shift();
+      left = round(left - qty);
+    }
+
+    // Closing deal without a matching entry (opened before the report started): keep its P&L
+    if (left > 0) record(deal, left, 0);
+  };
+
+  deals.forEach(deal => {
+    if (!isTradeDeal(deal)) return;
+
+    if (deal.entry === 'in') {
+      open(deal, deal.volume, deal.commission ?? 0);
+    } else if (deal.entry === 'out' || deal.entry === 'out_by') {
+      close(deal, deal.volume);
+    } else if (deal.entry === 'inout') {
+      // Reversal: the closed part takes the profit, the remainder opens the opposite position.
+      // MT5 keeps the position ID across the reversal, so the remainder stays under it
+      const openVolume = queues[keyFor(deal, deal.type === 'sell' ? 'buy' : 'sell')]
+        ?.reduce((sum, lot) => sum + lot.remaining, 0) ?? 0;
+      const closing = Math.min(openVolume, deal.volume);
+      if (closing > 0) close(deal, closing);
+      const remainder = round(deal.volume - closing);
+      if (remainder > 0) {
+        open(deal, remainder, (deal.commission ?? 0) * (remainder / deal.volume));
+      }
+    }
+  });
+
+  return positions.sort((a, b) => a.exitDate.getTime() - b.exitDate.getTime());
+};
+
+/**
+ * Copies S/L and T/P from each position's entry order.
+ */
+export const attachOrders = (positions: Position[], orders: Order[]): Position[] => {
+  if (orders.length === 0) return positions;
+  const byId = new Map(orders.map(o => [o.order, o]));
+
+  return positions.map(p => {
+    const order = p.entryOrder ? byId.get(p.entryOrder) : undefined;
+    return order ? { ...p, stopLoss: order.stopLoss, takeProfit: order.takeProfit } : p;
+  });
+};
+
+/**
+ * Builds the trade timeline consumed by the statistics and simulation:
+ * one point per closed position plus every non-trade balance operation.
+ * Reports without in/out information are returned unchanged.
+ */
+export const toTradeTimeline = (deals: DataPoint[], positions: Position[]): DataPoint[] => {
+  if (!deals.some(d => d.entry)) return deals;
+
+  const nonTrade = deals.filter(d => !isTradeDeal(d));
+  const trades: DataPoint[] = positions.map(p => ({
+    time: p.exitTime,
+    date: p.exitDate,
+    balance: p.balance,
+    profit: p.profit,
+    volume: p.volume,
+    type: p.direction,
+    symbol: p.symbol,
+    price: p.exitPrice,
+    entryPrice: p.entryPrice,
+    entryDate: p.entryDate,
+    stopLoss: p.stopLoss,
+    swap: p.swap,
+    commission: p.commission,
+    rawProfit: p.rawProfit,
+    mae: p.mae,
+    mfe: p.mfe,
+    excursionEstimated: p.excursionEstimated,
+  }));
+
+  return [...nonTrade, ...trades].sort((a, b) => a.date.getTime() - b.date.getTime());
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDailyReturns, calculateReturnTables, chartReturns } from './returns';
+import { row } from './testFixtures';
+
+const at = (year: number, month: number, d: number, profit: number, balance: number, volume = 1) =>
+  row(d, profit, balance, volume, { date: new Date(year, month, d, 12) });
+
+// Funded in December 2023, topped up on 1 February 2024
+const data = [
+  at(2023, 11, 1, 1000, 1000, 0),
+  at(2023, 11, 20, 100, 1100),
+  at(2024, 0, 5, 55, 1155),
+  at(2024, 1, 1, 500, 1655, 0),
+  at(2024, 1, 10, -115.5, 1539.5),
+];
+
+describe('calculateReturnTables', () => {
+  it('measures each month and year against the balance it started with', () => {
+    const tables = calculateReturnTables(data, 1000);
+
+    expect(tables.monthly.map(r => [r.label, r.startBalance, r.profit, r.percent])).toEqual([
+      ['Dec 2023', 1000, 100, 10],
+      ['Jan 2024', 1100, 55, 5],
+      ['Feb 2024', 1155, -115.5, -10],
+    ]);
+    expect(tables.yearly.map(r => [r.label, r.startBalance, r.profit, r.trades, r.percent])).toEqual([
+      ['2023', 1000, 100, 1, 10],
+      ['2024', 1100, -60.5, 2, -5.5],
+    ]);
+  });
+
+  it('measures a period cut from the report against the balance brought forward', () => {
+    const { monthly } = calculateReturnTables(data.slice(3), { broughtForward: 1155 });
+
+    expect(monthly).toEqual([expect.objectContaining({ label: 'Feb 2024', startBalance: 1155, percent: -10 })]);
+  });
+});
+
+describe('calculateDailyReturns', () => {
+  it('gives a row to each day with activity', () => {
+    expect(calculateDailyReturns(data, 1000).map(r => [r.label, r.day, r.profit])).toEqual([
+      ['2023.12.01', 1, 0],
+      ['2023.12.20', 20, 100],
+      ['2024.01.05', 5, 55],
+      ['2024.02.01', 1, 0],
+      ['2024.02.10', 10, -115.5],
+    ]);
+  });
+});
+
+describe('chartReturns', () => {
+  const tables = calculateReturnTables(data, 1000);
+
+  it('lays out the twelve months of the chosen year', () => {
+    const { monthly } = chartReturns(tables, 2024, 'percentage');
+
+    expect(monthly).toHaveLength(12);
+    expect(monthly.slice(0, 3)).toEqual([
+      { label: 'Jan', profit: 55, val: 5 },
+      { label: 'Feb', profit: -115.5, val: -10 },
+      { label: 'Mar', profit: 0, val: 0 },
+    ]);
+  });
+
+  it('charts money instead of percent on request', () => {
+    expect(chartReturns(tables, 2024, 'money').yearly.map(r => r.val)).toEqual([100, -60.5]);
+  });
+});
@@ -0,0 +1,78 @@
+import { type DataPoint } from './parser';
+import { groupByPeriod, type OpeningBalance } from './balance';
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface ReturnRow {
+  year: number;
+  month?: number; // 0-11 on monthly and daily rows
+  day?: number; // 1-31 on daily rows
+  label: string;
+  profit: number; // trading result of the period, deposits and withdrawals excluded
+  trades: number;
+  startBalance: number;
+  percent: number; // profit relative to the balance the period started with
+}
+
+export interface ReturnTables {
+  monthly: ReturnRow[];
+  yearly: ReturnRow[];
+}
+
+export interface ChartReturn {
+  label: string;
+  profit: number;
+  val: number; // the bar value: percent or money, rounded for the labels
+}
+
+type Granularity = 'day' | 'month' | 'year';
+
+// First moment of the calendar period a date falls in
+const periodStart = (date: Date, granularity: Granularity) =>
+  new Date(date.getFullYear(), granularity === 'year' ? 0 : date.getMonth(), granularity === 'day' ? date.getDate() : 1).getTime();
+
+const periodLabel = (date: Date, granularity: Granularity) => {
+  const year = date.getFullYear();
+  if (granularity === 'year') return { year, label: `${year}` };
+  const month = date.getMonth();
+  if (granularity === 'month') return { year, month, label: `${MONTH_LABELS[month]} ${year}` };
+  const day = date.getDate();
+  return { year, month, day, label: `${year}.${String(month + 1).padStart(2, '0')}.${String(day).padStart(2, '0')}` };
+};
+
+// Results per calendar period in time order; only periods with activity get a row
+const groupReturns = (data: DataPoint[], initialDeposit: OpeningBalance, granularity: Granularity): ReturnRow[] =>
+  groupByPeriod(data, initialDeposit, date => periodStart(date, granularity)).map(({ start, startBalance, profit, trades }) => ({
+    ...periodLabel(new Date(start), granularity),
+    profit,
+    trades,
+    startBalance,
+    percent: startBalance > 0 ? (profit / startBalance) * 100 : 0,
+  }));
+
+/**
+ * Monthly and yearly results, each measured against the balance its period started with,
+ * for the return charts, exports and heatmaps. The yearly figure is the year-to-date return.
+ */
+export const calculateReturnTables = (data: DataPoint[], initialDeposit: OpeningBalance): ReturnTables => ({
+  monthly: groupReturns(data, initialDeposit, 'month'),
+  yearly: groupReturns(data, initialDeposit, 'year'),
+});
+
+export const calculateDailyReturns = (data: DataPoint[], initialDeposit: OpeningBalance): ReturnRow[] =>
+  groupReturns(data, initialDeposit, 'day');
+
+/**
+ * Bars for the return charts: the twelve months of one year, or every year.
+ */
+export const chartReturns = (tables: ReturnTables, year: number, mode: string): { monthly: ChartReturn[]; yearly: ChartReturn[] } => {
+  const val = (row: ReturnRow) => parseFloat((mode === 'percentage' ? row.percent : row.profit).toFixed(2));
+
+  return {
+    monthly: MONTH_LABELS.map((label, month) => {
+      const row = tables.monthly.find(r => r.year === year && r.month === month);
+      return { label, profit: row?.profit ?? 0, val: row ? val(row) : 0 };
+    }),
+    yearly: tables.yearly.map(row => ({ label: row.label, profit: row.profit, val: val(row) })),
+  };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRiskMetrics, periodicReturns, returnSeries } from './riskMetrics';
+import { calculateStats } from './statistics';
+import { history } from './testFixtures';
+
+// Monday 1 January 2024 opens the account; the trades fall on weekdays around a weekend
+const data = history([[1, 1000, 0], [2, 100], [5, -50], [8, 60]]);
+
+describe('returnSeries', () => {
+  it('counts trading days without trades as zero returns and skips weekends', () => {
+    const series = returnSeries(data, 1000, 'daily');
+
+    expect(series.map(r => r.start.getDate())).toEqual([1, 2, 3, 4, 5, 8]);
+    expect(series.map(r => r.value)).toEqual([0, 0.1, 0, 0, -50 / 1100, 60 / 1050]);
+  });
+
+  it('measures monthly returns against the balance the month started with', () => {
+    expect(periodicReturns(data, 1000, 'monthly')).toEqual([110 / 1000]);
+  });
+});
+
+describe('calculateRiskMetrics', () => {
+  it('annualises Sharpe and Sortino from the periodic returns', () => {
+    const risk = calculateRiskMetrics(data, 1000);
+
+    expect(risk.sharpe).toBeCloseTo(5.7398, 4);
+    expect(calculateRiskMetrics(data, 1000, { riskFreeRate: 5, period: 'daily' })).toMatchObject({
+      sharpe: expect.closeTo(5.6801, 4),
+      sortino: expect.closeTo(15.6912, 4),
+    });
+  });
+
+  it('derives the drawdown ratios from the balance history', () => {
+    const risk = calculateRiskMetrics(data, 1000);
+
+    expect(risk.recoveryFactor).toBeCloseTo(110 / 50);
+    expect(risk.expectedPayoff).toBeCloseTo(110 / 3);
+    // Under a year the plain return stands in for the CAGR
+    expect(risk.cagr).toBeCloseTo(11);
+    expect(risk.calmar).toBeCloseTo(11 / ((50 / 1100) * 100));
+  });
+
+  it('gives calculateStats the same Sharpe ratio', () => {
+    const settings = { riskFreeRate: 2, period: 'weekly' as const };
+
+    expect(calculateStats(data, 1000, settings).sharpeRatio).toBe(calculateRiskMetrics(data, 1000, settings).sharpe);
+  });
+});
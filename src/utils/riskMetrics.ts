@@ -0,0 +1,168 @@
+import { type DataPoint } from './parser';
+import { groupByPeriod, openingAmount, startingBalance, type OpeningBalance } from './balance';
+
+export type ReturnsPeriod = 'daily' | 'weekly' | 'monthly';
+
+export interface RiskSettings {
+  riskFreeRate: number; // annual, in percent
+  period: ReturnsPeriod;
+}
+
+export interface RiskMetrics {
+  sharpe: number;
+  sortino: number;
+  calmar: number;
+  recoveryFactor: number;
+  expectedPayoff: number;
+  ulcerIndex: number;
+  sqn: number;
+  kRatio: number;
+  cagr: number; // percent
+  annualVolatility: number; // percent
+}
+
+export interface PeriodReturn {
+  start: Date;
+  value: number; // fraction of the balance at the start of the period
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = { riskFreeRate: 0, period: 'daily' };
+
+export const PERIODS_PER_YEAR: Record<ReturnsPeriod, number> = { daily: 252, weekly: 52, monthly: 12 };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+const stdDev = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+const startOfPeriod = (date: Date, period: ReturnsPeriod) => {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (period === 'weekly') d.setDate(d.getDate() - ((d.getDay() + 6) % 7)); // back to Monday
+  if (period === 'monthly') d.setDate(1);
+  // Weekend activity belongs to the Friday before
+  if (period === 'daily') while (d.getDay() === 0 || d.getDay() === 6) d.setDate(d.getDate() - 1);
+  return d;
+};
+
+const nextPeriod = (date: Date, period: ReturnsPeriod) => {
+  const d = new Date(date);
+  if (period === 'monthly') d.setMonth(d.getMonth() + 1);
+  else if (period === 'weekly') d.setDate(d.getDate() + 7);
+  else {
+    // Trading days only: skip from Friday to Monday
+    d.setDate(d.getDate() + 1);
+    while (d.getDay() === 0 || d.getDay() === 6) d.setDate(d.getDate() + 1);
+  }
+  return d;
+};
+
+/**
+ * Trade returns per calendar period, relative to the balance at the start of the period.
+ * Periods without trades count as zero returns; deposits and withdrawals move the base, not the return.
+ */
+export const returnSeries = (data: DataPoint[], initialDeposit: OpeningBalance, period: ReturnsPeriod): PeriodReturn[] => {
+  if (data.length === 0) return [];
+
+  // A history opening on a weekend starts with the Monday after
+  let first = startOfPeriod(data[0].date, period);
+  if (period === 'daily' && (data[0].date.getDay() === 0 || data[0].date.getDay() === 6)) first = nextPeriod(first, period);
+  const periodOf = (date: Date) => Math.max(first.getTime(), startOfPeriod(date, period).getTime());
+
+  const active = new Map(groupByPeriod(data, initialDeposit, periodOf).map(row => [row.start, row]));
+  const last = periodOf(data[data.length - 1].date);
+  const returns: PeriodReturn[] = [];
+
+  for (let cursor = first; cursor.getTime() <= last; cursor = nextPeriod(cursor, period)) {
+    const row = active.get(cursor.getTime());
+    returns.push({ start: cursor, value: row && row.startBalance > 0 ? row.profit / row.startBalance : 0 });
+  }
+
+  return returns;
+};
+
+export const periodicReturns = (data: DataPoint[], initialDeposit: OpeningBalance, period: ReturnsPeriod): number[] =>
+  returnSeries(data, initialDeposit, period).map(r => r.value);
+
+/**
+ * Risk-adjusted ratio suite computed from the balance history.
+ * Sharpe and Sortino are annualised from periodic returns; SQN uses per-trade P&L (capped at 100 trades);
+ * K-ratio is the slope of log equity over its standard error, scaled by the number of periods (Kestner, 1996).
+ */
+export const calculateRiskMetrics = (
+  data: DataPoint[],
+  initialDeposit: OpeningBalance,
+  settings: RiskSettings = DEFAULT_RISK_SETTINGS
+): RiskMetrics => {
+  const trades = data.filter(d => d.volume > 0).map(d => d.profit);
+  const returns = periodicReturns(data, initialDeposit, settings.period);
+  const periodsPerYear = PERIODS_PER_YEAR[settings.period];
+  const rf = Math.pow(1 + settings.riskFreeRate / 100, 1 / periodsPerYear) - 1;
+
+  // Sharpe & Sortino
+  const excess = returns.map(r => r - rf);
+  const sd = stdDev(returns);
+  const downside = Math.sqrt(mean(excess.map(r => Math.min(0, r) ** 2)));
+  const sharpe = sd > 0 ? (mean(excess) / sd) * Math.sqrt(periodsPerYear) : 0;
+  const sortino = returns.length > 1 && downside > 0 ? (mean(excess) / downside) * Math.sqrt(periodsPerYear) : 0;
+
+  // Drawdowns on the balance, for Calmar, recovery factor and Ulcer index
+  let balance = startingBalance(data, initialDeposit);
+  let peak = balance;
+  let maxDD = 0;
+  let maxDDPct = 0;
+  const ddSquares: number[] = [];
+  data.forEach(d => {
+    balance += d.profit;
+    peak = Math.max(peak, balance);
+    const dd = peak - balance;
+    const ddPct = peak > 0 ? (dd / peak) * 100 : 0;
+    maxDD = Math.max(maxDD, dd);
+    maxDDPct = Math.max(maxDDPct, ddPct);
+    ddSquares.push(ddPct ** 2);
+  });
+
+  const netProfit = trades.reduce((a, b) => a + b, 0);
+  const start = openingAmount(initialDeposit) || (data.length > 0 ? data[0].balance : 0);
+  const years = data.length > 1 ? (data[data.length - 1].date.getTime() - data[0].date.getTime()) / (365.25 * DAY) : 0;
+  // Under a year compounding would extrapolate a few lucky days, so the plain return is used
+  const growth = start > 0 ? (start + netProfit) / start : 0;
+  const cagr = growth <= 0 ? 0 : years >= 1 ? (Math.pow(growth, 1 / years) - 1) * 100 : (growth - 1) * 100;
+
+  // SQN
+  const tradeSd = stdDev(trades);
+  const sqn = tradeSd > 0 ? (Math.sqrt(Math.min(trades.length, 100)) * mean(trades)) / tradeSd : 0;
+
+  // K-ratio: regression of cumulative log returns against the period index
+  let logEquity = 0;
+  const curve = returns.map(r => (logEquity += Math.log(1 + Math.max(r, -0.9999))));
+  let kRatio = 0;
+  if (curve.length > 2) {
+    const n = curve.length;
+    const xs = curve.map((_, i) => i + 1);
+    const xMean = mean(xs);
+    const yMean = mean(curve);
+    const sxx = xs.reduce((sum, x) => sum + (x - xMean) ** 2, 0);
+    const slope = xs.reduce((sum, x, i) => sum + (x - xMean) * (curve[i] - yMean), 0) / sxx;
+    const residual = curve.reduce((sum, y, i) => sum + (y - (yMean + slope * (xs[i] - xMean))) ** 2, 0);
+    const slopeError = Math.sqrt(residual / (n - 2) / sxx);
+    kRatio = slopeError > 0 ? slope / (slopeError * Math.sqrt(n)) : 0;
+  }
+
+  return {
+    sharpe,
+    sortino,
+    calmar: maxDDPct > 0 ? cagr / maxDDPct : 0,
+    recoveryFactor: maxDD > 0 ? netProfit / maxDD : 0,
+    expectedPayoff: trades.length > 0 ? netProfit / trades.length : 0,
+    ulcerIndex: Math.sqrt(mean(ddSquares)),
+    sqn,
+    kRatio,
+    cagr,
+    annualVolatility: sd * Math.sqrt(periodsPerYear) * 100,
+  };
+};
@@ -0,0 +1,32 @@
+// A value with each Date stored as { $date: epoch ms }, for the Redux state and the library, which hold plain data only
+export type Serialized<T> = T extends Date
+  ? { $date: number }
+  : T extends (infer U)[]
+    ? Serialized<U>[]
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
+
+const isSerializedDate = (value: object): value is { $date: number } => '$date' in value;
+
+const serialize = (value: unknown): unknown => {
+  if (value instanceof Date) return { $date: value.getTime() };
+  if (Array.isArray(value)) return value.map(serialize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, serialize(v)]));
+  }
+  return value;
+};
+
+const revive = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(revive);
+  if (value && typeof value === 'object') {
+    if (isSerializedDate(value)) return new Date(value.$date);
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, revive(v)]));
+  }
+  return value;
+};
+
+export const serializeDates = <T>(value: T) => serialize(value) as Serialized<T>;
+
+export const reviveDates = <T>(value: Serialized<T>) => revive(value) as T;
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIZING, calculateSizingAttribution, kellyCriterion, riskPerLot, simulateSizing, type SizingSettings } from './sizing';
+import { history, row } from './testFixtures';
+
+// One-lot trades: per lot +100, -50, +200, -100
+const data = history([[1, 1000, 0], [2, 100], [3, -50], [4, 200], [5, -100]]);
+
+const settings = (fields: Partial<SizingSettings>): SizingSettings => ({ ...DEFAULT_SIZING, lotSize: 0.1, ...fields });
+const balances = (fields: Partial<SizingSettings>) => simulateSizing(data, 1000, settings(fields)).map(d => d.simulatedBalance);
+
+describe('simulateSizing', () => {
+  it('replays every trade at the fixed lot and passes balance operations through', () => {
+    const simulated = simulateSizing(data, 1000, settings({ lotSize: 0.5 }));
+
+    expect(simulated.map(d => d.simulatedBalance)).toEqual([1000, 1050, 1025, 1125, 1075]);
+    expect(simulated[0]).toMatchObject({ simulatedProfit: 1000, simulatedVolume: 0 });
+  });
+
+  it('sizes fixed fractional against the largest loss and rounds down to the lot step', () => {
+    expect(balances({ model: 'fixed-fractional', riskPercent: 1 })).toEqual([1000, 1010, 1005, 1025, 1015]);
+  });
+
+  it('sizes fixed risk from the stop distance of each trade', () => {
+    // Risked 0.0050 of a 0.0100 move that made 100: 50 per lot
+    const trades = [row(1, 1000, 1000, 0), row(2, 100, 1100, 1, { entryPrice: 1.1, price: 1.11, stopLoss: 1.095, rawProfit: 100 })];
+    const [, first] = simulateSizing(trades, 1000, settings({ model: 'fixed-risk', riskPercent: 1 }));
+
+    expect(first.simulatedVolume).toBeCloseTo(0.2);
+  });
+
+  it('doubles up after a loss on martingale and resets after a win', () => {
+    const simulated = simulateSizing(data, 1000, settings({ model: 'martingale', multiplier: 2 }));
+
+    expect(simulated.map(d => d.simulatedVolume)).toEqual([0, 0.1, 0.1, 0.2, 0.1]);
+    expect(simulated.map(d => d.simulatedBalance)).toEqual([1000, 1010, 1005, 1045, 1035]);
+  });
+
+  it('steps up after a win on anti-martingale, up to the step limit', () => {
+    const wins = history([[1, 1000, 0], [2, 10], [3, 10], [4, 10], [5, 10]]);
+    const simulated = simulateSizing(wins, 1000, settings({ model: 'anti-martingale', multiplier: 2, maxSteps: 2 }));
+
+    expect(simulated.map(d => d.simulatedVolume)).toEqual([0, 0.1, 0.2, 0.4, 0.1]);
+  });
+
+  it('stops trading once the account is blown', () => {
+    const blown = history([[1, 100, 0], [2, -150], [3, 100]]);
+    const simulated = simulateSizing(blown, 100, settings({ model: 'martingale', lotSize: 1 }));
+
+    expect(simulated.map(d => d.simulatedVolume)).toEqual([0, 1, 0]);
+    expect(simulated[2].simulatedBalance).toBe(-50);
+  });
+});
+
+describe('kellyCriterion', () => {
+  it('weighs the win rate against the payoff ratio', () => {
+    // Half the trades win, and the average win is twice the average loss
+    expect(kellyCriterion(data)).toBeCloseTo(0.25);
+    expect(kellyCriterion(history([[1, 10], [2, 20]]))).toBe(1);
+    expect(kellyCriterion(history([[1, -10]]))).toBe(0);
+  });
+
+  it('sizes the Kelly model from the fraction of full Kelly', () => {
+    const [, first] = simulateSizing(data, 1000, settings({ model: 'kelly', kellyFraction: 0.5 }));
+
+    expect(first.simulatedVolume).toBeCloseTo(1.25);
+  });
+});
+
+describe('riskPerLot', () => {
+  it('prices the stop distance from the trade’s own move', () => {
+    const trade = row(2, 100, 1100, 1, { entryPrice: 1.1, price: 1.11, stopLoss: 1.095, rawProfit: 100 });
+
+    expect(riskPerLot(trade, 75)).toBeCloseTo(50);
+  });
+
+  it('falls back to the realised loss, or the average loss for a winner', () => {
+    expect(riskPerLot(row(2, -60, 940, 2), 75)).toBe(30);
+    expect(riskPerLot(row(2, 60, 1060), 75)).toBe(75);
+  });
+});
+
+describe('variable-lot reports', () => {
+  // 1 lot for +100, then 3 lots for -150: +100 and -50 per lot
+  const variable = [row(1, 1000, 1000, 0), row(2, 100, 1100), row(3, -150, 950, 3)];
+
+  it('scales each trade from its own volume, costs and excursions included', () => {
+    const trade = row(2, 92, 1092, 2, { rawProfit: 100, commission: -6, swap: -2, mae: -40 });
+    const [, simulated] = simulateSizing([row(1, 1000, 1000, 0), trade], 1000, settings({ lotSize: 1 }));
+
+    expect(simulated).toMatchObject({ simulatedProfit: 46, simulatedBalance: 1046, mae: -20 });
+  });
+
+  it('splits the net profit into the per-lot edge and the sizing effect', () => {
+    expect(calculateSizingAttribution(variable)).toEqual({
+      averageLot: 2,
+      perLotExpectancy: 25,
+      originalProfit: -50,
+      flatProfit: 100,
+      sizingEffect: -150,
+    });
+  });
+
+  it('reads the Kelly edge per lot rather than per trade', () => {
+    expect(kellyCriterion(variable)).toBeCloseTo(0.25);
+  });
+});
@@ -0,0 +1,174 @@
+import { type DataPoint } from './parser';
+import { startingBalance, type OpeningBalance } from './balance';
+
+export type SizingModel = 'fixed-lot' | 'fixed-fractional' | 'fixed-risk' | 'kelly' | 'martingale' | 'anti-martingale';
+
+export interface SizingSettings {
+  model: SizingModel;
+  lotSize: number; // the fixed lot, and the base lot of (anti-)martingale
+  riskPercent: number; // % of balance risked per trade (fixed fractional, fixed risk)
+  kellyFraction: number; // share of full Kelly, e.g. 0.5 for half Kelly
+  multiplier: number; // lot multiplier per (anti-)martingale step
+  maxSteps: number; // the progression resets after this many steps
+}
+
+export interface SimulatedDataPoint extends DataPoint {
+  simulatedBalance: number;
+  simulatedProfit: number;
+  simulatedVolume: number;
+}
+
+export const SIZING_MODELS: { model: SizingModel; label: string }[] = [
+  { model: 'fixed-lot', label: 'Fixed Lot' },
+  { model: 'fixed-fractional', label: 'Fixed Fractional' },
+  { model: 'fixed-risk', label: 'Fixed Risk' },
+  { model: 'kelly', label: 'Fractional Kelly' },
+  { model: 'martingale', label: 'Martingale' },
+  { model: 'anti-martingale', label: 'Anti-Martingale' },
+];
+
+export const DEFAULT_SIZING: Omit<SizingSettings, 'lotSize'> = {
+  model: 'fixed-lot',
+  riskPercent: 1,
+  kellyFraction: 0.5,
+  multiplier: 2,
+  maxSteps: 4,
+};
+
+const LOT_STEP = 0.01;
+
+const isTrade = (d: DataPoint) => d.volume > 0;
+
+// Net P&L of one lot of the trade
+export const profitPerLot = (d: DataPoint) => d.profit / d.volume;
+
+export interface SizingAttribution {
+  averageLot: number;
+  perLotExpectancy: number; // average net P&L of one lot
+  originalProfit: number; // as traded, with the report's own sizing
+  flatProfit: number; // the same trades at the average lot, i.e. the raw edge
+  sizingEffect: number; // what the sizing logic added (or cost) on top of the edge
+}
+
+/**
+ * Splits a report's net profit into the raw edge (every trade replayed at the average lot,
+ * without compounding) and the effect of the sizing logic that varied the volume.
+ */
+export const calculateSizingAttribution = (data: DataPoint[]): SizingAttribution => {
+  const trades = data.filter(isTrade);
+  if (trades.length === 0) return { averageLot: 0, perLotExpectancy: 0, originalProfit: 0, flatProfit: 0, sizingEffect: 0 };
+
+  const averageLot = trades.reduce((sum, d) => sum + d.volume, 0) / trades.length;
+  const perLotNet = trades.reduce((sum, d) => sum + profitPerLot(d), 0);
+  const originalProfit = trades.reduce((sum, d) => sum + d.profit, 0);
+  const flatProfit = perLotNet * averageLot;
+
+  return {
+    averageLot,
+    perLotExpectancy: perLotNet / trades.length,
+    originalProfit,
+    flatProfit,
+    sizingEffect: originalProfit - flatProfit,
+  };
+};
+
+/**
+ * Kelly fraction from per-lot results: W - (1 - W) / R, with W the win rate and R the
+ * average win over the average loss. Zero when the history has no edge.
+ */
+export const kellyCriterion = (data: DataPoint[]) => {
+  const perLot = data.filter(isTrade).map(profitPerLot);
+  const wins = perLot.filter(p => p >= 0);
+  const losses = perLot.filter(p => p < 0);
+  if (wins.length === 0 || losses.length === 0) return wins.length > 0 ? 1 : 0;
+
+  const winRate = wins.length / perLot.length;
+  const payoff = (wins.reduce((a, b) => a + b, 0) / wins.length) / Math.abs(losses.reduce((a, b) => a + b, 0) / losses.length);
+  return Math.max(0, winRate - (1 - winRate) / payoff);
+};
+
+/**
+ * Money a one-lot position risked: the S/L distance priced from the trade's own
+ * price move when the stop is known, otherwise the realised loss (or the average loss for winners).
+ */
+export const riskPerLot = (d: DataPoint, averageLoss: number) => {
+  const move = d.price !== undefined && d.entryPrice !== undefined ? Math.abs(d.price - d.entryPrice) : 0;
+  if (d.stopLoss && d.entryPrice && move > 0 && d.rawProfit) {
+    return (Math.abs(d.rawProfit / d.volume) * Math.abs(d.entryPrice - d.stopLoss)) / move;
+  }
+  return d.profit < 0 ? Math.abs(profitPerLot(d)) : averageLoss;
+};
+
+/**
+ * Replays the trades under a position-sizing model, compounding on the simulated balance.
+ * Each trade's P&L, commission and swap included, is scaled from its original volume; non-trade rows pass through unchanged.
+ */
+export const simulateSizing = (data: DataPoint[], initialDeposit: OpeningBalance, settings: SizingSettings): SimulatedDataPoint[] => {
+  const perLot = data.filter(isTrade).map(profitPerLot);
+  const lossesPerLot = perLot.filter(p => p < 0).map(Math.abs);
+  const largestLoss = lossesPerLot.length > 0 ? Math.max(...lossesPerLot) : 0;
+  const averageLoss = lossesPerLot.length > 0 ? lossesPerLot.reduce((a, b) => a + b, 0) / lossesPerLot.length : 0;
+  const kelly = kellyCriterion(data) * settings.kellyFraction;
+
+  // Balance-based models size against the largest historical loss per lot (Vince's fixed fractional)
+  const fractionalLots = (balance: number, fraction: number) =>
+    largestLoss > 0 ? (balance * fraction) / largestLoss : settings.lotSize;
+
+  let balance = startingBalance(data, initialDeposit);
+  let step = 0;
+
+  return data.map(d => {
+    if (!isTrade(d)) {
+      balance += d.profit;
+      return { ...d, simulatedBalance: balance, simulatedProfit: d.profit, simulatedVolume: 0 };
+    }
+
+    let lots: number;
+    switch (settings.model) {
+      case 'fixed-fractional':
+        lots = fractionalLots(balance, settings.riskPercent / 100);
+        break;
+      case 'fixed-risk': {
+        const risk = riskPerLot(d, averageLoss);
+        lots = risk > 0 ? (balance * settings.riskPercent) / 100 / risk : settings.lotSize;
+        break;
+      }
+      case 'kelly':
+        lots = fractionalLots(balance, kelly);
+        break;
+      case 'martingale':
+      case 'anti-martingale':
+        lots = settings.lotSize * Math.pow(settings.multiplier, step);
+        break;
+      default:
+        lots = settings.lotSize;
+    }
+
+    // Compounding models round down to the broker lot step, and a blown account stops trading
+    if (settings.model !== 'fixed-lot') {
+      lots = balance > 0 ? Math.max(LOT_STEP, Math.floor(lots / LOT_STEP + 1e-9) * LOT_STEP) : 0;
+    }
+
+    const commission = d.commission || 0;
+    const swap = d.swap || 0;
+    const rawProfit = d.rawProfit ?? d.profit - commission - swap;
+    const ratio = lots / d.volume;
+    const simulatedProfit = (rawProfit + commission + swap) * ratio;
+    balance += simulatedProfit;
+
+    // Martingale steps up after a loss, anti-martingale after a win
+    const won = simulatedProfit >= 0;
+    const stepUp = settings.model === 'martingale' ? !won : won;
+    step = stepUp && step < settings.maxSteps ? step + 1 : 0;
+
+    return {
+      ...d,
+      // Excursions scale with the position size
+      mae: d.mae !== undefined ? d.mae * ratio : undefined,
+      mfe: d.mfe !== undefined ? d.mfe * ratio : undefined,
+      simulatedBalance: balance,
+      simulatedProfit,
+      simulatedVolume: lots,
+    };
+  });
+};
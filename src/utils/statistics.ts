@@ -1,144 +1,152 @@
-import { DataPoint, ReportMeta } from './parser';
+import { type DataPoint } from './parser';
+import { openingAmount, startingBalance, type OpeningBalance } from './balance';
+import { EMPTY_METRICS, type Metrics } from './metrics';
+import { DEFAULT_RISK_SETTINGS, calculateRiskMetrics, type RiskSettings } from './riskMetrics';
+import { calculateDirectionBreakdown } from './directions';
+import { calculateStreaks } from './streaks';
+import { formatTime } from './tables';
 
-export const calculateStats = (simulatedData: DataPoint[], initialDeposit: number): ReportMeta => {
-  if (simulatedData.length === 0) return { totalTrades: 0 };
+type StatsInput = DataPoint & { simulatedProfit?: number; simulatedBalance?: number };
+
+const formatPeriod = (start: Date, end: Date) => `${formatTime(start).slice(0, 10)} - ${formatTime(end).slice(0, 10)}`;
+
+/**
+ * Computes the full summary from a trade timeline. Simulated runs pass their
+ * `simulatedProfit` / `simulatedBalance`, which take precedence over the originals.
+ * The Sharpe ratio follows the risk-free rate and returns period of `riskSettings`.
+ */
+export const calculateStats = (
+  simulatedData: StatsInput[],
+  initialDeposit: OpeningBalance,
+  riskSettings: RiskSettings = DEFAULT_RISK_SETTINGS
+): Metrics => {
+  if (simulatedData.length === 0) return { ...EMPTY_METRICS };
+
+  const points = simulatedData.map(d => ({ ...d, profit: d.simulatedProfit ?? d.profit, balance: d.simulatedBalance ?? d.balance }));
+  const trades = points.filter(d => d.volume > 0);
 
   let grossProfit = 0;
   let grossLoss = 0;
   let wins = 0;
-  let losses = 0;
-  let maxProfit = 0;
-  let maxLoss = 0;
-  let totalProfitSum = 0;
-  let totalLossSum = 0;
-
-  // Streaks
-  let currentWins = 0;
-  let currentLosses = 0;
-  let maxConsecWinsCount = 0;
-  let maxConsecLossesCount = 0;
-  let maxConsecWins$ = 0;
-  let maxConsecLosses$ = 0;
-  let currentWin$ = 0;
-  let currentLoss$ = 0;
-
-  // Drawdowns
-  let peakBalance = initialDeposit;
-  let maxDDVal = 0;
-  let maxDDRel = 0;
-
-  // Trades only (filter out deposits/withdrawals if volume > 0)
-  // Assuming volume > 0 means a trade in this context.
-  const trades = simulatedData.filter(d => d.volume > 0);
-  
-  // Dealing with all balance operations for Drawdown
-  // simulatedData includes all balance updates.
-  // We need to iterate chronologically. data is sorted by time? Yes, likely.
-  // parser.ts sorts deals by date.
-
-  let runningBalance = initialDeposit;
-
-  simulatedData.forEach(d => {
-    // Determine if it's a profit or loss trade
-    // Note: The simulatedData needs to have `simulatedProfit` property?
-    // The parser returns DataPoint, which has profit.
-    // But calculateStats will be called on simulated data, which effectively replaces 'profit' with 'simulatedProfit' in the object?
-    // Wait, DataPoint interface has `profit`.
-    // In Simulation.tsx, we map `deal` to `{ ...deal, simulatedProfit, simulatedBalance }`.
-    // So the input to this function should probably be an extended DataPoint or just DataPoint where profit is the simulated profit.
-    // Let's assume we map simulatedProfit -> profit before calling this, or handle it.
-    // The clean way is to ensure `simulatedData` passed here has the correct `profit` field or use a generic accessor.
-    // For now, let's assume `profit` holds the simulated value (since that's what we care about stats for).
-    
-    // BUT Simulation.tsx returns an object with `simulatedProfit` separate from `profit`.
-    // I should create a type `SimulatedDataPoint` extending `DataPoint`.
-    
-    const profit = (d as any).simulatedProfit ?? d.profit;
-    const balance = (d as any).simulatedBalance ?? d.balance;
+  let largestProfit = 0;
+  let largestLoss = 0;
+
+  // Balance drawdowns: the deepest in money and the deepest in percent, each with its counterpart
+  let peakBalance = openingAmount(initialDeposit);
+  let balanceDDMax = 0;
+  let balanceDDMaxPct = 0;
+  let balanceDDRel = 0;
+  let balanceDDRelPct = 0;
+
+  // Equity: the low point inside each trade is the balance before it plus its MAE
+  let peakEquity = openingAmount(initialDeposit);
+  let equityDDMax = 0;
+  let equityDDMaxPct = 0;
+  let equityDDRel = 0;
+  let equityDDRelPct = 0;
+  let previousBalance = startingBalance(points, initialDeposit);
+  let equityEstimated = false;
+  let maeSum = 0;
+  let mfeSum = 0;
+
+  points.forEach(d => {
+    const { profit, balance } = d;
 
     if (d.volume > 0) {
       if (profit >= 0) {
         grossProfit += profit;
         wins++;
-        maxProfit = Math.max(maxProfit, profit);
-        totalProfitSum += profit;
-        
-        currentWins++;
-        currentWin$ += profit;
-        
-        currentLosses = 0;
-        currentLoss$ = 0;
+        largestProfit = Math.max(largestProfit, profit);
       } else {
-        grossLoss += Math.abs(profit);
-        losses++;
-        maxLoss = Math.min(maxLoss, profit); // maxLoss is usually negative in raw value, but we track magnitude?
-        // standard defines "Largest loss trade" usually as the negative number.
-        totalLossSum += profit;
-
-        currentLosses++;
-        currentLoss$ += profit;
-        
-        currentWins = 0;
-        currentWin$ = 0;
+        grossLoss += profit;
+        largestLoss = Math.min(largestLoss, profit);
       }
+    }
 
-      maxConsecWinsCount = Math.max(maxConsecWinsCount, currentWins);
-      maxConsecLossesCount = Math.max(maxConsecLossesCount, currentLosses);
-      maxConsecWins$ = Math.max(maxConsecWins$, currentWin$);
-      maxConsecLosses$ = Math.min(maxConsecLosses$, currentLoss$); // tracked as sum of losses (negative)
+    peakBalance = Math.max(peakBalance, balance);
+    const dd = peakBalance - balance;
+    if (dd > 0) {
+      const pct = (dd / peakBalance) * 100;
+      if (dd > balanceDDMax) [balanceDDMax, balanceDDMaxPct] = [dd, pct];
+      if (pct > balanceDDRelPct) [balanceDDRel, balanceDDRelPct] = [dd, pct];
     }
-    
-    // Drawdown Calculation on Balance
-    if (balance > peakBalance) {
-      peakBalance = balance;
-    } else {
-      const ddVal = peakBalance - balance;
-      const ddRel = (ddVal / peakBalance) * 100;
-      maxDDVal = Math.max(maxDDVal, ddVal);
-      maxDDRel = Math.max(maxDDRel, ddRel);
+
+    if (d.volume > 0) {
+      if (d.mae === undefined || d.excursionEstimated) equityEstimated = true;
+      const mae = Math.min(0, d.mae ?? profit);
+      maeSum += mae;
+      mfeSum += Math.max(0, d.mfe ?? profit);
+
+      const eqDD = peakEquity - (previousBalance + mae);
+      if (eqDD > 0) {
+        const pct = (eqDD / peakEquity) * 100;
+        if (eqDD > equityDDMax) [equityDDMax, equityDDMaxPct] = [eqDD, pct];
+        if (pct > equityDDRelPct) [equityDDRel, equityDDRelPct] = [eqDD, pct];
+      }
     }
-    
-    runningBalance = balance;
+    peakEquity = Math.max(peakEquity, balance);
+    previousBalance = balance;
   });
 
   const totalTrades = trades.length;
-  const netProfit = grossProfit - grossLoss;
-  const profitFactor = grossLoss === 0 ? grossProfit : grossProfit / grossLoss;
-  
-  const avgProfit = wins > 0 ? totalProfitSum / wins : 0;
-  const avgLoss = losses > 0 ? totalLossSum / losses : 0;
+  const losses = totalTrades - wins;
+  const netProfit = grossProfit + grossLoss;
+  const [short, long] = calculateDirectionBreakdown(points);
+  const streaks = calculateStreaks(points);
+  const risk = calculateRiskMetrics(points, initialDeposit, riskSettings);
+  const start = points[0].date;
+  const end = points[points.length - 1].date;
+  const isFixedLot = totalTrades > 0 && trades.every(d => d.volume === trades[0].volume);
 
-  // Return formatted strings as ReportMeta expects string | number usually (string for display)
   return {
-    totalNetProfit: netProfit.toFixed(2),
-    grossProfit: grossProfit.toFixed(2),
-    grossLoss: (-grossLoss).toFixed(2), // usually displayed as negative
-    profitFactor: profitFactor.toFixed(2),
-    sharpeRatio: "0.00", // placeholder, complex to calc
-    
-    balanceDDMax: `${maxDDVal.toFixed(2)} (${((maxDDVal/peakBalance)*100).toFixed(2)}%)`, // Approx format
-    equityDDMax: "0.00 (0.00%)", // No equity data
-    balanceDDRel: `${maxDDRel.toFixed(2)}% (${maxDDVal.toFixed(2)})`,
-    equityDDRel: "0.00% (0.00)",
-
-    totalTrades: totalTrades,
-    profitTrades: `${wins} (${((wins/totalTrades)*100).toFixed(2)}%)`,
-    lossTrades: `${losses} (${((losses/totalTrades)*100).toFixed(2)}%)`,
-    shortTrades: "0 (0%)", // Not tracking direction
-    longTrades: "0 (0%)", // Not tracking direction
-
-    largestProfit: maxProfit.toFixed(2),
-    largestLoss: maxLoss.toFixed(2),
-    avgProfit: avgProfit.toFixed(2),
-    avgLoss: avgLoss.toFixed(2),
-
-    maxConsecWins$: maxConsecWins$.toFixed(2),
-    maxConsecLosses$: maxConsecLosses$.toFixed(2),
-    maxConsecProfitCount: maxConsecWinsCount.toString(),
-    maxConsecLossCount: maxConsecLossesCount.toString(),
-    avgConsecWins: "0", // Need more complex logic for averages
-    avgConsecLosses: "0",
-    
-    period: "Simulated"
+    netProfit,
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss === 0 ? grossProfit : grossProfit / -grossLoss,
+    expectedPayoff: risk.expectedPayoff,
+    sharpeRatio: risk.sharpe,
+    recoveryFactor: risk.recoveryFactor,
+
+    balanceDDMax,
+    balanceDDMaxPct,
+    balanceDDRel,
+    balanceDDRelPct,
+    equityDDMax,
+    equityDDMaxPct,
+    equityDDRel,
+    equityDDRelPct,
+    equityEstimated,
+
+    totalTrades,
+    shortTrades: short.trades,
+    shortWinRate: short.winRate,
+    longTrades: long.trades,
+    longWinRate: long.winRate,
+    profitTrades: wins,
+    lossTrades: losses,
+    largestProfit,
+    largestLoss,
+    avgProfit: wins > 0 ? grossProfit / wins : 0,
+    avgLoss: losses > 0 ? grossLoss / losses : 0,
+    avgMAE: totalTrades > 0 ? maeSum / totalTrades : 0,
+    avgMFE: totalTrades > 0 ? mfeSum / totalTrades : 0,
+
+    maxConsecWins: streaks.longestWin.count,
+    maxConsecWinsProfit: streaks.longestWin.profit,
+    maxConsecLosses: streaks.longestLoss.count,
+    maxConsecLossesLoss: streaks.longestLoss.profit,
+    maxConsecProfit: streaks.mostProfitable.profit,
+    maxConsecProfitCount: streaks.mostProfitable.count,
+    maxConsecLoss: streaks.mostCostly.profit,
+    maxConsecLossCount: streaks.mostCostly.count,
+    avgConsecWins: Math.round(streaks.wins.average),
+    avgConsecLosses: Math.round(streaks.losses.average),
+    medianConsecWins: streaks.wins.median,
+    medianConsecLosses: streaks.losses.median,
+
+    fixedLotSize: isFixedLot ? trades[0].volume : undefined,
+    period: formatPeriod(start, end),
+    start,
+    end,
   };
 };
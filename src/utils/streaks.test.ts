@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStreaks } from './streaks';
+import { calculateDirectionBreakdown } from './directions';
+import { row } from './testFixtures';
+
+const trades = [
+  row(1, 1000, 1000, 0),
+  row(2, 50, 1050),
+  row(3, 0, 1050, 1, { type: 'sell' }),
+  row(4, 500, 1550, 0),
+  row(5, 30, 2080),
+  row(8, -20, 2060, 1, { type: 'sell' }),
+  row(9, -40, 2020),
+  row(10, 200, 2220, 1, { type: 'sell' }),
+];
+
+describe('calculateStreaks', () => {
+  it('counts break-even trades as wins and lets balance operations pass', () => {
+    const streaks = calculateStreaks(trades);
+
+    expect(streaks.wins).toEqual({ count: 2, average: 2, median: 2, max: 3 });
+    expect(streaks.losses).toEqual({ count: 1, average: 2, median: 2, max: 2 });
+    expect(streaks.longestWin).toEqual({ count: 3, profit: 80 });
+    expect(streaks.mostCostly).toEqual({ count: 2, profit: -60 });
+    expect(streaks.mostProfitable).toEqual({ count: 1, profit: 200 });
+    expect(streaks.histogram).toEqual([
+      { length: 1, wins: 1, losses: 0 },
+      { length: 2, wins: 0, losses: 1 },
+      { length: 3, wins: 1, losses: 0 },
+    ]);
+  });
+});
+
+describe('calculateDirectionBreakdown', () => {
+  it('splits the trades into short and long', () => {
+    const [short, long] = calculateDirectionBreakdown(trades);
+
+    expect(short).toMatchObject({ direction: 'short', trades: 3, wins: 2, netProfit: 180, grossLoss: 20, profitFactor: 10, avgTrade: 60 });
+    expect(long).toMatchObject({ direction: 'long', trades: 3, wins: 2, netProfit: 40, grossProfit: 80, grossLoss: 40, profitFactor: 2 });
+  });
+});
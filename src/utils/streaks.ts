@@ -0,0 +1,84 @@
+import { type DataPoint } from './parser';
+
+export interface StreakDistribution {
+  count: number; // number of runs
+  average: number;
+  median: number;
+  max: number;
+}
+
+export interface Run {
+  count: number;
+  profit: number;
+}
+
+export interface StreakStats {
+  wins: StreakDistribution;
+  losses: StreakDistribution;
+  histogram: { length: number; wins: number; losses: number }[];
+  longestWin: Run;
+  longestLoss: Run;
+  mostProfitable: Run; // the winning run with the largest total
+  mostCostly: Run; // the losing run with the largest total loss
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const distribution = (runs: number[]): StreakDistribution => ({
+  count: runs.length,
+  average: runs.length > 0 ? runs.reduce((a, b) => a + b, 0) / runs.length : 0,
+  median: median(runs),
+  max: runs.length > 0 ? Math.max(...runs) : 0,
+});
+
+/**
+ * Lengths of consecutive winning and losing runs, the way MT5 counts them:
+ * a break-even trade counts as a win, and balance operations do not interrupt a run.
+ */
+export const calculateStreaks = (data: DataPoint[]): StreakStats => {
+  const wins: Run[] = [];
+  const losses: Run[] = [];
+  let current: Run = { count: 0, profit: 0 };
+  let winning = true;
+
+  data.forEach(d => {
+    if (d.volume <= 0) return;
+    const win = d.profit >= 0;
+    if (current.count > 0 && win !== winning) {
+      (winning ? wins : losses).push(current);
+      current = { count: 0, profit: 0 };
+    }
+    winning = win;
+    current.count++;
+    current.profit += d.profit;
+  });
+  if (current.count > 0) (winning ? wins : losses).push(current);
+
+  // The first run wins ties, as MT5 reports the earliest
+  const pick = (runs: Run[], better: (a: Run, b: Run) => boolean) =>
+    runs.reduce((best, r) => (better(r, best) ? r : best), { count: 0, profit: 0 });
+  const winRuns = wins.map(r => r.count);
+  const lossRuns = losses.map(r => r.count);
+
+  const longest = Math.max(0, ...winRuns, ...lossRuns);
+  const histogram = Array.from({ length: longest }, (_, i) => ({
+    length: i + 1,
+    wins: winRuns.filter(r => r === i + 1).length,
+    losses: lossRuns.filter(r => r === i + 1).length,
+  }));
+
+  return {
+    wins: distribution(winRuns),
+    losses: distribution(lossRuns),
+    histogram,
+    longestWin: pick(wins, (a, b) => a.count > b.count),
+    longestLoss: pick(losses, (a, b) => a.count > b.count),
+    mostProfitable: pick(wins, (a, b) => a.profit > b.profit),
+    mostCostly: pick(losses, (a, b) => a.profit < b.profit),
+  };
+};
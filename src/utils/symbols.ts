@@ -0,0 +1,62 @@
+import { type DataPoint } from './parser';
+import { startingBalance } from './balance';
+
+export interface SymbolBreakdown {
+  symbol: string;
+  trades: number;
+  wins: number;
+  winRate: number;
+  netProfit: number;
+  grossProfit: number;
+  grossLoss: number;
+  profitFactor: number;
+  volume: number;
+}
+
+export const listSymbols = (deals: DataPoint[]): string[] =>
+  Array.from(new Set(deals.filter(d => d.volume > 0 && d.symbol).map(d => d.symbol as string))).sort();
+
+/**
+ * Keeps the trades of one symbol plus every balance operation, and rebuilds the balance
+ * so the curve and drawdowns reflect that symbol alone.
+ */
+export const filterBySymbol = (data: DataPoint[], initialDeposit: number, symbol: string): DataPoint[] => {
+  const filtered = data.filter(d => d.volume === 0 || d.symbol === symbol);
+
+  let balance = startingBalance(filtered, initialDeposit);
+
+  return filtered.map(d => {
+    balance += d.profit;
+    return { ...d, balance };
+  });
+};
+
+export const calculateSymbolBreakdown = (data: DataPoint[]): SymbolBreakdown[] => {
+  const rows: Record<string, SymbolBreakdown> = {};
+
+  data.forEach(d => {
+    if (d.volume <= 0) return;
+    const symbol = d.symbol || 'Unknown';
+    const row = rows[symbol] ??= {
+      symbol, trades: 0, wins: 0, winRate: 0, netProfit: 0, grossProfit: 0, grossLoss: 0, profitFactor: 0, volume: 0
+    };
+
+    row.trades++;
+    row.volume += d.volume;
+    row.netProfit += d.profit;
+    if (d.profit >= 0) {
+      row.wins++;
+      row.grossProfit += d.profit;
+    } else {
+      row.grossLoss += Math.abs(d.profit);
+    }
+  });
+
+  return Object.values(rows)
+    .map(row => ({
+      ...row,
+      winRate: (row.wins / row.trades) * 100,
+      profitFactor: row.grossLoss === 0 ? row.grossProfit : row.grossProfit / row.grossLoss,
+    }))
+    .sort((a, b) => b.netProfit - a.netProfit);
+};
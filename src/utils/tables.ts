@@ -0,0 +1,73 @@
+export const DATE_PATTERN = /^\d{4}\.\d{2}\.\d{2}/;
+
+export const parseDate = (timeStr: string) => new Date(timeStr.replace(/\./g, '-'));
+
+// Robust parsing handling spaces, commas, and negative signs; null when the text is not a number
+export const parseNumber = (txt: string | null | undefined): number | null => {
+  if (!txt) return null;
+  // Remove spaces and normalize minus signs (en-dash, em-dash, minus sign to hyphen)
+  let clean = txt.trim().replace(/\s/g, '').replace(/[\u2013\u2014\u2212]/g, '-');
+
+  // Convert comma decimal separator (common in EU reports) to dot
+  if (clean.includes(',') && !clean.includes('.')) {
+    clean = clean.replace(',', '.');
+  } else {
+    clean = clean.replace(/,/g, '');
+  }
+  const val = parseFloat(clean);
+  return isFinite(val) ? val : null;
+};
+
+export const cleanVal = (txt: string | null | undefined) => parseNumber(txt) ?? 0;
+
+// Finds a column by header keywords, preferring an exact match over a partial one
+export const columnFinder = (headerRow: Element) => {
+  const hCells = Array.from(headerRow.querySelectorAll('th, td')).map(c => c.textContent?.trim().toLowerCase() || '');
+  return (keywords: string[]) => {
+    const exact = hCells.findIndex(h => keywords.includes(h));
+    return exact !== -1 ? exact : hCells.findIndex(h => keywords.some(k => h.includes(k)));
+  };
+};
+
+// MT5 titles each table with a single spanning cell ("Orders", "Deals"); returns its header row and body rows
+export const sectionRows = (rows: Element[], title: string) => {
+  const isTitle = (row: Element) => {
+    const c = row.querySelectorAll('th, td');
+    return c.length === 1 && !!c[0].textContent?.trim();
+  };
+  const start = rows.findIndex(row => isTitle(row) && row.textContent?.trim().toLowerCase() === title);
+  if (start === -1) return null;
+  const end = rows.findIndex((row, i) => i > start && isTitle(row));
+  return rows.slice(start + 1, end === -1 ? rows.length : end);
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Formats a date the way MT5 reports print times ("2024.01.31 14:05:00")
+export const formatTime = (date: Date) =>
+  `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+/**
+ * Parses the date formats found in exported trade histories:
+ * year-first ("2024.01.31", "2024-01-31T14:05") or day-first ("31/01/2024 14:05:00.000").
+ */
+export const parseFlexibleDate = (text: string): Date | null => {
+  const match = text.trim().match(/^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) return null;
+
+  const [, a, b, c, h = '0', m = '0', sec = '0'] = match;
+  const [year, month, day] = a.length === 4 ? [a, b, c] : [c, b, a];
+  const date = new Date(+year, +month - 1, +day, +h, +m, +sec);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Reads the first table whose header row satisfies the predicate, as rows of trimmed cell text
+export const extractTable = (doc: Document, isHeader: (cells: string[]) => boolean): string[][] | null => {
+  const rows = Array.from(doc.querySelectorAll('tr')).map(row =>
+    Array.from(row.querySelectorAll('th, td')).map(c => c.textContent?.trim() || '')
+  );
+  const start = rows.findIndex(cells => isHeader(cells.map(c => c.toLowerCase())));
+  if (start === -1) return null;
+  const width = rows[start].length;
+  return [rows[start], ...rows.slice(start + 1).filter(cells => cells.length === width)];
+};
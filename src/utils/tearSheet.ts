@@ -0,0 +1,115 @@
+import { type DataPoint } from './parser';
+import { type Metrics } from './metrics';
+import { formatMoney, formatPercent } from './format';
+import { buildEquityCurve } from './equity';
+import { openingAmount, type OpeningBalance } from './balance';
+import { MONTH_LABELS, type ReturnTables } from './returns';
+
+interface TearSheetInput {
+  title: string;
+  data: DataPoint[];
+  initialDeposit: OpeningBalance;
+  metrics: Metrics;
+  returns: ReturnTables;
+}
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 200;
+const CHART_POINTS = 400;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c] as string);
+
+// Balance line as an inline SVG, thinned out so long reports stay light
+const balanceChart = (data: DataPoint[], initialDeposit: OpeningBalance) => {
+  const curve = buildEquityCurve(data, initialDeposit);
+  if (curve.length < 2) return '';
+
+  const step = Math.max(1, Math.ceil(curve.length / CHART_POINTS));
+  const points = curve.filter((_, i) => i % step === 0 || i === curve.length - 1);
+  const values = points.map(p => p.balance);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const path = points
+    .map((p, i) => {
+      const x = (i / (points.length - 1)) * CHART_WIDTH;
+      const y = CHART_HEIGHT - ((p.balance - min) / range) * CHART_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" preserveAspectRatio="none">
+    <polyline points="${path}" fill="none" stroke="#4f46e5" stroke-width="2" vector-effect="non-scaling-stroke" />
+  </svg>
+  <div class="axis">Low ${formatMoney(min)} · High ${formatMoney(min + range)}</div>`;
+};
+
+const returnCell = (percent: number | undefined) => {
+  if (percent === undefined) return '<td></td>';
+  const shade = Math.min(1, Math.abs(percent) / 10) * 0.5 + 0.1;
+  const color = percent >= 0 ? `rgba(16,185,129,${shade})` : `rgba(244,63,94,${shade})`;
+  return `<td style="background:${color}">${percent.toFixed(1)}</td>`;
+};
+
+const monthlyTable = (returns: ReturnTables) => `<table class="returns">
+    <thead><tr><th></th>${MONTH_LABELS.map(m => `<th>${m}</th>`).join('')}<th>Year</th></tr></thead>
+    <tbody>${returns.yearly.map(y => `<tr><th>${y.year}</th>${MONTH_LABELS.map((_, month) =>
+      returnCell(returns.monthly.find(r => r.year === y.year && r.month === month)?.percent)).join('')}${returnCell(y.percent)}</tr>`).join('')}
+    </tbody>
+  </table>`;
+
+/**
+ * One-page summary for sharing: key statistics, the balance curve and the monthly returns grid.
+ * Self-contained HTML, printed to PDF from the browser.
+ */
+export const buildTearSheet = ({ title, data, initialDeposit, metrics, returns }: TearSheetInput) => {
+  const deposit = openingAmount(initialDeposit);
+  const winRate = metrics.totalTrades > 0 ? (metrics.profitTrades / metrics.totalTrades) * 100 : 0;
+  const stats: [string, string][] = [
+    ['Net Profit', formatMoney(metrics.netProfit)],
+    ['Return', formatPercent(deposit > 0 ? (metrics.netProfit / deposit) * 100 : 0)],
+    ['Profit Factor', metrics.profitFactor.toFixed(2)],
+    ['Sharpe Ratio', metrics.sharpeRatio.toFixed(2)],
+    ['Recovery Factor', metrics.recoveryFactor.toFixed(2)],
+    ['Max Drawdown', `${formatMoney(metrics.balanceDDMax)} (${formatPercent(metrics.balanceDDMaxPct)})`],
+    ['Total Trades', metrics.totalTrades.toString()],
+    ['Win Rate', formatPercent(winRate)],
+    ['Expected Payoff', formatMoney(metrics.expectedPayoff)],
+    ['Initial Deposit', formatMoney(deposit)],
+  ];
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  body { font-family: Inter, Helvetica, Arial, sans-serif; color: #0f172a; margin: 0 auto; max-width: 760px; font-size: 11px; }
+  h1 { font-size: 20px; margin: 0 0 2px; }
+  h2 { font-size: 10px; text-transform: uppercase; letter-spacing: 0.2em; color: #4f46e5; margin: 18px 0 8px; }
+  .period { color: #64748b; }
+  .stats { display: grid; grid-template-columns: repeat(5, 1fr); gap: 8px; }
+  .stat { border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px; }
+  .stat span { display: block; color: #64748b; font-size: 9px; text-transform: uppercase; }
+  .stat b { font-size: 13px; }
+  svg { width: 100%; height: ${CHART_HEIGHT}px; border-bottom: 1px solid #e2e8f0; }
+  .axis { color: #64748b; font-size: 9px; margin-top: 4px; }
+  table.returns { width: 100%; border-collapse: collapse; }
+  table.returns th, table.returns td { padding: 4px; text-align: center; border: 1px solid #f1f5f9; }
+  footer { margin-top: 18px; color: #94a3b8; font-size: 9px; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="period">${escapeHtml(metrics.period)}</div>
+  <h2>Key Statistics</h2>
+  <div class="stats">${stats.map(([label, value]) => `<div class="stat"><span>${label}</span><b>${value}</b></div>`).join('')}</div>
+  <h2>Balance</h2>
+  ${balanceChart(data, initialDeposit)}
+  <h2>Monthly Returns (%)</h2>
+  ${monthlyTable(returns)}
+  <footer>Generated by Q-Audit on ${new Date().toLocaleDateString()}. Past performance is not indicative of future results.</footer>
+</body>
+</html>`;
+};
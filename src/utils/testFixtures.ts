@@ -0,0 +1,29 @@
+import { type DataPoint } from './parser';
+
+// Deal timelines for the calculation tests, all in January 2024
+
+export const day = (d: number, hour = 12) => new Date(2024, 0, d, hour);
+
+// One deal closed at noon on day `d`; a zero volume makes it a balance operation
+export const row = (d: number, profit: number, balance: number, volume = 1, fields: Partial<DataPoint> = {}): DataPoint => ({
+  time: `2024.01.${String(d).padStart(2, '0')} 12:00:00`,
+  date: day(d),
+  balance,
+  profit,
+  volume,
+  type: volume > 0 ? 'buy' : 'balance',
+  ...fields,
+});
+
+// Deals from [day, profit, volume] entries, with the balance running on from `opening`
+export const history = (entries: [number, number, number?][], opening = 0): DataPoint[] => {
+  let balance = opening;
+  return entries.map(([d, profit, volume = 1]) => {
+    balance += profit;
+    return row(d, profit, balance, volume);
+  });
+};
+
+// A report as MT5 lays it out: the opening deposit, trades, a later top-up and more trades
+export const report = (): DataPoint[] =>
+  history([[1, 1000, 0], [2, 100], [3, -50], [4, 80], [10, 500, 0], [11, -200], [12, 100], [20, 60]]);
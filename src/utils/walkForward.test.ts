@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStats } from './statistics';
+import { filterByDateRange } from './dateRange';
+import { DEFAULT_VALIDATION_SETTINGS, evaluateValidation } from './walkForward';
+import { day, report } from './testFixtures';
+
+const split = (date: Date) => ({ ...DEFAULT_VALIDATION_SETTINGS, splitDate: date.getTime() });
+
+describe('evaluateValidation', () => {
+  it('matches the whole report in-sample when split at the last date', () => {
+    const data = report();
+    const result = evaluateValidation(data, 1000, split(new Date(day(20).getTime() - 1)));
+
+    expect(result?.inSample.metrics).toEqual(calculateStats(data.slice(0, -1), 1000));
+  });
+
+  it('measures a period that opens on a deposit from the balance before it', () => {
+    const result = evaluateValidation(report(), 1000, split(day(10)));
+
+    expect(result?.outOfSample.metrics.netProfit).toBeCloseTo(-40);
+    // 200 lost from the 1630 peak after the top-up, not from the 500 deposited
+    expect(result?.outOfSample.metrics.balanceDDMax).toBeCloseTo(200);
+    expect(result?.outOfSample.metrics.balanceDDMaxPct).toBeCloseTo((200 / 1630) * 100);
+    expect(result?.outOfSample.metrics.equityDDMaxPct).toBeCloseTo((200 / 1630) * 100);
+  });
+
+  it('matches the ranged statistics on a date range that opens on a deposit', () => {
+    const ranged = filterByDateRange(report(), 1000, { start: day(10).getTime(), end: day(20).getTime() });
+    const result = evaluateValidation(ranged.data, ranged.initialDeposit, split(new Date(day(20).getTime() - 1)));
+
+    expect(result?.inSample.metrics).toEqual(calculateStats(ranged.data.slice(0, -1), ranged.initialDeposit));
+    expect(result?.inSample.metrics.equityDDMaxPct).toBeCloseTo((200 / 1630) * 100);
+  });
+});
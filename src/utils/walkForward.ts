@@ -0,0 +1,146 @@
+import { type DataPoint } from './parser';
+import { type Metrics } from './metrics';
+import { calculateStats } from './statistics';
+import { DEFAULT_RISK_SETTINGS, type RiskSettings } from './riskMetrics';
+import { openingAmount, type OpeningBalance } from './balance';
+
+const YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+export type ValidationMode = 'split' | 'walkForward';
+
+export interface ValidationSettings {
+  mode: ValidationMode;
+  splitDate: number | null; // epoch milliseconds; null splits at DEFAULT_IN_SAMPLE_SHARE of the period
+  windows: number;
+  outOfSamplePct: number; // share of each walk-forward window held out, 0-100
+  anchored: boolean; // every in-sample period starts at the first trade instead of rolling forward
+}
+
+export const DEFAULT_IN_SAMPLE_SHARE = 0.7;
+
+export const DEFAULT_VALIDATION_SETTINGS: ValidationSettings = {
+  mode: 'split',
+  splitDate: null,
+  windows: 4,
+  outOfSamplePct: 25,
+  anchored: false,
+};
+
+// Walk-forward efficiency below this share of the in-sample return points to overfitting
+export const EFFICIENCY_THRESHOLD = 50;
+
+export interface ValidationBounds {
+  inSampleStart: number;
+  outOfSampleStart: number;
+  outOfSampleEnd: number;
+}
+
+export interface Segment {
+  start: Date;
+  end: Date;
+  metrics: Metrics;
+  annualReturn: number; // net profit in % of the starting balance, per year
+}
+
+export interface ValidationWindow {
+  inSample: Segment;
+  outOfSample: Segment;
+  efficiency: number | null; // out-of-sample annual return in % of the in-sample one
+}
+
+export interface ValidationResult {
+  windows: ValidationWindow[];
+  // Everything before the first out-of-sample period against everything after it
+  inSample: Segment;
+  outOfSample: Segment;
+  efficiency: number | null;
+}
+
+const efficiency = (inSample: Segment, outOfSample: Segment) =>
+  inSample.annualReturn > 0 ? (outOfSample.annualReturn / inSample.annualReturn) * 100 : null;
+
+/**
+ * The in-sample / out-of-sample periods over the report's span: one split, or walk-forward windows
+ * whose out-of-sample periods follow each other up to the last trade.
+ */
+export const validationBounds = (data: DataPoint[], settings: ValidationSettings): ValidationBounds[] => {
+  if (data.length < 2) return [];
+  const first = data[0].date.getTime();
+  const last = data[data.length - 1].date.getTime();
+  const span = last - first;
+  if (span <= 0) return [];
+
+  if (settings.mode === 'split') {
+    const split = settings.splitDate !== null && settings.splitDate > first && settings.splitDate < last
+      ? settings.splitDate
+      : first + span * DEFAULT_IN_SAMPLE_SHARE;
+    return [{ inSampleStart: first, outOfSampleStart: split, outOfSampleEnd: last }];
+  }
+
+  // The first in-sample period plus every out-of-sample period fill the span
+  const share = Math.min(90, Math.max(5, settings.outOfSamplePct)) / 100;
+  const windows = Math.max(1, Math.round(settings.windows));
+  const inSampleLength = (span * (1 - share)) / (1 - share + windows * share);
+  const outOfSampleLength = (inSampleLength * share) / (1 - share);
+
+  return Array.from({ length: windows }, (_, k) => {
+    const outOfSampleStart = first + inSampleLength + k * outOfSampleLength;
+    return {
+      inSampleStart: settings.anchored ? first : outOfSampleStart - inSampleLength,
+      outOfSampleStart,
+      outOfSampleEnd: k === windows - 1 ? last : outOfSampleStart + outOfSampleLength,
+    };
+  });
+};
+
+/**
+ * Statistics of the trades closed in [start, end), or up to and including `end` for the last period.
+ * The balance carries on from before the period, so drawdowns are measured on the running account.
+ */
+const segment = (
+  data: DataPoint[],
+  initialDeposit: OpeningBalance,
+  start: number,
+  end: number,
+  closed: boolean,
+  risk: RiskSettings
+): Segment => {
+  const from = data.findIndex(d => d.date.getTime() >= start);
+  const points = from === -1 ? [] : data.slice(from).filter(d => (closed ? d.date.getTime() <= end : d.date.getTime() < end));
+  const opening = from > 0 ? { broughtForward: data[from - 1].balance } : initialDeposit;
+  const startBalance = openingAmount(opening);
+  const metrics = calculateStats(points, opening, risk);
+  const years = (end - start) / YEAR;
+
+  return {
+    start: new Date(start),
+    end: new Date(end),
+    metrics,
+    annualReturn: startBalance > 0 && years > 0 ? (metrics.netProfit / startBalance / years) * 100 : 0,
+  };
+};
+
+/**
+ * Recomputes the statistics per period and rates each out-of-sample period by its walk-forward
+ * efficiency: how much of the in-sample annual return it kept.
+ */
+export const evaluateValidation = (
+  data: DataPoint[],
+  initialDeposit: OpeningBalance,
+  settings: ValidationSettings,
+  risk: RiskSettings = DEFAULT_RISK_SETTINGS
+): ValidationResult | null => {
+  const bounds = validationBounds(data, settings);
+  if (bounds.length === 0) return null;
+  const last = bounds[bounds.length - 1].outOfSampleEnd;
+
+  const windows = bounds.map(b => {
+    const inSample = segment(data, initialDeposit, b.inSampleStart, b.outOfSampleStart, false, risk);
+    const outOfSample = segment(data, initialDeposit, b.outOfSampleStart, b.outOfSampleEnd, b.outOfSampleEnd === last, risk);
+    return { inSample, outOfSample, efficiency: efficiency(inSample, outOfSample) };
+  });
+
+  const inSample = segment(data, initialDeposit, bounds[0].inSampleStart, bounds[0].outOfSampleStart, false, risk);
+  const outOfSample = segment(data, initialDeposit, bounds[0].outOfSampleStart, last, true, risk);
+  return { windows, inSample, outOfSample, efficiency: efficiency(inSample, outOfSample) };
+};
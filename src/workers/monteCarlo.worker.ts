@@ -0,0 +1,10 @@
+import { runMonteCarlo, type MonteCarloMessage, type MonteCarloRequest } from '../utils/monteCarlo';
+
+// Runs off the main thread so thousands of replays of a large report do not block the UI
+self.onmessage = (e: MessageEvent<MonteCarloRequest>) => {
+  const { profits, initialDeposit, options } = e.data;
+  const post = (message: MonteCarloMessage) => self.postMessage(message);
+
+  const result = runMonteCarlo(profits, initialDeposit, options, done => post({ type: 'progress', done }));
+  post({ type: 'result', result });
+};